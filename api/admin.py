@@ -0,0 +1,44 @@
+from flask import jsonify
+from . import app
+from .auth import require_role
+from .migrations import MigrationError, migration_status
+from .supabase_client import SupabaseClient, SupabaseError
+
+
+@app.route('/api/admin/migrations', methods=['GET'])
+@require_role('admin')
+def get_migrations():
+    """List every migration and whether it has been applied to the database"""
+    try:
+        supabase = SupabaseClient()
+        try:
+            applied = supabase.select('schema_migrations', {
+                'select': 'version,name,checksum,applied_at',
+            })
+        except SupabaseError as e:
+            # The runner creates the table the first time it runs
+            if e.status_code != 404:
+                raise
+            applied = []
+
+        migrations = migration_status(applied)
+        return jsonify({
+            "status": "success",
+            "migrations": migrations,
+            "pending": sum(1 for m in migrations if m['status'] == 'pending'),
+        })
+    except MigrationError as e:
+        return jsonify({
+            "status": "error",
+            "message": str(e)
+        }), 500
+    except SupabaseError as e:
+        return jsonify({
+            "status": "error",
+            "message": str(e)
+        }), e.status_code
+    except Exception as e:
+        return jsonify({
+            "status": "error",
+            "message": str(e)
+        }), 500
@@ -0,0 +1,50 @@
+from functools import wraps
+from flask import g, jsonify, request
+from .supabase_client import SupabaseClient, SupabaseError
+
+# Routes use the service role key, which bypasses RLS, so the caller's
+# identity and role are checked here instead. Mirrors public.is_instructor().
+AUTHOR_ROLES = ('instructor', 'admin')
+
+
+def _error(message, status_code):
+    return jsonify({
+        "status": "error",
+        "message": message
+    }), status_code
+
+
+def require_role(*roles):
+    """
+    Require a valid Supabase access token in the Authorization header and,
+    when roles are given, a profile with one of them. Sets g.user and g.role.
+    """
+    def decorator(view):
+        @wraps(view)
+        def wrapper(*args, **kwargs):
+            header = request.headers.get('Authorization', '')
+            if not header.startswith('Bearer '):
+                return _error("Authentication required", 401)
+
+            try:
+                supabase = SupabaseClient()
+                user = supabase.get_user(header[len('Bearer '):].strip())
+                if not user:
+                    return _error("Invalid or expired session", 401)
+
+                profile = supabase.select_one('profiles', {
+                    'select': 'role',
+                    'user_id': f"eq.{user['id']}",
+                })
+            except SupabaseError as e:
+                return _error(str(e), e.status_code)
+
+            role = (profile or {}).get('role') or 'student'
+            if roles and role not in roles:
+                return _error("You do not have permission to do this", 403)
+
+            g.user = user
+            g.role = role
+            return view(*args, **kwargs)
+        return wrapper
+    return decorator
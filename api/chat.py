@@ -0,0 +1,142 @@
+from flask import g, jsonify, request
+from datetime import datetime, timezone
+from . import app
+from .auth import require_role
+from .chat_backends import ChatBackendError, cited_pages, get_chat_backend
+from .retrieval import retrieve, split_passages
+from .supabase_client import SupabaseClient, SupabaseError
+
+MAX_MESSAGE_LENGTH = 2000
+# Earlier messages sent to the backend for follow-up questions
+HISTORY_LENGTH = 10
+
+
+def _get_or_create_conversation(supabase, user_id, slide_id):
+    match = {
+        'select': 'id',
+        'user_id': f'eq.{user_id}',
+        'slide_id': f'eq.{slide_id}',
+    }
+    conversation = supabase.select_one('chat_conversations', match)
+    if conversation:
+        return conversation
+
+    try:
+        return supabase.insert('chat_conversations', {
+            "user_id": user_id,
+            "slide_id": slide_id,
+        })[0]
+    except SupabaseError as e:
+        # Another request created it first
+        if e.status_code != 409:
+            raise
+        return supabase.select_one('chat_conversations', match)
+
+
+@app.route('/api/chat', methods=['POST'])
+@require_role()
+def chat():
+    """Answer a question about a slide from its extracted text, citing pages"""
+    try:
+        data = request.get_json() or {}
+        content_id = data.get('contentId')
+        message = (data.get('message') or '').strip()
+
+        if not content_id:
+            return jsonify({
+                "status": "error",
+                "message": "Content ID is required"
+            }), 400
+
+        if not message:
+            return jsonify({
+                "status": "error",
+                "message": "Message is required"
+            }), 400
+
+        if len(message) > MAX_MESSAGE_LENGTH:
+            return jsonify({
+                "status": "error",
+                "message": f"Messages can be at most {MAX_MESSAGE_LENGTH} characters"
+            }), 400
+
+        supabase = SupabaseClient()
+        slide = supabase.select_one('slides', {
+            'select': 'id',
+            'id': f'eq.{content_id}',
+        })
+
+        if not slide:
+            return jsonify({
+                "status": "error",
+                "message": "Content not found"
+            }), 404
+
+        pages = supabase.select('slide_pages', {
+            'select': 'page_number,content',
+            'slide_id': f"eq.{slide['id']}",
+            'order': 'page_number',
+        })
+
+        if not pages:
+            return jsonify({
+                "status": "error",
+                "message": "No text has been extracted from this slide yet, so it can't be discussed"
+            }), 422
+
+        conversation = _get_or_create_conversation(supabase, g.user['id'], slide['id'])
+        history = supabase.select('chat_messages', {
+            'select': 'role,content',
+            'conversation_id': f"eq.{conversation['id']}",
+            'order': 'created_at.desc',
+            'limit': HISTORY_LENGTH,
+        })[::-1]
+
+        passages = retrieve(
+            split_passages((page['page_number'], page['content']) for page in pages),
+            message,
+        )
+        answer = get_chat_backend().answer(message, passages, history)
+
+        # Cite what the answer refers to, or everything it was given if it cites nothing
+        pages_cited = cited_pages(answer)
+        cited = [p for p in passages if p.page_number in pages_cited] or passages
+        citations = list({p.page_number: p.to_citation() for p in cited}.values())
+
+        user_message, assistant_message = supabase.insert('chat_messages', [
+            {
+                "conversation_id": conversation['id'],
+                "role": "user",
+                "content": message,
+            },
+            {
+                "conversation_id": conversation['id'],
+                "role": "assistant",
+                "content": answer,
+                "citations": citations,
+            },
+        ])
+        supabase.update('chat_conversations', {'id': f"eq.{conversation['id']}"}, {
+            "updated_at": datetime.now(timezone.utc).isoformat(),
+        })
+
+        return jsonify({
+            "status": "success",
+            "userMessage": user_message,
+            "reply": assistant_message
+        })
+    except ChatBackendError as e:
+        return jsonify({
+            "status": "error",
+            "message": str(e)
+        }), 502
+    except SupabaseError as e:
+        return jsonify({
+            "status": "error",
+            "message": str(e)
+        }), e.status_code
+    except Exception as e:
+        return jsonify({
+            "status": "error",
+            "message": str(e)
+        }), 500
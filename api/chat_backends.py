@@ -0,0 +1,128 @@
+import os
+import re
+import requests
+from abc import ABC, abstractmethod
+from .retrieval import tokenize
+
+CITATION_PATTERN = re.compile(r'\[p\.\s*(\d+)\]')
+
+# Kept under the API function's maxDuration (vercel.json), so a slow model
+# returns an error instead of the function timing out
+CHAT_TIMEOUT = int(os.environ.get('CHAT_TIMEOUT_SECONDS', 45))
+
+NO_ANSWER = "I couldn't find anything about that in these slides. Try asking with words the slides use."
+
+
+class ChatBackendError(Exception):
+    pass
+
+
+class ChatBackend(ABC):
+    """Answers a question about a slide deck from passages retrieved from its text"""
+
+    @abstractmethod
+    def answer(self, question, passages, history):
+        """
+        Return the answer text. `passages` are the best matching Passage
+        instances, best first; `history` is the earlier conversation as
+        dicts with 'role' ('user' or 'assistant') and 'content'. Answers
+        cite the pages they draw on as [p. N].
+        """
+
+
+class LocalChatBackend(ChatBackend):
+    """
+    Deterministic extractive backend that needs no network or model: it answers
+    with the passage sentences that best match the question. The same question
+    and passages always produce the same answer, which makes it suitable for
+    tests and for running offline.
+    """
+
+    def __init__(self, max_sentences=3):
+        self.max_sentences = max_sentences
+
+    def answer(self, question, passages, history):
+        if not passages:
+            return NO_ANSWER
+
+        terms = set(tokenize(question))
+        candidates = []
+        for rank, passage in enumerate(passages):
+            for sentence in re.split(r'(?<=[.!?])\s+', passage.text):
+                overlap = len(terms & set(tokenize(sentence)))
+                if overlap:
+                    candidates.append((overlap, rank, sentence.strip(), passage.page_number))
+
+        if not candidates:
+            return NO_ANSWER
+
+        best = sorted(candidates, key=lambda c: (-c[0], c[1]))[:self.max_sentences]
+        # Read the chosen sentences in deck order
+        best.sort(key=lambda c: (c[3], c[1]))
+        return "From the slides: " + ' '.join(
+            f"{sentence} [p. {page_number}]" for _, _, sentence, page_number in best
+        )
+
+
+class OpenAIChatBackend(ChatBackend):
+    """
+    Any OpenAI-compatible chat completions API, configured with CHAT_API_URL,
+    CHAT_API_KEY and CHAT_MODEL.
+    """
+
+    def __init__(self):
+        self.url = os.environ.get('CHAT_API_URL', 'https://api.openai.com/v1').rstrip('/')
+        self.api_key = os.environ.get('CHAT_API_KEY', '')
+        self.model = os.environ.get('CHAT_MODEL', 'gpt-4o-mini')
+
+        if not self.api_key:
+            raise ChatBackendError("The chat model is not configured. Set CHAT_API_KEY.")
+
+    def answer(self, question, passages, history):
+        if not passages:
+            return NO_ANSWER
+
+        context = '\n\n'.join(f"[p. {p.page_number}] {p.text}" for p in passages)
+        messages = [
+            {
+                "role": "system",
+                "content": (
+                    "You help a student understand a slide deck. Answer only from the "
+                    "excerpts below. Cite the page of every fact as [p. N]. If the "
+                    "excerpts don't answer the question, say so.\n\n" + context
+                ),
+            },
+            *({"role": m['role'], "content": m['content']} for m in history),
+            {"role": "user", "content": question},
+        ]
+
+        try:
+            response = requests.post(
+                f"{self.url}/chat/completions",
+                headers={"Authorization": f"Bearer {self.api_key}"},
+                json={"model": self.model, "messages": messages, "temperature": 0.2},
+                timeout=CHAT_TIMEOUT,
+            )
+            response.raise_for_status()
+            return response.json()['choices'][0]['message']['content'].strip()
+        except (requests.RequestException, KeyError, IndexError, ValueError) as e:
+            raise ChatBackendError(f"The chat model is unavailable: {e}")
+
+
+def cited_pages(answer):
+    """Page numbers an answer cites as [p. N], in order of first mention"""
+    return list(dict.fromkeys(int(page) for page in CITATION_PATTERN.findall(answer)))
+
+
+BACKENDS = {
+    'local': LocalChatBackend,
+    'openai': OpenAIChatBackend,
+}
+
+
+def get_chat_backend(name=None):
+    """Look up the configured backend (CHAT_BACKEND env var, default 'local')"""
+    name = name or os.environ.get('CHAT_BACKEND', 'local')
+    if name not in BACKENDS:
+        raise ValueError(f"Unknown chat backend: {name}")
+    return BACKENDS[name]()
@@ -0,0 +1,257 @@
+from datetime import datetime, timezone
+from flask import g, jsonify, request
+from . import app
+from .auth import AUTHOR_ROLES, require_role
+from .conversion import (
+    ConversionError,
+    conversion_available,
+    convert_to_pdf,
+    needs_conversion,
+    render_thumbnails,
+)
+from .extraction import extract_pdf_pages
+from .supabase_client import SupabaseClient, SupabaseError
+
+# How many slides one call to /api/content/index-pages indexes, so each call
+# finishes well within the function time limit
+INDEX_BATCH_SIZE = 5
+
+
+def _thumbnail_path(slide_id, page):
+    return f"thumbnails/{slide_id}/page-{page}.png"
+
+
+def _mark_indexed(supabase, slide_id):
+    """Record that the slide's pages were indexed, even if they had no text"""
+    supabase.update('slides', {'id': f'eq.{slide_id}'}, {
+        "pages_indexed_at": datetime.now(timezone.utc).isoformat(),
+    })
+
+
+def _index_pages(supabase, slide_id, pdf_bytes):
+    """
+    Store the text of each page for full-text search (public.search_slides).
+    Best effort: a PDF without extractable text can still be viewed.
+    """
+    try:
+        pages = extract_pdf_pages(pdf_bytes)
+    except Exception as e:
+        print(f"Warning: Could not extract text from slide {slide_id}: {e}")
+        _mark_indexed(supabase, slide_id)
+        return
+
+    supabase.delete('slide_pages', {'slide_id': f'eq.{slide_id}'})
+    rows = [
+        {"slide_id": slide_id, "page_number": index + 1, "content": text}
+        for index, text in enumerate(pages)
+        if text
+    ]
+    if rows:
+        supabase.insert('slide_pages', rows)
+    _mark_indexed(supabase, slide_id)
+
+
+def _process_pdf(supabase, slide):
+    """Render a first-page thumbnail for a PDF and index its text"""
+    pdf_bytes = supabase.download('content', slide['file_path'])
+    _index_pages(supabase, slide['id'], pdf_bytes)
+    thumbnails = render_thumbnails(pdf_bytes, max_pages=1)
+    if not thumbnails:
+        raise ConversionError("The PDF has no pages")
+
+    path = _thumbnail_path(slide['id'], 1)
+    supabase.upload('content', path, thumbnails[0], 'image/png')
+
+    return {"thumbnail_path": path}
+
+
+def _convert_document(supabase, slide):
+    """
+    Convert an office document to a PDF preview plus one thumbnail per page,
+    and index its text. The original is left untouched so it can still be downloaded.
+    """
+    original = supabase.download('content', slide['file_path'])
+    pdf_bytes = convert_to_pdf(original, slide['file_type'])
+    _index_pages(supabase, slide['id'], pdf_bytes)
+    thumbnails = render_thumbnails(pdf_bytes)
+
+    preview_path = f"previews/{slide['id']}.pdf"
+    supabase.upload('content', preview_path, pdf_bytes, 'application/pdf')
+
+    thumbnail_paths = []
+    for index, image in enumerate(thumbnails):
+        path = _thumbnail_path(slide['id'], index + 1)
+        supabase.upload('content', path, image, 'image/png')
+        thumbnail_paths.append(path)
+
+    # Reprocessing can leave fewer pages than before
+    stale = [path for path in slide.get('page_thumbnails') or [] if path not in thumbnail_paths]
+    if stale:
+        supabase.remove('content', stale)
+
+    return {
+        "preview_path": preview_path,
+        "preview_url": supabase.public_url('content', preview_path),
+        "page_count": len(thumbnail_paths),
+        "page_thumbnails": thumbnail_paths,
+        "thumbnail_path": thumbnail_paths[0] if thumbnail_paths else None,
+        "conversion_status": "ready",
+        "conversion_error": None,
+    }
+
+
+def convert_slide(supabase, slide):
+    """
+    Convert an office document slide, recording its progress in conversion_status.
+    Returns the updated slide. A failure is recorded on the slide, then re-raised.
+    """
+    match = {'id': f"eq.{slide['id']}"}
+    # updated_at tells the worker when a conversion started (api/worker.py)
+    supabase.update('slides', match, {
+        "conversion_status": "processing",
+        "conversion_error": None,
+        "updated_at": datetime.now(timezone.utc).isoformat(),
+    })
+
+    try:
+        values = _convert_document(supabase, slide)
+    except (ConversionError, SupabaseError) as e:
+        supabase.update('slides', match, {
+            "conversion_status": "failed",
+            "conversion_error": str(e),
+        })
+        raise
+
+    return supabase.update('slides', match, values)[0]
+
+
+@app.route('/api/content/process', methods=['POST'])
+@require_role(*AUTHOR_ROLES)
+def process_content():
+    """
+    Prepare uploaded content for viewing and search: a thumbnail for PDFs,
+    a converted PDF preview with page thumbnails for office documents, and
+    the text of every page for both. Where LibreOffice isn't installed, as on
+    Vercel, office documents are left pending for the conversion worker
+    (python -m api.worker).
+    """
+    try:
+        data = request.get_json() or {}
+        content_id = data.get('contentId')
+
+        if not content_id:
+            return jsonify({
+                "status": "error",
+                "message": "Content ID is required"
+            }), 400
+
+        supabase = SupabaseClient()
+        slide = supabase.select_one('slides', {
+            'select': 'id,file_path,file_type,uploaded_by,page_thumbnails',
+            'id': f'eq.{content_id}',
+        })
+
+        if not slide:
+            return jsonify({
+                "status": "error",
+                "message": "Content not found"
+            }), 404
+
+        # Same rule as the slides update policy
+        if slide['uploaded_by'] != g.user['id'] and g.role != 'admin':
+            return jsonify({
+                "status": "error",
+                "message": "Only the uploader or an admin can process this content"
+            }), 403
+
+        is_pdf = slide['file_type'] == 'application/pdf'
+        if not is_pdf and not needs_conversion(slide['file_type']):
+            return jsonify({
+                "status": "error",
+                "message": "Only PDF, PowerPoint and Word content can be processed"
+            }), 400
+
+        match = {'id': f"eq.{slide['id']}"}
+        message = "Content processed successfully"
+
+        try:
+            if is_pdf:
+                # A PDF without a thumbnail is still viewable, so no failure is recorded
+                updated = supabase.update('slides', match, _process_pdf(supabase, slide))[0]
+            elif conversion_available():
+                updated = convert_slide(supabase, slide)
+            else:
+                updated = supabase.update('slides', match, {
+                    "conversion_status": "pending",
+                    "conversion_error": None,
+                })[0]
+                message = "Content queued for conversion"
+        except ConversionError as e:
+            return jsonify({
+                "status": "error",
+                "message": str(e)
+            }), 422
+
+        return jsonify({
+            "status": "success",
+            "message": message,
+            "content": updated
+        })
+    except SupabaseError as e:
+        return jsonify({
+            "status": "error",
+            "message": str(e)
+        }), e.status_code
+    except Exception as e:
+        return jsonify({
+            "status": "error",
+            "message": str(e)
+        }), 500
+
+
+@app.route('/api/content/index-pages', methods=['POST'])
+@require_role('admin')
+def index_pages():
+    """
+    Index the page text of slides that never were, such as those uploaded
+    before search existed, a batch at a time. Call again while `more` is true.
+    Office documents are indexed when they are converted.
+    """
+    try:
+        supabase = SupabaseClient()
+        slides = supabase.select('slides', {
+            'select': 'id,file_path,file_type,preview_path',
+            'pages_indexed_at': 'is.null',
+            'or': '(file_type.eq.application/pdf,preview_path.not.is.null)',
+            'order': 'created_at.asc',
+            'limit': INDEX_BATCH_SIZE + 1,
+        })
+        batch = slides[:INDEX_BATCH_SIZE]
+
+        for slide in batch:
+            pdf_path = (slide['file_path'] if slide['file_type'] == 'application/pdf'
+                        else slide['preview_path'])
+            try:
+                pdf_bytes = supabase.download('content', pdf_path)
+            except SupabaseError as e:
+                # Skipped rather than retried forever; processing the slide indexes it again
+                print(f"Warning: Could not download slide {slide['id']}: {e}")
+                _mark_indexed(supabase, slide['id'])
+                continue
+            _index_pages(supabase, slide['id'], pdf_bytes)
+
+        return jsonify({
+            "status": "success",
+            "indexed": len(batch),
+            "more": len(slides) > INDEX_BATCH_SIZE,
+        })
+    except SupabaseError as e:
+        return jsonify({
+            "status": "error",
+            "message": str(e)
+        }), e.status_code
+    except Exception as e:
+        return jsonify({
+            "status": "error",
+            "message": str(e)
+        }), 500
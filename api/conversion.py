@@ -0,0 +1,104 @@
+import os
+import shutil
+import subprocess
+import tempfile
+import fitz  # PyMuPDF
+
+# Office formats that are converted to PDF for viewing, by MIME type.
+# Keep in sync with lib/file-types.ts.
+CONVERTIBLE_TYPES = {
+    'application/vnd.openxmlformats-officedocument.presentationml.presentation': 'pptx',
+    'application/vnd.ms-powerpoint': 'ppt',
+    'application/vnd.oasis.opendocument.presentation': 'odp',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+    'application/msword': 'doc',
+    'application/vnd.oasis.opendocument.text': 'odt',
+}
+
+CONVERSION_TIMEOUT = int(os.environ.get('CONVERSION_TIMEOUT_SECONDS', 180))
+THUMBNAIL_WIDTH = 480
+
+
+class ConversionError(Exception):
+    pass
+
+
+def needs_conversion(file_type):
+    return file_type in CONVERTIBLE_TYPES
+
+
+def _soffice_path():
+    path = (os.environ.get('SOFFICE_PATH') or shutil.which('soffice')
+            or shutil.which('libreoffice'))
+    if not path:
+        raise ConversionError(
+            "LibreOffice is not installed on the API server. Install it or set SOFFICE_PATH."
+        )
+    return path
+
+
+def conversion_available():
+    """Whether LibreOffice is installed here, so documents can be converted in this process"""
+    try:
+        _soffice_path()
+        return True
+    except ConversionError:
+        return False
+
+
+def convert_to_pdf(data, file_type):
+    """Convert an office document to PDF with headless LibreOffice and return the PDF bytes"""
+    extension = CONVERTIBLE_TYPES.get(file_type)
+    if not extension:
+        raise ConversionError(f"Files of type {file_type} can't be converted")
+
+    with tempfile.TemporaryDirectory() as workdir:
+        source = os.path.join(workdir, f"source.{extension}")
+        with open(source, 'wb') as f:
+            f.write(data)
+
+        # A private profile lets several conversions run at once without
+        # contending for LibreOffice's user installation lock
+        command = [
+            _soffice_path(),
+            f"-env:UserInstallation=file://{os.path.join(workdir, 'profile')}",
+            '--headless',
+            '--norestore',
+            '--convert-to', 'pdf',
+            '--outdir', workdir,
+            source,
+        ]
+
+        try:
+            subprocess.run(command, check=True, capture_output=True, timeout=CONVERSION_TIMEOUT)
+        except subprocess.TimeoutExpired:
+            raise ConversionError("Converting the document took too long")
+        except subprocess.CalledProcessError as e:
+            details = e.stderr.decode(errors='ignore').strip()
+            raise ConversionError(f"The document could not be converted{': ' + details if details else ''}")
+
+        output = os.path.join(workdir, 'source.pdf')
+        if not os.path.exists(output):
+            raise ConversionError("The document could not be converted")
+
+        with open(output, 'rb') as f:
+            return f.read()
+
+
+def render_thumbnails(pdf_bytes, width=THUMBNAIL_WIDTH, max_pages=None):
+    """Render the pages of a PDF, or the first max_pages, to PNGs of the given width"""
+    try:
+        document = fitz.open(stream=pdf_bytes, filetype='pdf')
+    except Exception as e:
+        raise ConversionError(f"The PDF could not be opened: {e}")
+
+    thumbnails = []
+    with document:
+        for index, page in enumerate(document):
+            if max_pages is not None and index >= max_pages:
+                break
+            zoom = width / page.rect.width
+            pixmap = page.get_pixmap(matrix=fitz.Matrix(zoom, zoom), alpha=False)
+            thumbnails.append(pixmap.tobytes('png'))
+
+    return thumbnails
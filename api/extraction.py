@@ -0,0 +1,26 @@
+import io
+import re
+from pypdf import PdfReader
+
+
+def extract_pdf_pages(data):
+    """Extract the text of each page of a PDF, in page order"""
+    reader = PdfReader(io.BytesIO(data))
+    pages = []
+
+    for page in reader.pages:
+        try:
+            text = page.extract_text() or ''
+        except Exception:
+            # A single malformed page shouldn't prevent using the rest of the deck
+            text = ''
+        pages.append(normalize_text(text))
+
+    return pages
+
+
+def normalize_text(text):
+    """Join hyphenated line breaks and collapse whitespace"""
+    text = re.sub(r'-\n(\w)', r'\1', text)
+    text = re.sub(r'\s+', ' ', text)
+    return text.strip()
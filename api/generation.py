@@ -0,0 +1,163 @@
+import hashlib
+import os
+import re
+from abc import ABC, abstractmethod
+from collections import Counter
+from dataclasses import dataclass
+
+OPTION_COUNT = 4
+
+STOPWORDS = {
+    'about', 'above', 'after', 'again', 'against', 'because', 'before', 'being',
+    'below', 'between', 'could', 'does', 'doing', 'during', 'each', 'example',
+    'first', 'from', 'further', 'have', 'having', 'here', 'into', 'itself',
+    'more', 'most', 'other', 'should', 'since', 'some', 'such', 'than', 'that',
+    'their', 'them', 'then', 'there', 'these', 'they', 'this', 'those',
+    'through', 'under', 'until', 'using', 'very', 'were', 'what', 'when',
+    'where', 'which', 'while', 'will', 'with', 'would', 'your',
+}
+
+
+@dataclass
+class GeneratedQuestion:
+    question_text: str
+    options: list
+    correct_index: int
+    explanation: str = None
+
+    def to_row(self, slide_id, course_id, created_by):
+        """The question as a row of the question bank, owned by created_by"""
+        return {
+            "type": "multiple_choice",
+            "question_text": self.question_text,
+            "content": {"options": self.options},
+            "answer_key": {"correct": self.correct_index},
+            "explanation": self.explanation,
+            "slide_id": slide_id,
+            "course_id": course_id,
+            "created_by": created_by,
+        }
+
+
+class QuestionGenerator(ABC):
+    """Turns extracted slide text into four-option multiple choice questions"""
+
+    @abstractmethod
+    def generate(self, text, count):
+        """Return up to `count` GeneratedQuestion instances for the given text"""
+
+
+class LocalQuestionGenerator(QuestionGenerator):
+    """
+    Deterministic fill-in-the-blank generator that needs no network or model.
+    The same text always produces the same questions, which makes it suitable
+    for tests and for running the pipeline offline.
+    """
+
+    def __init__(self, min_words=6, max_words=40):
+        self.min_words = min_words
+        self.max_words = max_words
+
+    def generate(self, text, count):
+        terms = self._key_terms(text)
+        if len(terms) < OPTION_COUNT:
+            return []
+
+        questions = []
+        used_terms = set()
+
+        for sentence in self._ranked_sentences(text, terms):
+            if len(questions) >= count:
+                break
+
+            answer = self._pick_answer(sentence, terms, used_terms)
+            if not answer:
+                continue
+
+            distractors = self._distractors(answer, terms)
+            if len(distractors) < OPTION_COUNT - 1:
+                continue
+
+            pattern = re.compile(rf'\b{re.escape(answer)}\b', re.IGNORECASE)
+            blanked = pattern.sub('_____', sentence)
+
+            # Place the answer at a position derived from the sentence so the
+            # correct letter varies between questions but is stable between runs
+            correct_index = _stable_hash(sentence) % OPTION_COUNT
+            options = list(distractors)
+            options.insert(correct_index, answer)
+
+            questions.append(GeneratedQuestion(
+                question_text=f"Fill in the blank: {blanked}",
+                options=options,
+                correct_index=correct_index,
+                explanation=f"From the slides: \"{sentence}\"",
+            ))
+            used_terms.add(answer.lower())
+
+        return questions
+
+    def _sentences(self, text):
+        for sentence in re.split(r'(?<=[.!?])\s+', text):
+            sentence = sentence.strip()
+            word_count = len(sentence.split())
+            if self.min_words <= word_count <= self.max_words:
+                yield sentence
+
+    def _key_terms(self, text):
+        words = re.findall(r"[A-Za-z][A-Za-z\-]{4,}", text)
+        counts = Counter(word.lower() for word in words if word.lower() not in STOPWORDS)
+
+        # Keep the most common spelling of each term so options read naturally
+        spellings = {}
+        for word in words:
+            spellings.setdefault(word.lower(), Counter())[word] += 1
+
+        return {
+            term: (count, spellings[term].most_common(1)[0][0])
+            for term, count in counts.items()
+        }
+
+    def _ranked_sentences(self, text, terms):
+        def score(sentence):
+            words = {w.lower() for w in re.findall(r"[A-Za-z][A-Za-z\-]{4,}", sentence)}
+            return sum(terms[w][0] for w in words if w in terms)
+
+        sentences = list(dict.fromkeys(self._sentences(text)))
+        return sorted(sentences, key=lambda s: (-score(s), s))
+
+    def _pick_answer(self, sentence, terms, used_terms):
+        candidates = [
+            w for w in re.findall(r"[A-Za-z][A-Za-z\-]{4,}", sentence)
+            if w.lower() in terms and w.lower() not in used_terms
+        ]
+        if not candidates:
+            return None
+        best = max(candidates, key=lambda w: (terms[w.lower()][0], len(w), w))
+        return terms[best.lower()][1]
+
+    def _distractors(self, answer, terms):
+        others = [
+            spelling for term, (_, spelling) in terms.items()
+            if term != answer.lower()
+        ]
+        # Prefer terms of similar length so the answer doesn't stand out
+        others.sort(key=lambda w: (abs(len(w) - len(answer)), w.lower()))
+        return others[:OPTION_COUNT - 1]
+
+
+def _stable_hash(value):
+    return int(hashlib.md5(value.encode('utf-8')).hexdigest(), 16)
+
+
+GENERATORS = {
+    'local': LocalQuestionGenerator,
+}
+
+
+def get_question_generator(name=None):
+    """Look up the configured generator (QUESTION_GENERATOR env var, default 'local')"""
+    name = name or os.environ.get('QUESTION_GENERATOR', 'local')
+    if name not in GENERATORS:
+        raise ValueError(f"Unknown question generator: {name}")
+    return GENERATORS[name]()
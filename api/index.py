@@ -9,29 +9,14 @@ def health_check():
         "message": "API is running"
     })
 
-# Add your existing API endpoints here
-# Example endpoint:
-@app.route('/api/chat', methods=['POST'])
-def chat():
-    try:
-        data = request.get_json()
-        # Add your chat logic here
-        return jsonify({
-            "status": "success",
-            "message": "Message received",
-            "data": data
-        })
-    except Exception as e:
-        return jsonify({
-            "status": "error",
-            "message": str(e)
-        }), 500
-
 # Import all API modules to register their routes
 try:
     # These imports are just to register the routes
     from . import quizzes
     from . import slides
+    from . import content
+    from . import chat
+    from . import admin
 except ImportError as e:
     print(f"Warning: Could not import some API modules: {e}")
 
@@ -0,0 +1,213 @@
+import argparse
+import hashlib
+import os
+import re
+import sys
+from dataclasses import dataclass
+from datetime import datetime, timezone
+
+# Applies supabase/migrations to a database in version order and records each
+# one in public.schema_migrations, so the admin page can report what is pending.
+#
+#   DATABASE_URL=postgresql://... python -m api.migrations            apply pending
+#   DATABASE_URL=postgresql://... python -m api.migrations --status   list only
+#   DATABASE_URL=postgresql://... python -m api.migrations --baseline record without running
+#
+# --baseline is for databases that were set up by pasting migrations into the
+# SQL editor: it marks the migrations as applied without running them again.
+
+MIGRATIONS_DIR = os.path.join(
+    os.path.dirname(os.path.dirname(os.path.abspath(__file__))), 'supabase', 'migrations'
+)
+MIGRATION_FILE = re.compile(r'^(\d+)_(\w+)\.sql$')
+
+# Same as in 20240517_add_migration_runner.sql, which can't run before the table exists
+BOOTSTRAP_SQL = """
+CREATE TABLE IF NOT EXISTS public.schema_migrations (
+    version TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    checksum TEXT NOT NULL,
+    applied_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.schema_migrations ENABLE ROW LEVEL SECURITY;
+"""
+
+
+class MigrationError(Exception):
+    pass
+
+
+@dataclass
+class Migration:
+    version: str
+    name: str
+    path: str
+
+    def read(self):
+        with open(self.path, encoding='utf-8') as f:
+            return f.read()
+
+    @property
+    def checksum(self):
+        return hashlib.sha256(self.read().encode('utf-8')).hexdigest()
+
+
+def list_migrations(directory=MIGRATIONS_DIR):
+    """Every migration file in the directory, oldest first"""
+    migrations = []
+    for filename in os.listdir(directory):
+        match = MIGRATION_FILE.match(filename)
+        if match:
+            migrations.append(Migration(match.group(1), match.group(2),
+                                        os.path.join(directory, filename)))
+
+    migrations.sort(key=lambda migration: migration.version)
+    for previous, current in zip(migrations, migrations[1:]):
+        if previous.version == current.version:
+            raise MigrationError(
+                f"Migrations {previous.name} and {current.name} share version {current.version}"
+            )
+    return migrations
+
+
+def migration_status(applied, migrations=None):
+    """
+    Compare migration files with rows of schema_migrations. Each file is
+    'applied', 'pending', or 'modified' when it changed after being applied.
+    Applied versions without a file are reported as 'missing'.
+    """
+    migrations = list_migrations() if migrations is None else migrations
+    applied = {row['version']: row for row in applied}
+
+    status = []
+    for migration in migrations:
+        row = applied.pop(migration.version, None)
+        if not row:
+            state = 'pending'
+        elif row['checksum'] != migration.checksum:
+            state = 'modified'
+        else:
+            state = 'applied'
+        status.append({
+            "version": migration.version,
+            "name": migration.name,
+            "status": state,
+            "applied_at": row['applied_at'] if row else None,
+        })
+
+    for row in sorted(applied.values(), key=lambda row: row['version']):
+        status.append({
+            "version": row['version'],
+            "name": row['name'],
+            "status": 'missing',
+            "applied_at": row['applied_at'],
+        })
+
+    return status
+
+
+def _connect(database_url):
+    try:
+        import psycopg2
+    except ImportError:
+        raise MigrationError("psycopg2 is not installed. Run pip install -r requirements.txt.")
+
+    if not database_url:
+        raise MigrationError(
+            "Set DATABASE_URL to the database connection string "
+            "(Supabase dashboard > Project Settings > Database)."
+        )
+    return psycopg2.connect(database_url)
+
+
+def _applied_rows(connection):
+    with connection, connection.cursor() as cursor:
+        cursor.execute(BOOTSTRAP_SQL)
+        cursor.execute('SELECT version, name, checksum, applied_at FROM public.schema_migrations')
+        return [
+            {"version": version, "name": name, "checksum": checksum,
+             "applied_at": applied_at.isoformat()}
+            for version, name, checksum, applied_at in cursor.fetchall()
+        ]
+
+
+def apply_migrations(database_url, baseline=False, target=None, log=print):
+    """
+    Apply pending migrations up to and including target (default: all), each in
+    its own transaction together with its schema_migrations row. Stops at the
+    first failure, leaving that migration and later ones pending.
+    """
+    connection = _connect(database_url)
+    try:
+        status = migration_status(_applied_rows(connection))
+        modified = [m for m in status if m['status'] == 'modified']
+        if modified:
+            raise MigrationError(
+                "Applied migrations have changed since they ran: "
+                + ', '.join(f"{m['version']}_{m['name']}" for m in modified)
+                + ". Add a new migration instead of editing an applied one."
+            )
+
+        pending = {m['version'] for m in status if m['status'] == 'pending'}
+        applied = 0
+        for migration in list_migrations():
+            if target and migration.version > target:
+                break
+            if migration.version not in pending:
+                continue
+
+            log(f"{'Recording' if baseline else 'Applying'} {migration.version}_{migration.name}")
+            try:
+                with connection, connection.cursor() as cursor:
+                    if not baseline:
+                        cursor.execute(migration.read())
+                    cursor.execute(
+                        'INSERT INTO public.schema_migrations (version, name, checksum, applied_at) '
+                        'VALUES (%s, %s, %s, %s)',
+                        (migration.version, migration.name, migration.checksum,
+                         datetime.now(timezone.utc)),
+                    )
+            except Exception as e:
+                raise MigrationError(f"{migration.version}_{migration.name} failed: {e}")
+            applied += 1
+
+        return applied
+    finally:
+        connection.close()
+
+
+def main(argv=None):
+    parser = argparse.ArgumentParser(prog='python -m api.migrations',
+                                     description="Apply supabase/migrations to a database")
+    parser.add_argument('--status', action='store_true',
+                        help="list migrations and whether they have been applied")
+    parser.add_argument('--baseline', action='store_true',
+                        help="record pending migrations as applied without running them")
+    parser.add_argument('--to', metavar='VERSION',
+                        help="stop after this version")
+    args = parser.parse_args(argv)
+    database_url = os.environ.get('DATABASE_URL')
+
+    try:
+        if args.status:
+            connection = _connect(database_url)
+            try:
+                status = migration_status(_applied_rows(connection))
+            finally:
+                connection.close()
+            for m in status:
+                print(f"{m['status']:<9} {m['version']}_{m['name']}")
+            return 0
+
+        applied = apply_migrations(database_url, baseline=args.baseline, target=args.to)
+        print(f"{applied} migration(s) {'recorded' if args.baseline else 'applied'}." if applied
+              else "The database is up to date.")
+        return 0
+    except MigrationError as e:
+        print(f"Error: {e}", file=sys.stderr)
+        return 1
+
+
+if __name__ == '__main__':
+    sys.exit(main())
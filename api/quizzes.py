@@ -1,155 +1,121 @@
-from flask import jsonify, request
+from flask import g, jsonify, request
 import os
 import json
 import requests
 from .index import app
-
-@app.route('/api/quizzes', methods=['GET'])
-def get_quizzes():
-    try:
-        # In a real implementation, you would fetch quizzes from your database
-        # For now, return mock data that matches your frontend expectations
-        quizzes = [
-            {
-                "id": "1",
-                "title": "Object-Oriented Programming Basics",
-                "description": "Test your knowledge of OOP fundamentals",
-                "time_limit": 15,
-                "question_count": 10,
-                "created_at": "2023-06-15T10:00:00Z"
-            },
-            {
-                "id": "2",
-                "title": "Python Data Structures",
-                "description": "Quiz on Python lists, dictionaries, and more",
-                "time_limit": 20,
-                "question_count": 15,
-                "created_at": "2023-06-10T14:30:00Z"
-            },
-            {
-                "id": "3",
-                "title": "Web Development Fundamentals",
-                "description": "HTML, CSS, and JavaScript basics",
-                "time_limit": 25,
-                "question_count": 20,
-                "created_at": "2023-06-05T09:15:00Z"
-            }
-        ]
-        
-        return jsonify(quizzes)
-    except Exception as e:
-        return jsonify({
-            "status": "error",
-            "message": str(e)
-        }), 500
-
-@app.route('/api/quizzes/<quiz_id>', methods=['GET'])
-def get_quiz(quiz_id):
-    try:
-        # In a real implementation, you would fetch the specific quiz from your database
-        # For now, return mock data
-        quiz = {
-            "id": quiz_id,
-            "title": "Object-Oriented Programming Basics" if quiz_id == "1" else "Python Quiz",
-            "description": "Test your knowledge of OOP fundamentals",
-            "time_limit": 15,
-            "question_count": 5,
-            "questions": [
-                {
-                    "id": "q1",
-                    "text": "What does OOP stand for?",
-                    "options": [
-                        "Object-Oriented Programming",
-                        "Outcome-Oriented Protocol",
-                        "Object-Oriented Protocol",
-                        "Outcome-Oriented Programming"
-                    ],
-                    "correct_option": 0
-                },
-                {
-                    "id": "q2",
-                    "text": "Which of the following is a pillar of OOP?",
-                    "options": [
-                        "Fragmentation",
-                        "Encapsulation",
-                        "Segregation",
-                        "Compilation"
-                    ],
-                    "correct_option": 1
-                },
-                {
-                    "id": "q3",
-                    "text": "What is inheritance in OOP?",
-                    "options": [
-                        "A way to create multiple instances of a class",
-                        "A mechanism to reuse code from one class in another",
-                        "A method to hide data from external access",
-                        "A technique to compile code faster"
-                    ],
-                    "correct_option": 1
-                },
-                {
-                    "id": "q4",
-                    "text": "What is polymorphism?",
-                    "options": [
-                        "The ability to create multiple classes",
-                        "The ability to create multiple objects",
-                        "The ability to take on multiple forms",
-                        "The ability to inherit from multiple classes"
-                    ],
-                    "correct_option": 2
-                },
-                {
-                    "id": "q5",
-                    "text": "Which of these is NOT an access modifier in most OOP languages?",
-                    "options": [
-                        "Public",
-                        "Private",
-                        "Protected",
-                        "Common"
-                    ],
-                    "correct_option": 3
-                }
-            ]
-        }
-        
-        return jsonify(quiz)
-    except Exception as e:
-        return jsonify({
-            "status": "error",
-            "message": str(e)
-        }), 500
+from .supabase_client import SupabaseClient, SupabaseError
+from .auth import AUTHOR_ROLES, require_role
+from .extraction import extract_pdf_pages
+from .generation import get_question_generator
 
 @app.route('/api/quizzes/generate', methods=['POST'])
+@require_role(*AUTHOR_ROLES)
 def generate_quiz():
     try:
-        data = request.get_json()
+        data = request.get_json() or {}
         content_id = data.get('contentId')
-        
+
         if not content_id:
             return jsonify({
                 "status": "error",
                 "message": "Content ID is required"
             }), 400
-            
-        # In a real implementation, you would generate a quiz based on the content
-        # For now, return a mock generated quiz
-        generated_quiz = {
-            "id": "gen-" + content_id,
-            "title": "Generated Quiz for Content " + content_id,
-            "description": "Quiz generated from your content",
-            "time_limit": 10,
-            "question_count": 5,
-            "created_at": "2023-07-01T12:00:00Z"
-        }
+
+        try:
+            question_count = int(data.get('questionCount', 5))
+            time_limit = int(data['timeLimit']) if data.get('timeLimit') else None
+        except (TypeError, ValueError):
+            return jsonify({
+                "status": "error",
+                "message": "Question count and time limit must be whole numbers"
+            }), 400
+
+        if not 1 <= question_count <= 50:
+            return jsonify({
+                "status": "error",
+                "message": "Question count must be between 1 and 50"
+            }), 400
+
+        if time_limit is not None and time_limit < 1:
+            return jsonify({
+                "status": "error",
+                "message": "The time limit must be at least one minute"
+            }), 400
+
+        supabase = SupabaseClient()
+        slide = supabase.select_one('slides', {
+            'select': 'id,title,file_path,file_type,preview_path,course_id',
+            'id': f'eq.{content_id}',
+        })
+
+        if not slide:
+            return jsonify({
+                "status": "error",
+                "message": "Content not found"
+            }), 404
+
+        # Office documents are read from their converted PDF preview
+        pdf_path = (slide['file_path'] if slide['file_type'] == 'application/pdf'
+                    else slide.get('preview_path'))
+
+        if not pdf_path:
+            return jsonify({
+                "status": "error",
+                "message": "Quizzes can only be generated from PDF content or converted documents"
+            }), 400
+
+        # Extract the slide text from the file in storage
+        pdf_bytes = supabase.download('content', pdf_path)
+        text = ' '.join(extract_pdf_pages(pdf_bytes))
+
+        generator = get_question_generator()
+        questions = generator.generate(text, question_count)
+
+        if not questions:
+            return jsonify({
+                "status": "error",
+                "message": "Not enough text could be extracted from this content to generate questions"
+            }), 422
+
+        quiz = supabase.insert('quizzes', {
+            "title": data.get('title') or f"Quiz: {slide['title']}",
+            "description": f"Generated from \"{slide['title']}\"",
+            "time_limit": time_limit or max(5, len(questions) * 2),
+            "status": "published",
+            "slide_id": slide['id'],
+            "course_id": slide['course_id'],
+        })[0]
+
+        rows = []
+        try:
+            # Generated questions go into the question bank like any other
+            rows = supabase.insert('questions', [
+                question.to_row(slide['id'], slide['course_id'], g.user['id'])
+                for question in questions
+            ])
+            supabase.insert('quiz_questions', [
+                {"quiz_id": quiz['id'], "question_id": row['id'], "order": index + 1}
+                for index, row in enumerate(rows)
+            ])
+        except SupabaseError:
+            # Don't leave an empty quiz, or questions it was meant to ask, behind
+            supabase.delete('quizzes', {'id': f"eq.{quiz['id']}"})
+            if rows:
+                supabase.delete('questions', {'id': f"in.({','.join(row['id'] for row in rows)})"})
+            raise
         
         return jsonify({
             "status": "success",
             "message": "Quiz generated successfully",
-            "quiz": generated_quiz
+            "quiz": quiz
         })
+    except SupabaseError as e:
+        return jsonify({
+            "status": "error",
+            "message": str(e)
+        }), e.status_code
     except Exception as e:
         return jsonify({
             "status": "error",
             "message": str(e)
-        }), 500 
\ No newline at end of file
+        }), 500
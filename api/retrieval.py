@@ -0,0 +1,87 @@
+import math
+import re
+from collections import Counter
+from dataclasses import dataclass
+from .generation import STOPWORDS
+
+PASSAGE_WORDS = 80
+
+
+@dataclass
+class Passage:
+    page_number: int
+    text: str
+
+    def to_citation(self, length=200):
+        excerpt = self.text if len(self.text) <= length else self.text[:length].rsplit(' ', 1)[0] + '...'
+        return {"page_number": self.page_number, "excerpt": excerpt}
+
+
+def _normalize(word):
+    # Fold simple plurals and third-person verbs so "happen" matches "happens"
+    if len(word) > 4 and word.endswith('s') and not word.endswith('ss'):
+        return word[:-1]
+    return word
+
+
+def tokenize(text):
+    return [
+        _normalize(word) for word in re.findall(r"[a-z0-9][a-z0-9\-]+", text.lower())
+        if word not in STOPWORDS
+    ]
+
+
+def split_passages(pages, max_words=PASSAGE_WORDS):
+    """
+    Split page texts (page_number, text) into passages of whole sentences
+    of up to about max_words words. Passages never span two pages, so each
+    can be cited by its page number.
+    """
+    passages = []
+
+    for page_number, text in pages:
+        current = []
+        for sentence in re.split(r'(?<=[.!?])\s+', text or ''):
+            sentence = sentence.strip()
+            if not sentence:
+                continue
+            if current and len(' '.join(current + [sentence]).split()) > max_words:
+                passages.append(Passage(page_number, ' '.join(current)))
+                current = []
+            current.append(sentence)
+        if current:
+            passages.append(Passage(page_number, ' '.join(current)))
+
+    return passages
+
+
+def retrieve(passages, question, limit=4, k1=1.5, b=0.75):
+    """Rank passages against a question with BM25 and return the best matches"""
+    terms = set(tokenize(question))
+    if not terms or not passages:
+        return []
+
+    documents = [Counter(tokenize(passage.text)) for passage in passages]
+    average_length = sum(sum(doc.values()) for doc in documents) / len(documents) or 1
+
+    def idf(term):
+        matching = sum(1 for doc in documents if term in doc)
+        return math.log(1 + (len(documents) - matching + 0.5) / (matching + 0.5))
+
+    weights = {term: idf(term) for term in terms}
+
+    def score(doc):
+        length = sum(doc.values())
+        total = 0.0
+        for term, weight in weights.items():
+            frequency = doc.get(term, 0)
+            if frequency:
+                total += weight * frequency * (k1 + 1) / (
+                    frequency + k1 * (1 - b + b * length / average_length)
+                )
+        return total
+
+    scored = [(score(doc), index) for index, doc in enumerate(documents)]
+    # Ties keep document order, so results are stable between runs
+    ranked = sorted((item for item in scored if item[0] > 0), key=lambda item: (-item[0], item[1]))
+    return [passages[index] for _, index in ranked[:limit]]
@@ -4,6 +4,7 @@ import json
 import requests
 from werkzeug.utils import secure_filename
 from . import app
+from .auth import AUTHOR_ROLES, require_role
 
 # Mock storage for uploaded files
 UPLOAD_FOLDER = '/tmp/uploads'
@@ -11,6 +12,7 @@ if not os.path.exists(UPLOAD_FOLDER):
     os.makedirs(UPLOAD_FOLDER)
 
 @app.route('/api/slides/upload', methods=['POST'])
+@require_role(*AUTHOR_ROLES)
 def upload_slide():
     try:
         # Check if file part exists
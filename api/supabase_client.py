@@ -0,0 +1,143 @@
+import os
+import requests
+
+# Server-side access to Supabase through its REST and Storage APIs.
+# Uses the service role key, so callers are responsible for checking
+# that the requesting user is allowed to perform the operation.
+
+
+class SupabaseError(Exception):
+    def __init__(self, message, status_code=500):
+        super().__init__(message)
+        self.status_code = status_code
+
+
+class SupabaseClient:
+    def __init__(self, url=None, service_key=None):
+        self.url = (url or os.environ.get('SUPABASE_URL')
+                    or os.environ.get('NEXT_PUBLIC_SUPABASE_URL', '')).rstrip('/')
+        self.service_key = service_key or os.environ.get('SUPABASE_SERVICE_ROLE_KEY', '')
+
+        if not self.url or not self.service_key:
+            raise SupabaseError(
+                "Supabase is not configured. Set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY."
+            )
+
+    def _headers(self, extra=None):
+        headers = {
+            "apikey": self.service_key,
+            "Authorization": f"Bearer {self.service_key}",
+        }
+        if extra:
+            headers.update(extra)
+        return headers
+
+    def _check(self, response):
+        if not response.ok:
+            try:
+                message = response.json().get('message') or response.text
+            except ValueError:
+                message = response.text
+            raise SupabaseError(message or f"Supabase request failed ({response.status_code})",
+                                response.status_code)
+        return response
+
+    def select(self, table, params=None):
+        """Run a PostgREST select, e.g. params={'id': 'eq.123', 'select': '*'}"""
+        response = requests.get(
+            f"{self.url}/rest/v1/{table}",
+            headers=self._headers(),
+            params=params or {},
+            timeout=10,
+        )
+        return self._check(response).json()
+
+    def select_one(self, table, params=None):
+        rows = self.select(table, {**(params or {}), 'limit': 1})
+        return rows[0] if rows else None
+
+    def insert(self, table, rows):
+        """Insert one or more rows and return them as stored"""
+        response = requests.post(
+            f"{self.url}/rest/v1/{table}",
+            headers=self._headers({
+                "Content-Type": "application/json",
+                "Prefer": "return=representation",
+            }),
+            json=rows,
+            timeout=10,
+        )
+        return self._check(response).json()
+
+    def update(self, table, params, values):
+        """Update the rows matching params, e.g. {'id': 'eq.123'}, and return them"""
+        response = requests.patch(
+            f"{self.url}/rest/v1/{table}",
+            headers=self._headers({
+                "Content-Type": "application/json",
+                "Prefer": "return=representation",
+            }),
+            params=params,
+            json=values,
+            timeout=10,
+        )
+        return self._check(response).json()
+
+    def delete(self, table, params):
+        response = requests.delete(
+            f"{self.url}/rest/v1/{table}",
+            headers=self._headers(),
+            params=params,
+            timeout=10,
+        )
+        self._check(response)
+
+    def download(self, bucket, path):
+        """Download an object from Supabase Storage as bytes"""
+        response = requests.get(
+            f"{self.url}/storage/v1/object/{bucket}/{path}",
+            headers=self._headers(),
+            timeout=30,
+        )
+        return self._check(response).content
+
+    def upload(self, bucket, path, data, content_type):
+        """Upload bytes to Supabase Storage, replacing any existing object at the path"""
+        response = requests.post(
+            f"{self.url}/storage/v1/object/{bucket}/{path}",
+            headers=self._headers({
+                "Content-Type": content_type,
+                "Cache-Control": "max-age=3600",
+                "x-upsert": "true",
+            }),
+            data=data,
+            timeout=60,
+        )
+        self._check(response)
+
+    def remove(self, bucket, paths):
+        """Delete objects from Supabase Storage"""
+        response = requests.delete(
+            f"{self.url}/storage/v1/object/{bucket}",
+            headers=self._headers({"Content-Type": "application/json"}),
+            json={"prefixes": paths},
+            timeout=10,
+        )
+        self._check(response)
+
+    def public_url(self, bucket, path):
+        return f"{self.url}/storage/v1/object/public/{bucket}/{path}"
+
+    def get_user(self, access_token):
+        """Resolve a user's access token (JWT) to their auth user, or None if it is invalid"""
+        response = requests.get(
+            f"{self.url}/auth/v1/user",
+            headers={
+                "apikey": self.service_key,
+                "Authorization": f"Bearer {access_token}",
+            },
+            timeout=10,
+        )
+        if response.status_code in (401, 403):
+            return None
+        return self._check(response).json()
@@ -0,0 +1,101 @@
+"""
+Tests for the local chat backend and passage retrieval. Run from the repository root with:
+
+    python -m unittest discover -s api/tests -t .
+"""
+import unittest
+
+from api.chat_backends import (
+    NO_ANSWER,
+    LocalChatBackend,
+    cited_pages,
+    get_chat_backend,
+)
+from api.retrieval import Passage, retrieve, split_passages
+
+PASSAGES = [
+    Passage(3, "Mitochondria produce energy for the cell. They have their own DNA."),
+    Passage(1, "The nucleus stores genetic information. Ribosomes build proteins."),
+    Passage(2, "Cell membranes control what enters the cell."),
+]
+
+
+class LocalChatBackendTest(unittest.TestCase):
+    def setUp(self):
+        self.backend = LocalChatBackend()
+
+    def test_has_no_answer_without_passages(self):
+        self.assertEqual(self.backend.answer("What do mitochondria do?", [], []), NO_ANSWER)
+
+    def test_has_no_answer_when_no_words_overlap(self):
+        self.assertEqual(self.backend.answer("Explain photosynthesis", PASSAGES, []), NO_ANSWER)
+
+    def test_answers_in_deck_order_with_citations(self):
+        answer = self.backend.answer("Which part of the cell stores DNA and energy?", PASSAGES, [])
+
+        self.assertTrue(answer.startswith("From the slides: "))
+        self.assertIn("Mitochondria produce energy for the cell. [p. 3]", answer)
+        self.assertIn("Cell membranes control what enters the cell. [p. 2]", answer)
+        self.assertLess(answer.index("[p. 2]"), answer.index("[p. 3]"))
+
+    def test_limits_the_number_of_sentences(self):
+        answer = LocalChatBackend(max_sentences=1).answer("cell energy", PASSAGES, [])
+        self.assertEqual(cited_pages(answer), [3])
+
+    def test_is_deterministic(self):
+        self.assertEqual(
+            self.backend.answer("cell proteins", PASSAGES, []),
+            LocalChatBackend().answer("cell proteins", PASSAGES, []),
+        )
+
+
+class CitedPagesTest(unittest.TestCase):
+    def test_keeps_first_mentions_in_order(self):
+        self.assertEqual(cited_pages("A [p. 4] B [p.2] C [p. 4] D [p. 1]"), [4, 2, 1])
+
+    def test_is_empty_without_citations(self):
+        self.assertEqual(cited_pages(NO_ANSWER), [])
+
+
+class GetChatBackendTest(unittest.TestCase):
+    def test_defaults_to_the_local_backend(self):
+        self.assertIsInstance(get_chat_backend('local'), LocalChatBackend)
+
+    def test_rejects_unknown_backends(self):
+        with self.assertRaises(ValueError):
+            get_chat_backend('missing')
+
+
+class RetrievalTest(unittest.TestCase):
+    def test_ranks_the_best_matching_passage_first(self):
+        passages = [
+            Passage(1, "The cell wall supports plant cells."),
+            Passage(2, "Mitochondria release energy. Mitochondria divide on their own."),
+            Passage(3, "Energy flows through food chains."),
+        ]
+
+        ranked = retrieve(passages, "How do mitochondria release energy?")
+        self.assertEqual([p.page_number for p in ranked], [2, 3])
+
+    def test_keeps_document_order_for_ties(self):
+        passages = [Passage(2, "Enzymes speed reactions."), Passage(1, "Enzymes are proteins.")]
+        self.assertEqual([p.page_number for p in retrieve(passages, "enzymes")], [2, 1])
+
+    def test_returns_nothing_without_matches(self):
+        self.assertEqual(retrieve(PASSAGES, "photosynthesis"), [])
+        self.assertEqual(retrieve(PASSAGES, "what were those"), [])
+        self.assertEqual(retrieve([], "cell"), [])
+
+    def test_limits_the_results(self):
+        self.assertEqual(len(retrieve(PASSAGES, "cell", limit=1)), 1)
+
+    def test_splits_passages_within_pages(self):
+        passages = split_passages([(1, "One two three. Four five six."), (2, "Seven eight.")], max_words=3)
+        self.assertEqual(
+            [(p.page_number, p.text) for p in passages],
+            [(1, "One two three."), (1, "Four five six."), (2, "Seven eight.")],
+        )
+
+
+if __name__ == '__main__':
+    unittest.main()
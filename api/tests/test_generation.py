@@ -0,0 +1,98 @@
+"""
+Tests for the offline question generator. Run from the repository root with:
+
+    python -m unittest discover -s api/tests -t .
+"""
+import unittest
+
+from api.generation import (
+    OPTION_COUNT,
+    GeneratedQuestion,
+    LocalQuestionGenerator,
+    get_question_generator,
+)
+
+SLIDE_TEXT = (
+    "Photosynthesis converts light energy into chemical energy inside chloroplasts. "
+    "Chlorophyll absorbs light most strongly in the blue and red wavelengths. "
+    "The Calvin cycle uses carbon dioxide to build glucose molecules in the stroma. "
+    "Chloroplasts contain thylakoid membranes where the light reactions take place. "
+    "Oxygen is released as a byproduct when water molecules are split by photosystem proteins. "
+    "Glucose produced by photosynthesis fuels cellular respiration in plant mitochondria."
+)
+
+
+class LocalQuestionGeneratorTest(unittest.TestCase):
+    def setUp(self):
+        self.generator = LocalQuestionGenerator()
+
+    def test_generates_up_to_the_requested_count(self):
+        self.assertEqual(len(self.generator.generate(SLIDE_TEXT, 2)), 2)
+        self.assertLessEqual(len(self.generator.generate(SLIDE_TEXT, 50)), 6)
+
+    def test_is_deterministic(self):
+        self.assertEqual(
+            self.generator.generate(SLIDE_TEXT, 5),
+            LocalQuestionGenerator().generate(SLIDE_TEXT, 5),
+        )
+
+    def test_blanks_the_answer_among_distinct_options(self):
+        questions = self.generator.generate(SLIDE_TEXT, 5)
+        self.assertTrue(questions)
+
+        for question in questions:
+            self.assertEqual(len(question.options), OPTION_COUNT)
+            self.assertEqual(len({option.lower() for option in question.options}), OPTION_COUNT)
+            self.assertIn(question.correct_index, range(OPTION_COUNT))
+            self.assertIn('_____', question.question_text)
+
+            answer = question.options[question.correct_index]
+            self.assertNotIn(answer.lower(), question.question_text.lower())
+            self.assertIn(answer.lower(), question.explanation.lower())
+
+    def test_asks_about_each_term_once(self):
+        questions = self.generator.generate(SLIDE_TEXT, 5)
+        answers = [question.options[question.correct_index].lower() for question in questions]
+        self.assertEqual(len(answers), len(set(answers)))
+
+    def test_returns_nothing_for_too_little_text(self):
+        self.assertEqual(self.generator.generate("", 5), [])
+        self.assertEqual(self.generator.generate("Cells divide.", 5), [])
+
+    def test_skips_sentences_outside_the_word_limits(self):
+        generator = LocalQuestionGenerator(min_words=100)
+        self.assertEqual(generator.generate(SLIDE_TEXT, 5), [])
+
+
+class GeneratedQuestionTest(unittest.TestCase):
+    def test_to_row_is_a_multiple_choice_bank_question(self):
+        question = GeneratedQuestion(
+            question_text="Fill in the blank: _____ absorbs light.",
+            options=["Chlorophyll", "Glucose", "Oxygen", "Stroma"],
+            correct_index=0,
+            explanation="From the slides",
+        )
+
+        self.assertEqual(question.to_row("slide-1", "course-1", "user-1"), {
+            "type": "multiple_choice",
+            "question_text": "Fill in the blank: _____ absorbs light.",
+            "content": {"options": ["Chlorophyll", "Glucose", "Oxygen", "Stroma"]},
+            "answer_key": {"correct": 0},
+            "explanation": "From the slides",
+            "slide_id": "slide-1",
+            "course_id": "course-1",
+            "created_by": "user-1",
+        })
+
+
+class GetQuestionGeneratorTest(unittest.TestCase):
+    def test_defaults_to_the_local_generator(self):
+        self.assertIsInstance(get_question_generator('local'), LocalQuestionGenerator)
+
+    def test_rejects_unknown_generators(self):
+        with self.assertRaises(ValueError):
+            get_question_generator('missing')
+
+
+if __name__ == '__main__':
+    unittest.main()
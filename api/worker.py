@@ -0,0 +1,105 @@
+import argparse
+import os
+import sys
+import time
+from datetime import datetime, timedelta, timezone
+
+from .content import convert_slide
+from .conversion import CONVERSION_TIMEOUT, ConversionError, conversion_available
+from .supabase_client import SupabaseClient, SupabaseError
+
+# Converts office documents that were uploaded where LibreOffice isn't installed,
+# such as the Vercel deployment, which leaves them pending. Run it on a machine
+# with LibreOffice and the same SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY.
+#
+#   python -m api.worker          keep converting, checking every CONVERSION_POLL_SECONDS
+#   python -m api.worker --once   convert what is pending, then exit
+
+POLL_INTERVAL = int(os.environ.get('CONVERSION_POLL_SECONDS', '10'))
+SLIDE_COLUMNS = 'id,file_path,file_type,page_thumbnails'
+
+# LibreOffice is stopped after CONVERSION_TIMEOUT, and downloading, rendering and
+# uploading get as long again. A slide processing for longer than that was left
+# behind by a worker or API request that died, and can be claimed again.
+STALE_AFTER = timedelta(seconds=CONVERSION_TIMEOUT * 2)
+
+
+def _claim_next(supabase):
+    """
+    Mark the oldest pending or stale processing slide as processing and return it,
+    or None if there is none. The update only matches while the slide is still
+    claimable, and claiming moves updated_at on, so two workers never convert the
+    same slide.
+    """
+    now = datetime.now(timezone.utc)
+    stale = (now - STALE_AFTER).strftime('%Y-%m-%dT%H:%M:%SZ')
+    claimable = f"(conversion_status.eq.pending,and(conversion_status.eq.processing,updated_at.lt.{stale}))"
+
+    candidates = supabase.select('slides', {
+        'select': SLIDE_COLUMNS,
+        'or': claimable,
+        'order': 'created_at.asc',
+        'limit': 10,
+    })
+
+    for slide in candidates:
+        claimed = supabase.update(
+            'slides',
+            {'id': f"eq.{slide['id']}", 'or': claimable},
+            {"conversion_status": "processing", "conversion_error": None, "updated_at": now.isoformat()},
+        )
+        if claimed:
+            return slide
+
+    return None
+
+
+def convert_pending(supabase):
+    """Convert every pending or stale slide and return how many were converted"""
+    converted = 0
+    while True:
+        slide = _claim_next(supabase)
+        if not slide:
+            return converted
+
+        try:
+            convert_slide(supabase, slide)
+        except (ConversionError, SupabaseError) as e:
+            print(f"Failed {slide['id']}: {e}", file=sys.stderr)
+            continue
+
+        print(f"Converted {slide['id']}")
+        converted += 1
+
+
+def main(argv=None):
+    parser = argparse.ArgumentParser(prog='python -m api.worker',
+                                     description="Convert pending office documents")
+    parser.add_argument('--once', action='store_true',
+                        help="convert what is pending, then exit")
+    args = parser.parse_args(argv)
+
+    if not conversion_available():
+        print("Error: LibreOffice is not installed. Install it or set SOFFICE_PATH.", file=sys.stderr)
+        return 1
+
+    try:
+        supabase = SupabaseClient()
+        if args.once:
+            print(f"{convert_pending(supabase)} document(s) converted.")
+            return 0
+    except SupabaseError as e:
+        print(f"Error: {e}", file=sys.stderr)
+        return 1
+
+    while True:
+        try:
+            convert_pending(supabase)
+        except SupabaseError as e:
+            # Keep polling through outages; a slide that couldn't be claimed stays pending
+            print(f"Error: {e}", file=sys.stderr)
+        time.sleep(POLL_INTERVAL)
+
+
+if __name__ == '__main__':
+    sys.exit(main())
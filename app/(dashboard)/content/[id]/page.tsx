@@ -0,0 +1,73 @@
+import { redirect } from "next/navigation"
+import Link from "next/link"
+import { createServerSupabaseClient } from "@/lib/supabase/server"
+import { DashboardHeader } from "@/components/dashboard/header"
+import { DashboardShell } from "@/components/dashboard/shell"
+import { SlideViewer } from "@/components/content/slide-viewer"
+import { Button } from "@/components/ui/button"
+import { ArrowLeft, Download } from "lucide-react"
+
+interface SlidePageProps {
+  params: {
+    id: string
+  }
+  // ?page=N opens a specific page, e.g. the one a search matched
+  searchParams?: {
+    page?: string
+  }
+}
+
+export default async function SlidePage({ params, searchParams }: SlidePageProps) {
+  const supabase = createServerSupabaseClient()
+
+  const {
+    data: { session },
+  } = await supabase.auth.getSession()
+
+  if (!session) {
+    redirect("/login")
+  }
+
+  // Fetch slide details
+  const { data: slide } = await supabase.from("slides").select("*").eq("id", params.id).single()
+
+  if (!slide) {
+    redirect("/content")
+  }
+
+  // Fetch where the student left off, if they have opened this slide before
+  const { data: progress } = await supabase
+    .from("content_progress")
+    .select("completed, last_position")
+    .eq("user_id", session.user.id)
+    .eq("slide_id", params.id)
+    .maybeSingle()
+
+  return (
+    <DashboardShell>
+      <DashboardHeader heading={slide.title} text={slide.description || undefined}>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" asChild>
+            <Link href="/content">
+              <ArrowLeft className="h-4 w-4 mr-1" />
+              Back
+            </Link>
+          </Button>
+          <Button variant="outline" size="sm" asChild>
+            <a href={slide.file_url} download>
+              <Download className="h-4 w-4 mr-1" />
+              Download
+            </a>
+          </Button>
+        </div>
+      </DashboardHeader>
+
+      <SlideViewer
+        slide={slide}
+        initialProgress={progress}
+        initialPage={Number(searchParams?.page) || undefined}
+        userId={session.user.id}
+      />
+    </DashboardShell>
+  )
+}
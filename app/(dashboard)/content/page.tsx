@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from "react";
 import { useSupabase } from "@/lib/supabase/provider";
+import { canAuthor } from "@/lib/roles";
 import {
   checkSupabaseConnection,
   checkAuthStatus,
@@ -26,8 +27,16 @@ import {
   FileType,
   SortAsc,
 } from "lucide-react";
-import { FileUpload } from "@/components/content/file-upload";
+import {
+  FileUpload,
+  type UploadSummary,
+} from "@/components/content/file-upload";
 import { SlideGrid } from "@/components/content/slide-grid";
+import type {
+  SlideSearchMatch,
+  SlideWithRelations,
+} from "@/components/content/slide-card";
+import { CourseSelect } from "@/components/courses/course-select";
 import { Input } from "@/components/ui/input";
 import {
   Select,
@@ -40,14 +49,16 @@ import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { useToast } from "@/components/ui/use-toast";
 
 export default function ContentPage() {
-  const { supabase, session, isLoading } = useSupabase();
+  const { supabase, session, isLoading, role } = useSupabase();
+  // Students can browse the library; only instructors and admins manage it
+  const isAuthor = canAuthor(role);
   const { toast } = useToast();
-  const [slides, setSlides] = useState<any[]>([]);
+  const [slides, setSlides] = useState<SlideWithRelations[]>([]);
   const [isUploading, setIsUploading] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
+  // Searching runs a ranked full-text query, so wait for typing to pause
+  const [debouncedSearch, setDebouncedSearch] = useState("");
   const [courseFilter, setCourseFilter] = useState("");
-  const [courses, setCourses] = useState<string[]>([]);
-  const [isLoaded, setIsLoaded] = useState(false);
   const [isFetchingSlides, setIsFetchingSlides] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [fileTypeFilter, setFileTypeFilter] = useState("all");
@@ -59,17 +70,25 @@ export default function ContentPage() {
     }
   }, [session]);
 
+  useEffect(() => {
+    const timeout = setTimeout(
+      () => setDebouncedSearch(searchQuery.trim()),
+      300
+    );
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
+
   // Fetch slides whenever filters change
   useEffect(() => {
     if (session) {
       fetchSlides();
     }
-  }, [searchQuery, courseFilter, fileTypeFilter, sortOrder]);
+  }, [debouncedSearch, courseFilter, fileTypeFilter, sortOrder]);
 
   const fetchSlides = async (retryCount = 0) => {
     try {
       console.log("Fetching slides with filters:", {
-        searchQuery,
+        searchQuery: debouncedSearch,
         courseFilter,
         fileTypeFilter,
         sortOrder,
@@ -110,11 +129,27 @@ export default function ContentPage() {
         }
 
         // If test query works, proceed with main query
-        let query = supabase.from("slides").select("*");
-
-        // Apply search filter
-        if (searchQuery) {
-          query = query.ilike("title", `%${searchQuery}%`);
+        let query = supabase
+          .from("slides")
+          .select("*, courses(code, name), uploader:profiles(name)");
+
+        // Apply search filter: ranked matches on titles, descriptions and page text
+        let matches: Map<string, SlideSearchMatch> | null = null;
+        if (debouncedSearch) {
+          const { data: searchData, error: searchError } = await supabase.rpc(
+            "search_slides",
+            { p_query: debouncedSearch }
+          );
+          if (searchError) {
+            throw new Error(`Search failed: ${searchError.message}`);
+          }
+          matches = new Map(
+            ((searchData || []) as SlideSearchMatch[]).map((match) => [
+              match.slide_id,
+              match,
+            ])
+          );
+          query = query.in("id", Array.from(matches.keys()));
         }
 
         // Apply course filter
@@ -129,14 +164,17 @@ export default function ContentPage() {
           } else if (fileTypeFilter === "pdf") {
             query = query.eq("file_type", "application/pdf");
           } else if (fileTypeFilter === "other") {
+            // Presentations and documents; their cards badge the actual type
             query = query
               .not("file_type", "ilike", "image/%")
               .not("file_type", "eq", "application/pdf");
           }
         }
 
-        // Apply sort order
-        if (sortOrder === "newest") {
+        // Apply sort order; search results are ordered by relevance instead
+        if (matches) {
+          // Sorted below, once the rows are back
+        } else if (sortOrder === "newest") {
           query = query.order("created_at", { ascending: false });
         } else if (sortOrder === "oldest") {
           query = query.order("created_at", { ascending: true });
@@ -173,34 +211,19 @@ export default function ContentPage() {
           setSlides([]);
         } else {
           console.log(`Fetched ${slideData.length} slides from database`);
-          setSlides(slideData);
-        }
-
-        // Extract unique course IDs for filter
-        if (!isLoaded) {
-          try {
-            const courseResult = await supabase
-              .from("slides")
-              .select("course_id");
-            const { data: allSlides, error: coursesError } = courseResult;
-
-            if (coursesError) {
-              // Don't throw error here, just log it
-              console.error("Error fetching course IDs:", coursesError.message);
-              return;
-            }
-
-            if (allSlides) {
-              const uniqueCourses = [
-                ...new Set(allSlides.map((slide) => slide.course_id)),
-              ];
-              setCourses(uniqueCourses);
-              setIsLoaded(true);
-            }
-          } catch (courseError) {
-            // Don't let course filter error prevent slides display
-            console.error("Error processing courses:", courseError);
-          }
+          setSlides(
+            matches
+              ? slideData
+                  .map((slide) => ({
+                    ...slide,
+                    search_match: matches?.get(slide.id),
+                  }))
+                  .sort(
+                    (a, b) =>
+                      (b.search_match?.rank || 0) - (a.search_match?.rank || 0)
+                  )
+              : slideData
+          );
         }
       } catch (queryError) {
         console.error("Query execution error:", queryError);
@@ -287,12 +310,15 @@ export default function ContentPage() {
     }
   };
 
-  const handleUploadComplete = (fileUrl: string, metadata: any) => {
-    setIsUploading(false);
+  const handleUploadComplete = (summary: UploadSummary) => {
     fetchSlides();
+    // Keep the form open when some files still need attention
+    if (!summary.failed && !summary.paused) {
+      setIsUploading(false);
+    }
   };
 
-  const deleteSlide = async (slideId: string, filePath: string) => {
+  const deleteSlide = async (slideId: string, filePaths: string[]) => {
     // Track if we've deleted the file successfully
     let fileDeletedSuccessfully = false;
 
@@ -328,8 +354,8 @@ export default function ContentPage() {
         return;
       }
 
-      // First, delete the file from storage if there's a file path
-      if (filePath) {
+      // First, delete the files from storage: the original plus any converted preview
+      if (filePaths.length > 0) {
         let storageError = null;
         let retryCount = 0;
         const maxRetries = 3;
@@ -338,14 +364,14 @@ export default function ContentPage() {
         while (retryCount < maxRetries && !fileDeletedSuccessfully) {
           try {
             console.log(
-              `Attempting to delete file: ${filePath} (attempt ${
+              `Attempting to delete files: ${filePaths.join(", ")} (attempt ${
                 retryCount + 1
               })`
             );
 
             const result = await supabase.storage
               .from("content")
-              .remove([filePath]);
+              .remove(filePaths);
 
             const { error, data } = result;
 
@@ -646,6 +672,10 @@ export default function ContentPage() {
     }
   }, [error]);
 
+  const mySlides = slides.filter(
+    (slide) => slide.uploaded_by === session?.user.id
+  );
+
   // If loading or no session, show fallback
   if (isLoading || !session) {
     return <DashboardAuthFallback />;
@@ -657,10 +687,12 @@ export default function ContentPage() {
         heading="Content Library"
         text="Access and manage your learning materials"
       >
-        <Button onClick={() => setIsUploading(!isUploading)}>
-          <FileUp className="mr-2 h-4 w-4" />
-          {isUploading ? "Cancel Upload" : "Upload Slides"}
-        </Button>
+        {isAuthor && (
+          <Button onClick={() => setIsUploading(!isUploading)}>
+            <FileUp className="mr-2 h-4 w-4" />
+            {isUploading ? "Cancel Upload" : "Upload Slides"}
+          </Button>
+        )}
       </DashboardHeader>
 
       <div className="grid gap-4">
@@ -688,6 +720,9 @@ export default function ContentPage() {
               <TabsList>
                 <TabsTrigger value="all">All Content</TabsTrigger>
                 <TabsTrigger value="recent">Recently Added</TabsTrigger>
+                {isAuthor && (
+                  <TabsTrigger value="mine">My Uploads</TabsTrigger>
+                )}
               </TabsList>
               <div className="flex flex-col sm:flex-row gap-2">
                 <div className="relative">
@@ -697,7 +732,9 @@ export default function ContentPage() {
                     className="pl-8"
                     value={searchQuery}
                     onChange={(e) => setSearchQuery(e.target.value)}
-                    onKeyDown={(e) => e.key === "Enter" && fetchSlides()}
+                    onKeyDown={(e) =>
+                      e.key === "Enter" && setDebouncedSearch(searchQuery.trim())
+                    }
                   />
                 </div>
 
@@ -720,16 +757,20 @@ export default function ContentPage() {
                 </Select>
 
                 <Select
-                  value={sortOrder}
+                  value={debouncedSearch ? "relevance" : sortOrder}
                   onValueChange={(value) => {
                     setSortOrder(value);
                     fetchSlides();
                   }}
+                  disabled={!!debouncedSearch}
                 >
                   <SelectTrigger className="w-[160px]">
                     <SelectValue placeholder="Sort by" />
                   </SelectTrigger>
                   <SelectContent>
+                    {debouncedSearch && (
+                      <SelectItem value="relevance">Best Match</SelectItem>
+                    )}
                     <SelectItem value="newest">Newest First</SelectItem>
                     <SelectItem value="oldest">Oldest First</SelectItem>
                     <SelectItem value="a-z">A-Z</SelectItem>
@@ -737,34 +778,23 @@ export default function ContentPage() {
                   </SelectContent>
                 </Select>
 
-                <Select
+                <CourseSelect
                   value={courseFilter}
-                  onValueChange={(value) => {
-                    setCourseFilter(value === "all" ? "" : value);
-                    fetchSlides();
-                  }}
-                >
-                  <SelectTrigger className="w-[180px]">
-                    <SelectValue placeholder="Filter by course" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="all">All Courses</SelectItem>
-                    {courses.map((course) => (
-                      <SelectItem key={course} value={course}>
-                        {course}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
+                  onValueChange={setCourseFilter}
+                  placeholder="Filter by course"
+                  allowAll
+                  className="w-[180px]"
+                />
               </div>
             </div>
 
-            {isUploading && (
+            {isAuthor && isUploading && (
               <Card className="mb-6">
                 <CardHeader>
                   <CardTitle>Upload New Slides</CardTitle>
                   <CardDescription>
-                    Upload PDF documents or images to share with your students
+                    Upload PDFs, PowerPoint and Word documents or images to share
+                    with your students
                   </CardDescription>
                 </CardHeader>
                 <CardContent>
@@ -782,11 +812,16 @@ export default function ContentPage() {
                   </span>
                 </div>
               ) : slides.length > 0 ? (
-                <SlideGrid slides={slides} onDeleteSlide={deleteSlide} />
+                <SlideGrid
+                  slides={slides}
+                  onDeleteSlide={isAuthor ? deleteSlide : undefined}
+                />
               ) : (
                 <div className="text-center py-12">
                   <p className="text-muted-foreground">
-                    No slides found. Upload some content to get started.
+                    {debouncedSearch
+                      ? `No slides match "${debouncedSearch}".`
+                      : "No slides found. Upload some content to get started."}
                   </p>
                 </div>
               )}
@@ -803,7 +838,7 @@ export default function ContentPage() {
               ) : slides.length > 0 ? (
                 <SlideGrid
                   slides={slides.slice(0, 6)}
-                  onDeleteSlide={deleteSlide}
+                  onDeleteSlide={isAuthor ? deleteSlide : undefined}
                 />
               ) : (
                 <div className="text-center py-12">
@@ -813,6 +848,25 @@ export default function ContentPage() {
                 </div>
               )}
             </TabsContent>
+
+            {isAuthor && (
+              <TabsContent value="mine" className="mt-0">
+                {isFetchingSlides ? (
+                  <div className="flex justify-center items-center py-12">
+                    <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                    <span className="ml-2 text-sm text-muted-foreground">
+                      Loading slides...
+                    </span>
+                  </div>
+                ) : (
+                  <SlideGrid
+                    slides={mySlides}
+                    onDeleteSlide={deleteSlide}
+                    emptyMessage="You haven't uploaded any slides yet."
+                  />
+                )}
+              </TabsContent>
+            )}
           </Tabs>
         </div>
       </div>
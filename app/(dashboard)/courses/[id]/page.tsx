@@ -0,0 +1,90 @@
+import { redirect } from "next/navigation"
+import Link from "next/link"
+import { createServerSupabaseClient } from "@/lib/supabase/server"
+import { DashboardHeader } from "@/components/dashboard/header"
+import { DashboardShell } from "@/components/dashboard/shell"
+import { SlideGrid } from "@/components/content/slide-grid"
+import { EnrollButton } from "@/components/courses/enroll-button"
+import { QuizCard, type QuizSummary } from "@/components/quiz/quiz-card"
+import { Button } from "@/components/ui/button"
+import { ArrowLeft } from "lucide-react"
+
+interface CoursePageProps {
+  params: {
+    id: string
+  }
+}
+
+export default async function CoursePage({ params }: CoursePageProps) {
+  const supabase = createServerSupabaseClient()
+
+  const {
+    data: { session },
+  } = await supabase.auth.getSession()
+
+  if (!session) {
+    redirect("/login")
+  }
+
+  const { data: course } = await supabase.from("courses").select("*").eq("id", params.id).single()
+
+  if (!course) {
+    redirect("/courses")
+  }
+
+  const { data: enrollment } = await supabase
+    .from("enrollments")
+    .select("id")
+    .eq("user_id", session.user.id)
+    .eq("course_id", params.id)
+    .maybeSingle()
+
+  const { data: slides } = await supabase
+    .from("slides")
+    .select("*, courses(code, name), uploader:profiles(name)")
+    .eq("course_id", params.id)
+    .order("created_at", { ascending: false })
+
+  const { data: quizzes } = await supabase
+    .from("quizzes")
+    .select("id, title, description, time_limit, question_count, questions_per_attempt, status, created_at")
+    .eq("course_id", params.id)
+    .order("created_at", { ascending: false })
+    .returns<QuizSummary[]>()
+
+  return (
+    <DashboardShell>
+      <DashboardHeader heading={`${course.code} — ${course.name}`} text={course.description || undefined}>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" asChild>
+            <Link href="/courses">
+              <ArrowLeft className="h-4 w-4 mr-1" />
+              Back
+            </Link>
+          </Button>
+          <EnrollButton courseId={course.id} enrolled={!!enrollment} />
+        </div>
+      </DashboardHeader>
+
+      <section className="space-y-4">
+        <h2 className="text-xl font-semibold">Slides</h2>
+        <SlideGrid slides={slides || []} emptyMessage="No slides have been uploaded to this course yet" />
+      </section>
+
+      <section className="space-y-4">
+        <h2 className="text-xl font-semibold">Quizzes</h2>
+        {quizzes && quizzes.length > 0 ? (
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+            {quizzes.map((quiz) => (
+              <QuizCard key={quiz.id} quiz={quiz} />
+            ))}
+          </div>
+        ) : (
+          <div className="flex items-center justify-center h-40 bg-muted/50 rounded-lg">
+            <p className="text-muted-foreground">No quizzes have been created for this course yet</p>
+          </div>
+        )}
+      </section>
+    </DashboardShell>
+  )
+}
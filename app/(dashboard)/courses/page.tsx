@@ -0,0 +1,232 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useSupabase } from "@/lib/supabase/provider";
+import { canAuthor } from "@/lib/roles";
+import { DashboardHeader } from "@/components/dashboard/header";
+import { DashboardShell } from "@/components/dashboard/shell";
+import { DashboardAuthFallback } from "@/components/dashboard/auth-fallback";
+import {
+  CourseFormDialog,
+  type Course,
+} from "@/components/courses/course-form-dialog";
+import { EnrollButton } from "@/components/courses/enroll-button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Button } from "@/components/ui/button";
+import { LoadingSpinner } from "@/components/ui/loading-spinner";
+import { ErrorMessage } from "@/components/ui/error-message";
+import { BookOpen, FileText, Pencil, Plus } from "lucide-react";
+
+interface CourseWithCounts extends Course {
+  slides: { count: number }[];
+  quizzes: { count: number }[];
+}
+
+export default function CoursesPage() {
+  const { supabase, session, isLoading, role } = useSupabase();
+  const [courses, setCourses] = useState<CourseWithCounts[]>([]);
+  const [enrolledIds, setEnrolledIds] = useState<string[]>([]);
+  const [isFetching, setIsFetching] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingCourse, setEditingCourse] = useState<Course | null>(null);
+
+  const fetchCourses = async () => {
+    setIsFetching(true);
+    setError(null);
+
+    const [
+      { data, error: coursesError },
+      { data: enrollments, error: enrollmentsError },
+    ] = await Promise.all([
+      supabase
+        .from("courses")
+        .select("*, slides(count), quizzes(count)")
+        .order("code", { ascending: true }),
+      supabase.from("enrollments").select("course_id"),
+    ]);
+
+    if (coursesError || enrollmentsError) {
+      const message = (coursesError || enrollmentsError)?.message;
+      console.error("Error fetching courses:", message);
+      setError(`Failed to load courses: ${message}`);
+    } else {
+      setCourses(data || []);
+      setEnrolledIds((enrollments || []).map((row) => row.course_id));
+    }
+    setIsFetching(false);
+  };
+
+  useEffect(() => {
+    if (session) {
+      fetchCourses();
+    }
+  }, [session]);
+
+  const openCreateDialog = () => {
+    setEditingCourse(null);
+    setIsDialogOpen(true);
+  };
+
+  const openEditDialog = (course: Course) => {
+    setEditingCourse(course);
+    setIsDialogOpen(true);
+  };
+
+  const handleEnrollmentChange = (courseId: string, enrolled: boolean) => {
+    setEnrolledIds((current) =>
+      enrolled
+        ? [...current, courseId]
+        : current.filter((id) => id !== courseId)
+    );
+  };
+
+  const enrolledCourses = courses.filter((course) =>
+    enrolledIds.includes(course.id)
+  );
+
+  const renderCourses = (list: CourseWithCounts[], emptyMessage: string) =>
+    list.length === 0 ? (
+      <div className="flex items-center justify-center h-40 bg-muted/50 rounded-lg">
+        <p className="text-muted-foreground">{emptyMessage}</p>
+      </div>
+    ) : (
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+        {list.map((course) => (
+          <Card key={course.id} className="flex flex-col">
+            <CardHeader>
+              <div className="flex items-start justify-between gap-2">
+                <Badge variant="outline">{course.code}</Badge>
+                {course.term && (
+                  <span className="text-xs text-muted-foreground">
+                    {course.term}
+                  </span>
+                )}
+              </div>
+              <CardTitle className="pt-2">
+                <Link href={`/courses/${course.id}`} className="hover:underline">
+                  {course.name}
+                </Link>
+              </CardTitle>
+              {course.description && (
+                <CardDescription className="line-clamp-2">
+                  {course.description}
+                </CardDescription>
+              )}
+            </CardHeader>
+            <CardContent className="flex-1 space-y-2 text-sm text-muted-foreground">
+              <div className="flex items-center space-x-2">
+                <FileText className="h-4 w-4" />
+                <span>{course.slides?.[0]?.count ?? 0} slides</span>
+              </div>
+              <div className="flex items-center space-x-2">
+                <BookOpen className="h-4 w-4" />
+                <span>{course.quizzes?.[0]?.count ?? 0} quizzes</span>
+              </div>
+            </CardContent>
+            <CardFooter className="flex gap-2">
+              <EnrollButton
+                key={`${course.id}-${enrolledIds.includes(course.id)}`}
+                courseId={course.id}
+                enrolled={enrolledIds.includes(course.id)}
+                onChange={(enrolled) =>
+                  handleEnrollmentChange(course.id, enrolled)
+                }
+                className="flex-1"
+              />
+              {(course.owner_id === session?.user.id || role === "admin") && (
+                <Button
+                  variant="outline"
+                  size="icon"
+                  onClick={() => openEditDialog(course)}
+                >
+                  <Pencil className="h-4 w-4" />
+                  <span className="sr-only">Edit course</span>
+                </Button>
+              )}
+            </CardFooter>
+          </Card>
+        ))}
+      </div>
+    );
+
+  if (isLoading || !session) {
+    return <DashboardAuthFallback />;
+  }
+
+  return (
+    <DashboardShell>
+      <DashboardHeader
+        heading="Courses"
+        text="Browse courses and the slides and quizzes that belong to them"
+      >
+        {canAuthor(role) && (
+          <Button onClick={openCreateDialog}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Course
+          </Button>
+        )}
+      </DashboardHeader>
+
+      {error && (
+        <ErrorMessage
+          message={error}
+          variant="destructive"
+          onDismiss={() => setError(null)}
+        />
+      )}
+
+      {isFetching ? (
+        <div className="flex justify-center items-center min-h-[200px]">
+          <LoadingSpinner size="lg" text="Loading courses..." />
+        </div>
+      ) : courses.length === 0 ? (
+        <Card>
+          <CardHeader>
+            <CardTitle>No courses yet</CardTitle>
+            <CardDescription>
+              {canAuthor(role)
+                ? "Create a course to start organising slides and quizzes."
+                : "Your instructors haven't published any courses yet."}
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      ) : (
+        <Tabs defaultValue={enrolledIds.length ? "enrolled" : "all"} className="space-y-6">
+          <TabsList>
+            <TabsTrigger value="enrolled">
+              My Courses ({enrolledCourses.length})
+            </TabsTrigger>
+            <TabsTrigger value="all">All Courses ({courses.length})</TabsTrigger>
+          </TabsList>
+          <TabsContent value="enrolled" className="mt-0">
+            {renderCourses(
+              enrolledCourses,
+              "You are not enrolled in any courses yet. Enrol from All Courses."
+            )}
+          </TabsContent>
+          <TabsContent value="all" className="mt-0">
+            {renderCourses(courses, "No courses found")}
+          </TabsContent>
+        </Tabs>
+      )}
+
+      <CourseFormDialog
+        open={isDialogOpen}
+        onOpenChange={setIsDialogOpen}
+        course={editingCourse}
+        onSaved={fetchCourses}
+      />
+    </DashboardShell>
+  );
+}
@@ -3,12 +3,23 @@ import { DashboardHeader } from "@/components/dashboard/header"
 import { DashboardShell } from "@/components/dashboard/shell"
 import { DashboardAuthFallback } from "@/components/dashboard/auth-fallback"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
-import { Button } from "@/components/ui/button"
 import { Progress } from "@/components/ui/progress"
 import Link from "next/link"
 import { ArrowRight, BookOpen, Clock, Trophy } from "lucide-react"
 import { createServerSupabaseClient } from "@/lib/supabase/server"
 import { Loader2 } from "lucide-react"
+import { summarizeCourseProgress, type CourseProgress } from "@/components/progress/course-progress"
+import { RecommendationCard, type Recommendation } from "@/components/dashboard/recommendation-card"
+import {
+  ClassificationHistory,
+  type ClassificationChange,
+  type ClassificationDriver,
+} from "@/components/dashboard/classification-history"
+import type { Tables } from "@/types/supabase"
+
+type RecentSubmission = Tables<"quiz_submissions"> & {
+  quizzes: Pick<Tables<"quizzes">, "title"> | null
+}
 
 // Loading component for Suspense
 function DashboardLoading() {
@@ -80,8 +91,39 @@ async function DashboardContent() {
     classification = null;
   }
 
+  // Fetch every classification change, oldest first for the timeline
+  let classificationHistory: ClassificationChange[] = [];
+  try {
+    const { data } = await supabase
+      .from("classification_history")
+      .select("*")
+      .eq("user_id", session.user.id)
+      .order("created_at", { ascending: true })
+      .returns<ClassificationChange[]>();
+    classificationHistory = data || [];
+  } catch (error) {
+    classificationHistory = [];
+  }
+
+  // Fetch the submissions that produced the latest change
+  let classificationDrivers: ClassificationDriver[] = [];
+  const latestChange = classificationHistory[classificationHistory.length - 1];
+  if (latestChange?.submission_ids?.length) {
+    try {
+      const { data } = await supabase
+        .from("quiz_submissions")
+        .select("id, score, time_taken, created_at, quizzes(title, time_limit)")
+        .in("id", latestChange.submission_ids)
+        .order("created_at", { ascending: false })
+        .returns<ClassificationDriver[]>();
+      classificationDrivers = data || [];
+    } catch (error) {
+      classificationDrivers = [];
+    }
+  }
+
   // Fetch recent quizzes
-  let recentQuizzes = [];
+  let recentQuizzes: RecentSubmission[] = [];
   try {
     const { data } = await supabase
       .from("quiz_submissions")
@@ -94,45 +136,44 @@ async function DashboardContent() {
     recentQuizzes = [];
   }
 
-  // Fetch recommended content based on classification
-  let recommendations = [];
+  // Fetch the slides recommended for this user
+  let recommendations: Recommendation[] = [];
   try {
-    const { data } = await supabase
-      .from("recommendations")
-      .select("*")
-      .eq("classification", classification?.classification || "Moderate")
-      .limit(3);
+    const fetchRecommendations = () =>
+      supabase
+        .from("recommendations")
+        .select("id, content_id, title, reason, score, slides(title, description, file_type, courses(code))")
+        .eq("user_id", session.user.id)
+        .order("score", { ascending: false })
+        .limit(3)
+        .returns<Recommendation[]>();
+
+    const { data } = await fetchRecommendations();
     recommendations = data || [];
+
+    // New users have no recommendations until they read or submit something
+    if (!recommendations.length) {
+      await supabase.rpc("refresh_recommendations");
+      const { data: refreshed } = await fetchRecommendations();
+      recommendations = refreshed || [];
+    }
   } catch (error) {
     recommendations = [];
   }
 
-  // Calculate course progress based on completed content and quizzes
-  let progressPercentage = 0;
+  // Calculate progress across the courses the student is enrolled in
+  let courseProgress: CourseProgress[] = [];
   try {
-    // Fetch total content items
-    const { data: totalContent } = await supabase
-      .from("slides")
-      .select("id", { count: "exact" });
-    
-    // Fetch completed content items
-    const { data: completedContent } = await supabase
-      .from("content_progress")
-      .select("*")
-      .eq("user_id", session.user.id);
-    
-    // Calculate progress percentage
-    const totalItems = (totalContent?.length || 0) + (recentQuizzes?.length || 0);
-    const completedItems = (completedContent?.length || 0) + (recentQuizzes?.length || 0);
-    
-    if (totalItems > 0) {
-      progressPercentage = Math.round((completedItems / totalItems) * 100);
-    }
+    const { data } = await supabase.rpc("get_course_progress");
+    courseProgress = data || [];
   } catch (error) {
     console.error("Error calculating progress:", error);
-    progressPercentage = 0;
+    courseProgress = [];
   }
 
+  const progressTotals = summarizeCourseProgress(courseProgress);
+  const progressPercentage = progressTotals.percentage;
+
   return (
     <DashboardShell>
       <DashboardHeader heading="Dashboard" text={`Welcome back, ${profile?.name || "Student"}!`} />
@@ -147,7 +188,11 @@ async function DashboardContent() {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">{classification?.classification || "Moderate"}</div>
-            <p className="text-xs text-muted-foreground">Based on your quiz performance</p>
+            <p className="text-xs text-muted-foreground">
+              {latestChange
+                ? `Based on your quiz performance since ${new Date(latestChange.created_at).toLocaleDateString()}`
+                : "Based on your quiz performance"}
+            </p>
           </CardContent>
         </Card>
 
@@ -159,8 +204,12 @@ async function DashboardContent() {
             </div>
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{recentQuizzes?.length || 0}</div>
-            <p className="text-xs text-muted-foreground">Keep going to improve your classification</p>
+            <div className="text-2xl font-bold">{progressTotals.attemptedQuizzes}</div>
+            <p className="text-xs text-muted-foreground">
+              {progressTotals.totalQuizzes
+                ? `Of ${progressTotals.totalQuizzes} in your courses`
+                : "Keep going to improve your classification"}
+            </p>
           </CardContent>
         </Card>
 
@@ -191,7 +240,11 @@ async function DashboardContent() {
             <div className="text-2xl font-bold">{progressPercentage}%</div>
             <Progress value={progressPercentage} className="h-2" />
             <p className="text-xs text-muted-foreground mt-2">
-              <a href="/progress" className="text-primary hover:underline">View detailed progress →</a>
+              {courseProgress.length ? (
+                <a href="/progress" className="text-primary hover:underline">View detailed progress →</a>
+              ) : (
+                <a href="/courses" className="text-primary hover:underline">Enrol in a course →</a>
+              )}
             </p>
           </CardContent>
         </Card>
@@ -207,20 +260,9 @@ async function DashboardContent() {
           </CardHeader>
           <CardContent>
             {recommendations?.length ? (
-              <div className="space-y-4">
+              <div className="space-y-3">
                 {recommendations.map((rec) => (
-                  <div key={rec.id} className="flex items-start space-x-4">
-                    <div className="rounded-md bg-primary/10 p-2">
-                      <BookOpen className="h-4 w-4 text-primary" />
-                    </div>
-                    <div className="flex-1 space-y-1">
-                      <p className="text-sm font-medium leading-none">{rec.title}</p>
-                      <p className="text-sm text-muted-foreground">{rec.description}</p>
-                    </div>
-                    <Button variant="ghost" size="sm" asChild>
-                      <Link href={`/content/${rec.id}`}>View</Link>
-                    </Button>
-                  </div>
+                  <RecommendationCard key={rec.id} recommendation={rec} />
                 ))}
               </div>
             ) : (
@@ -242,8 +284,12 @@ async function DashboardContent() {
                 {recentQuizzes.map((quiz) => (
                   <div key={quiz.id} className="flex items-center justify-between">
                     <div className="space-y-1">
-                      <p className="text-sm font-medium leading-none">{quiz.quizzes?.title || "Quiz"}</p>
-                      <p className="text-sm text-muted-foreground">{new Date(quiz.created_at).toLocaleDateString()}</p>
+                      <Link href={`/quizzes/results/${quiz.id}`} className="block text-sm font-medium leading-none hover:underline">
+                        {quiz.quizzes?.title || "Quiz"}
+                      </Link>
+                      <p className="text-sm text-muted-foreground">
+                        {quiz.created_at && new Date(quiz.created_at).toLocaleDateString()}
+                      </p>
                     </div>
                     <div className="flex items-center space-x-2">
                       <span
@@ -265,6 +311,8 @@ async function DashboardContent() {
           </CardContent>
         </Card>
       </div>
+
+      <ClassificationHistory history={classificationHistory} drivers={classificationDrivers} />
     </DashboardShell>
   )
 }
@@ -6,6 +6,21 @@ import { Progress } from "@/components/ui/progress"
 import { LineChart, BookOpen, Trophy, Clock } from "lucide-react"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { formatDistanceToNow } from "date-fns"
+import Link from "next/link"
+import {
+  CourseProgressBreakdown,
+  summarizeCourseProgress,
+  type CourseProgress,
+} from "@/components/progress/course-progress"
+import type { Tables } from "@/types/supabase"
+
+type QuizSubmission = Tables<"quiz_submissions"> & {
+  quizzes: Pick<Tables<"quizzes">, "title" | "course_id"> | null
+}
+
+type SlideProgress = Tables<"content_progress"> & {
+  slides: Pick<Tables<"slides">, "title"> | null
+}
 
 export const metadata: Metadata = {
   title: "Learning Progress - Study Buddy",
@@ -36,11 +51,11 @@ async function ProgressContent({ userId }: { userId: string }) {
   const supabase = createServerSupabaseClient()
   
   // Fetch quiz submissions
-  let quizzes = []
+  let quizzes: QuizSubmission[] = []
   try {
     const { data } = await supabase
       .from("quiz_submissions")
-      .select("*, quizzes(title)")
+      .select("*, quizzes(title, course_id)")
       .eq("user_id", userId)
       .order("created_at", { ascending: false })
     
@@ -51,7 +66,7 @@ async function ProgressContent({ userId }: { userId: string }) {
   }
   
   // Fetch content progress
-  let contentProgress = []
+  let contentProgress: SlideProgress[] = []
   try {
     const { data } = await supabase
       .from("content_progress")
@@ -65,26 +80,33 @@ async function ProgressContent({ userId }: { userId: string }) {
     contentProgress = []
   }
   
-  // Fetch total content items
-  let totalContent = 0
+  // Fetch slide and quiz completion for each enrolled course
+  let courseProgress: CourseProgress[] = []
   try {
-    const { count } = await supabase
-      .from("slides")
-      .select("*", { count: "exact", head: true })
-    
-    totalContent = count || 0
+    const { data } = await supabase.rpc("get_course_progress")
+    courseProgress = data || []
   } catch (error) {
-    console.error("Error fetching total content:", error)
+    console.error("Error fetching course progress:", error)
+    courseProgress = []
   }
-  
-  // Calculate overall progress
-  const totalItems = totalContent + (quizzes?.length || 0)
-  const completedItems = (contentProgress?.length || 0) + (quizzes?.length || 0)
-  const progressPercentage = totalItems > 0 ? Math.round((completedItems / totalItems) * 100) : 0
-  
+
+  // Overall figures only cover the courses the student is enrolled in
+  const {
+    totalSlides: totalContent,
+    completedSlides: completedContent,
+    totalItems,
+    completedItems,
+    percentage: progressPercentage,
+  } = summarizeCourseProgress(courseProgress)
+
+  const enrolledCourseIds = courseProgress.map((course) => course.course_id)
+  const courseQuizzes = quizzes.filter(
+    (quiz) => quiz.quizzes?.course_id && enrolledCourseIds.includes(quiz.quizzes.course_id)
+  )
+
   // Calculate average quiz score
-  const averageScore = quizzes.length 
-    ? Math.round(quizzes.reduce((acc, quiz) => acc + quiz.score, 0) / quizzes.length) 
+  const averageScore = courseQuizzes.length
+    ? Math.round(courseQuizzes.reduce((acc, quiz) => acc + quiz.score, 0) / courseQuizzes.length)
     : 0
 
   return (
@@ -112,15 +134,15 @@ async function ProgressContent({ userId }: { userId: string }) {
           <CardContent>
             <div className="text-2xl font-bold">
               {totalContent > 0 
-                ? Math.round((contentProgress.length / totalContent) * 100) 
+                ? Math.round((completedContent / totalContent) * 100) 
                 : 0}%
             </div>
             <Progress 
-              value={totalContent > 0 ? (contentProgress.length / totalContent) * 100 : 0} 
+              value={totalContent > 0 ? (completedContent / totalContent) * 100 : 0} 
               className="h-2 my-2" 
             />
             <p className="text-xs text-muted-foreground">
-              Completed {contentProgress.length} of {totalContent} slides
+              Completed {completedContent} of {totalContent} slides
             </p>
           </CardContent>
         </Card>
@@ -134,12 +156,14 @@ async function ProgressContent({ userId }: { userId: string }) {
             <div className="text-2xl font-bold">{averageScore}%</div>
             <Progress value={averageScore} className="h-2 my-2" />
             <p className="text-xs text-muted-foreground">
-              Completed {quizzes.length} quizzes
+              Completed {courseQuizzes.length} quizzes
             </p>
           </CardContent>
         </Card>
       </div>
       
+      <CourseProgressBreakdown courses={courseProgress} />
+
       <div className="grid grid-cols-1 gap-6">
         <Card>
           <CardHeader>
@@ -161,7 +185,9 @@ async function ProgressContent({ userId }: { userId: string }) {
                   {quizzes.slice(0, 5).map((quiz) => (
                     <TableRow key={quiz.id}>
                       <TableCell className="font-medium">
-                        {quiz.quizzes?.title || "Unknown Quiz"}
+                        <Link href={`/quizzes/results/${quiz.id}`} className="hover:underline">
+                          {quiz.quizzes?.title || "Unknown Quiz"}
+                        </Link>
                       </TableCell>
                       <TableCell>
                         <div className="flex items-center gap-2">
@@ -175,7 +201,9 @@ async function ProgressContent({ userId }: { userId: string }) {
                           <span>{Math.floor(quiz.time_taken / 60)}m {quiz.time_taken % 60}s</span>
                         </div>
                       </TableCell>
-                      <TableCell>{formatDistanceToNow(new Date(quiz.created_at), { addSuffix: true })}</TableCell>
+                      <TableCell>
+                        {quiz.created_at && formatDistanceToNow(new Date(quiz.created_at), { addSuffix: true })}
+                      </TableCell>
                     </TableRow>
                   ))}
                 </TableBody>
@@ -207,14 +235,24 @@ async function ProgressContent({ userId }: { userId: string }) {
                   {contentProgress.slice(0, 5).map((item) => (
                     <TableRow key={item.id}>
                       <TableCell className="font-medium">
-                        {item.slides?.title || "Unknown Content"}
+                        <Link href={`/content/${item.slide_id}`} className="hover:underline">
+                          {item.slides?.title || "Unknown Content"}
+                        </Link>
+                      </TableCell>
+                      <TableCell>
+                        {item.completed ? (
+                          <span className="inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium bg-green-100 text-green-800">
+                            Completed
+                          </span>
+                        ) : (
+                          <span className="inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium bg-amber-100 text-amber-800">
+                            Page {item.last_position}
+                          </span>
+                        )}
                       </TableCell>
                       <TableCell>
-                        <span className="inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium bg-green-100 text-green-800">
-                          Completed
-                        </span>
+                        {item.updated_at && formatDistanceToNow(new Date(item.updated_at), { addSuffix: true })}
                       </TableCell>
-                      <TableCell>{formatDistanceToNow(new Date(item.updated_at), { addSuffix: true })}</TableCell>
                     </TableRow>
                   ))}
                 </TableBody>
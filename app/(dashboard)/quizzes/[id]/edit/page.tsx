@@ -0,0 +1,43 @@
+import { redirect } from "next/navigation"
+import { createServerSupabaseClient } from "@/lib/supabase/server"
+import { DashboardHeader } from "@/components/dashboard/header"
+import { DashboardShell } from "@/components/dashboard/shell"
+import { QuizEditor, type EditableQuiz } from "@/components/quiz/quiz-editor"
+
+interface EditQuizPageProps {
+  params: {
+    id: string
+  }
+}
+
+export default async function EditQuizPage({ params }: EditQuizPageProps) {
+  const supabase = createServerSupabaseClient()
+
+  const {
+    data: { session },
+  } = await supabase.auth.getSession()
+
+  if (!session) {
+    redirect("/login")
+  }
+
+  // Includes the answer key, so this fails for anyone but instructors and admins
+  const { data: quiz, error } = await supabase.rpc("get_quiz_for_editing", {
+    p_quiz_id: params.id,
+  })
+
+  if (error || !quiz) {
+    redirect("/quizzes")
+  }
+
+  const editableQuiz = quiz as unknown as EditableQuiz
+
+  return (
+    <DashboardShell>
+      <DashboardHeader heading="Edit Quiz" text={editableQuiz.title} />
+
+      {/* Saving bumps updated_at, which resets the editor to the saved questions */}
+      <QuizEditor key={editableQuiz.updated_at} quiz={editableQuiz} />
+    </DashboardShell>
+  )
+}
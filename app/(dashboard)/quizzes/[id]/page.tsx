@@ -2,15 +2,18 @@ import { redirect } from "next/navigation"
 import { createServerSupabaseClient } from "@/lib/supabase/server"
 import { DashboardHeader } from "@/components/dashboard/header"
 import { DashboardShell } from "@/components/dashboard/shell"
-import { QuizComponent } from "@/components/quiz/quiz-component"
+import { QuizComponent, type QuizAttempt } from "@/components/quiz/quiz-component"
 
 interface QuizPageProps {
   params: {
     id: string
   }
+  searchParams: {
+    retry?: string
+  }
 }
 
-export default async function QuizPage({ params }: QuizPageProps) {
+export default async function QuizPage({ params, searchParams }: QuizPageProps) {
   const supabase = createServerSupabaseClient()
 
   const {
@@ -28,18 +31,43 @@ export default async function QuizPage({ params }: QuizPageProps) {
     redirect("/quizzes")
   }
 
-  // Fetch quiz questions
-  const { data: questions } = await supabase
+  // Fetch the quiz's questions from the bank, without the answer key
+  const { data: quizQuestionRows } = await supabase
     .from("quiz_questions")
-    .select("*")
+    .select("questions(id, question_text, type, content)")
     .eq("quiz_id", params.id)
-    .order("order", { ascending: true })
+
+  // Resumes the attempt in progress, with its answers and remaining time, or starts one.
+  // When retrying a previous submission, the database asks only the questions it missed.
+  const { data: attemptData, error: attemptError } = await supabase.rpc("start_quiz_attempt", {
+    p_quiz_id: params.id,
+    p_retry_submission_id: searchParams.retry,
+  })
+
+  if (attemptError || !attemptData) {
+    console.error("Error starting quiz attempt:", attemptError)
+    redirect("/quizzes")
+  }
+
+  const attempt = attemptData as unknown as QuizAttempt
+
+  // The attempt decides which questions are asked and in what order
+  const questions = (quizQuestionRows || []).flatMap((row) => (row.questions ? [row.questions] : []))
+  const questionsById = new Map(questions.map((question) => [question.id, question]))
+  const quizQuestions = attempt.question_order.flatMap((id) => questionsById.get(id) ?? [])
 
   return (
     <DashboardShell>
-      <DashboardHeader heading={quiz.title} text={quiz.description} />
+      <DashboardHeader
+        heading={quiz.title}
+        text={
+          attempt.retry_of
+            ? `Retrying ${quizQuestions.length === 1 ? "1 question" : `${quizQuestions.length} questions`} you missed`
+            : quiz.description || undefined
+        }
+      />
 
-      <QuizComponent quiz={quiz} questions={questions || []} userId={session.user.id} />
+      <QuizComponent quiz={quiz} questions={quizQuestions} attempt={attempt} />
     </DashboardShell>
   )
 }
@@ -1,12 +1,10 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { useRouter } from "next/navigation";
 import { DashboardHeader } from "@/components/dashboard/header";
 import { DashboardShell } from "@/components/dashboard/shell";
 import {
   Card,
-  CardContent,
   CardDescription,
   CardFooter,
   CardHeader,
@@ -14,25 +12,22 @@ import {
 } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import Link from "next/link";
-import { Clock, FileText, RefreshCw } from "lucide-react";
-import { api } from "@/lib/api";
+import { Plus, RefreshCw } from "lucide-react";
+import { useSupabase } from "@/lib/supabase/provider";
+import { canAuthor } from "@/lib/roles";
+import { CourseSelect } from "@/components/courses/course-select";
+import { QuizCard, type QuizSummary } from "@/components/quiz/quiz-card";
 import { LoadingSpinner } from "@/components/ui/loading-spinner";
 import { ErrorMessage } from "@/components/ui/error-message";
 import { useToast } from "@/components/ui/use-toast";
 
-interface Quiz {
-  id: string;
-  title: string;
-  description: string;
-  time_limit: number;
-  question_count: number;
-  created_at: string;
-}
-
 export function QuizzesClient() {
-  const router = useRouter();
+  const { supabase, role } = useSupabase();
   const { toast } = useToast();
-  const [quizzes, setQuizzes] = useState<Quiz[]>([]);
+  const isAuthor = canAuthor(role);
+  const [quizzes, setQuizzes] = useState<QuizSummary[]>([]);
+  const [selectedCourse, setSelectedCourse] = useState("");
+  const [isEnrolled, setIsEnrolled] = useState(true);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<Error | null>(null);
 
@@ -41,15 +36,38 @@ export function QuizzesClient() {
     setError(null);
 
     try {
-      // Use the Supabase fallback for now until the API endpoint is implemented
-      // Later, replace with: const { data, error } = await api.getQuizzes();
-      const response = await fetch("/api/quizzes");
-      if (!response.ok) {
-        throw new Error("Failed to fetch quizzes");
+      let query = supabase
+        .from("quizzes")
+        .select(
+          "id, title, description, time_limit, question_count, questions_per_attempt, status, created_at, courses(code, name)"
+        )
+        .order("created_at", { ascending: false });
+
+      // Instructors see every quiz, drafts included; students only see
+      // published quizzes from the courses they are enrolled in
+      if (!isAuthor) {
+        const { data: enrollments, error: enrollmentsError } = await supabase
+          .from("enrollments")
+          .select("course_id");
+        if (enrollmentsError) {
+          throw new Error(enrollmentsError.message);
+        }
+
+        const courseIds = (enrollments || []).map((row) => row.course_id);
+        setIsEnrolled(courseIds.length > 0);
+        query = query.in("course_id", courseIds);
+      }
+
+      if (selectedCourse) {
+        query = query.eq("course_id", selectedCourse);
       }
 
-      const data = await response.json();
-      setQuizzes(data);
+      const { data, error: quizzesError } = await query.returns<QuizSummary[]>();
+      if (quizzesError) {
+        throw new Error(quizzesError.message);
+      }
+
+      setQuizzes(data || []);
     } catch (err) {
       console.error("Error fetching quizzes:", err);
       setError(
@@ -67,7 +85,7 @@ export function QuizzesClient() {
 
   useEffect(() => {
     fetchQuizzes();
-  }, []);
+  }, [selectedCourse, isAuthor]);
 
   const handleRefresh = () => {
     toast({
@@ -83,17 +101,36 @@ export function QuizzesClient() {
         heading="Quizzes"
         text="Take quizzes to test your knowledge and improve your learning classification."
       >
-        <Button
-          variant="outline"
-          size="sm"
-          onClick={handleRefresh}
-          disabled={isLoading}
-        >
-          <RefreshCw className="h-4 w-4 mr-2" />
-          Refresh
-        </Button>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleRefresh}
+            disabled={isLoading}
+          >
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Refresh
+          </Button>
+          {isAuthor && (
+            <Button size="sm" asChild>
+              <Link href="/quizzes/new">
+                <Plus className="h-4 w-4 mr-2" />
+                New Quiz
+              </Link>
+            </Button>
+          )}
+        </div>
       </DashboardHeader>
 
+      <div className="w-full md:w-[240px]">
+        <CourseSelect
+          value={selectedCourse}
+          onValueChange={setSelectedCourse}
+          allowAll
+          enrolledOnly={!isAuthor}
+        />
+      </div>
+
       {isLoading && (
         <div className="flex justify-center items-center min-h-[200px]">
           <LoadingSpinner size="lg" text="Loading quizzes..." />
@@ -116,15 +153,22 @@ export function QuizzesClient() {
       {!isLoading && !error && quizzes.length === 0 && (
         <Card className="my-4">
           <CardHeader>
-            <CardTitle>No quizzes available</CardTitle>
+            <CardTitle>
+              {isEnrolled ? "No quizzes available" : "No courses yet"}
+            </CardTitle>
             <CardDescription>
-              There are no quizzes available at the moment. Check back later or
-              generate a quiz from your content.
+              {isEnrolled
+                ? "There are no quizzes available at the moment. Check back later or generate a quiz from your content."
+                : "Quizzes are listed for the courses you are enrolled in. Enrol in a course to get started."}
             </CardDescription>
           </CardHeader>
           <CardFooter>
             <Button asChild className="w-full">
-              <Link href="/content">Go to Content</Link>
+              {isEnrolled ? (
+                <Link href="/content">Go to Content</Link>
+              ) : (
+                <Link href="/courses">Browse Courses</Link>
+              )}
             </Button>
           </CardFooter>
         </Card>
@@ -133,27 +177,7 @@ export function QuizzesClient() {
       {!isLoading && !error && quizzes.length > 0 && (
         <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
           {quizzes.map((quiz) => (
-            <Card key={quiz.id} className="flex flex-col">
-              <CardHeader>
-                <CardTitle>{quiz.title}</CardTitle>
-                <CardDescription>{quiz.description}</CardDescription>
-              </CardHeader>
-              <CardContent className="flex-1">
-                <div className="flex items-center space-x-2 text-sm text-muted-foreground">
-                  <Clock className="h-4 w-4" />
-                  <span>{quiz.time_limit} minutes</span>
-                </div>
-                <div className="mt-2 flex items-center space-x-2 text-sm text-muted-foreground">
-                  <FileText className="h-4 w-4" />
-                  <span>{quiz.question_count} questions</span>
-                </div>
-              </CardContent>
-              <CardFooter>
-                <Button asChild className="w-full">
-                  <Link href={`/quizzes/${quiz.id}`}>Start Quiz</Link>
-                </Button>
-              </CardFooter>
-            </Card>
+            <QuizCard key={quiz.id} quiz={quiz} canEdit={isAuthor} />
           ))}
         </div>
       )}
@@ -0,0 +1,25 @@
+import { redirect } from "next/navigation"
+import { createServerSupabaseClient } from "@/lib/supabase/server"
+import { DashboardHeader } from "@/components/dashboard/header"
+import { DashboardShell } from "@/components/dashboard/shell"
+import { QuizEditor } from "@/components/quiz/quiz-editor"
+
+export default async function NewQuizPage() {
+  const supabase = createServerSupabaseClient()
+
+  const {
+    data: { session },
+  } = await supabase.auth.getSession()
+
+  if (!session) {
+    redirect("/login")
+  }
+
+  return (
+    <DashboardShell>
+      <DashboardHeader heading="New Quiz" text="Write the questions, then publish the quiz when it's ready." />
+
+      <QuizEditor />
+    </DashboardShell>
+  )
+}
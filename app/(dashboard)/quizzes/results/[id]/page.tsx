@@ -0,0 +1,139 @@
+import { redirect } from "next/navigation"
+import Link from "next/link"
+import { createServerSupabaseClient } from "@/lib/supabase/server"
+import { DashboardHeader } from "@/components/dashboard/header"
+import { DashboardShell } from "@/components/dashboard/shell"
+import { QuizReview, type ReviewQuestion } from "@/components/quiz/quiz-review"
+import type { AttemptLayout } from "@/components/quiz/quiz-component"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { CheckCircle2, RotateCcw, XCircle } from "lucide-react"
+
+interface QuizResultsPageProps {
+  params: {
+    id: string
+  }
+}
+
+export default async function QuizResultsPage({ params }: QuizResultsPageProps) {
+  const supabase = createServerSupabaseClient()
+
+  const {
+    data: { session },
+  } = await supabase.auth.getSession()
+
+  if (!session) {
+    redirect("/login")
+  }
+
+  // RLS only returns the caller's own submissions
+  const { data: submission } = await supabase
+    .from("quiz_submissions")
+    .select("*, quizzes(title)")
+    .eq("id", params.id)
+    .single()
+
+  if (!submission) {
+    redirect("/quizzes")
+  }
+
+  const { data: review, error: reviewError } = await supabase.rpc("get_submission_review", {
+    p_submission_id: params.id,
+  })
+
+  if (reviewError) {
+    console.error("Error loading submission review:", reviewError)
+  }
+
+  // Shuffled quizzes are reviewed in the order the attempt showed them. Submissions made
+  // before attempts existed have none, and are reviewed in the quiz's order.
+  const { data: attempt } = await supabase
+    .from("quiz_attempts")
+    .select("id")
+    .eq("submission_id", params.id)
+    .maybeSingle()
+
+  let layout: AttemptLayout | undefined
+  if (attempt) {
+    const { data: state } = await supabase.rpc("attempt_state", { p_attempt_id: attempt.id })
+    layout = (state as unknown as AttemptLayout | null) ?? undefined
+  }
+
+  // Submitting reclassifies the student, so this already reflects the new result
+  const { data: classification } = await supabase
+    .from("classifications")
+    .select("classification")
+    .eq("user_id", session.user.id)
+    .maybeSingle()
+
+  const questions: ReviewQuestion[] = review || []
+  const missed = questions.filter((question) => !question.is_correct)
+  const total = submission.total_questions ?? questions.length
+  const correct = submission.correct_count ?? questions.length - missed.length
+
+  return (
+    <DashboardShell>
+      <DashboardHeader heading="Quiz Results" text={submission.quizzes?.title || "See how well you did on the quiz."} />
+
+      <Card className="mx-auto w-full max-w-md">
+        <CardHeader className="text-center">
+          <CardTitle className="text-3xl">Your Score: {submission.score}%</CardTitle>
+          <CardDescription>
+            You got {correct} out of {total} questions correct
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex justify-center">
+            {submission.score >= 70 ? (
+              <div className="flex flex-col items-center text-green-500">
+                <CheckCircle2 className="h-24 w-24" />
+                <p className="mt-2 text-lg font-medium">Great job!</p>
+              </div>
+            ) : (
+              <div className="flex flex-col items-center text-amber-500">
+                <XCircle className="h-24 w-24" />
+                <p className="mt-2 text-lg font-medium">Keep practicing!</p>
+              </div>
+            )}
+          </div>
+
+          <div className="rounded-lg bg-muted p-4 text-center">
+            {classification ? (
+              <p className="text-sm text-muted-foreground">
+                Based on your recent quizzes, your learning speed is{" "}
+                <span className="font-medium text-foreground">{classification.classification}</span>.
+              </p>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                Your learning classification will be updated based on your quiz performance.
+              </p>
+            )}
+          </div>
+        </CardContent>
+        <CardFooter className="flex flex-wrap justify-center gap-4">
+          {missed.length > 0 && (
+            <Button variant="secondary" asChild>
+              <Link href={`/quizzes/${submission.quiz_id}?retry=${submission.id}`}>
+                <RotateCcw className="mr-2 h-4 w-4" />
+                Retry {missed.length} missed
+              </Link>
+            </Button>
+          )}
+          <Button asChild>
+            <Link href="/dashboard">Back to Dashboard</Link>
+          </Button>
+          <Button variant="outline" asChild>
+            <Link href="/quizzes">More Quizzes</Link>
+          </Button>
+        </CardFooter>
+      </Card>
+
+      {questions.length > 0 && (
+        <div className="space-y-4">
+          <h2 className="px-2 text-xl font-semibold tracking-tight">Review your answers</h2>
+          <QuizReview questions={questions} layout={layout} />
+        </div>
+      )}
+    </DashboardShell>
+  )
+}
@@ -0,0 +1,125 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { api, type Migration } from "@/lib/api"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { ErrorMessage } from "@/components/ui/error-message"
+import { LoadingSpinner } from "@/components/ui/loading-spinner"
+import { AlertCircle, CheckCircle, Database, RefreshCw } from "lucide-react"
+
+const STATUS_VARIANTS: Record<Migration["status"], "default" | "secondary" | "destructive" | "outline"> = {
+  applied: "secondary",
+  pending: "default",
+  modified: "destructive",
+  missing: "outline",
+}
+
+export function MigrationStatus() {
+  const [migrations, setMigrations] = useState<Migration[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchMigrations = async () => {
+    setIsLoading(true)
+    setError(null)
+
+    const { data, error: fetchError } = await api.getMigrations()
+    if (fetchError) {
+      setError(fetchError.message)
+    } else {
+      setMigrations(data.migrations)
+    }
+    setIsLoading(false)
+  }
+
+  useEffect(() => {
+    fetchMigrations()
+  }, [])
+
+  const pending = migrations.filter((migration) => migration.status === "pending")
+  const modified = migrations.filter((migration) => migration.status === "modified")
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <Database className="h-5 w-5" />
+            Database Migrations
+          </CardTitle>
+          <CardDescription>
+            The schema is defined by supabase/migrations and applied in order by the migration runner.
+          </CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={fetchMigrations} disabled={isLoading}>
+          <RefreshCw className="h-4 w-4 mr-1" />
+          Refresh
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <ErrorMessage message={error} variant="destructive" onDismiss={() => setError(null)} />}
+
+        {isLoading ? (
+          <LoadingSpinner text="Checking migrations..." />
+        ) : (
+          !error && (
+            <>
+              {pending.length || modified.length ? (
+                <Alert variant={modified.length ? "destructive" : "default"}>
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertTitle>
+                    {pending.length} pending migration{pending.length === 1 ? "" : "s"}
+                    {modified.length ? `, ${modified.length} modified after being applied` : ""}
+                  </AlertTitle>
+                  <AlertDescription>
+                    Apply them from a machine with the database connection string:
+                    <code className="mt-2 block rounded bg-muted px-2 py-1 text-xs">
+                      DATABASE_URL=postgresql://... python -m api.migrations
+                    </code>
+                  </AlertDescription>
+                </Alert>
+              ) : (
+                <Alert>
+                  <CheckCircle className="h-4 w-4" />
+                  <AlertTitle>Up to date</AlertTitle>
+                  <AlertDescription>Every migration has been applied.</AlertDescription>
+                </Alert>
+              )}
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Migration</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Applied</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {migrations.map((migration) => (
+                    <TableRow key={migration.version}>
+                      <TableCell className="font-mono text-xs">
+                        {migration.version}_{migration.name}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={STATUS_VARIANTS[migration.status]} className="capitalize">
+                          {migration.status}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">
+                        {migration.applied_at ? new Date(migration.applied_at).toLocaleString() : "—"}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </>
+          )
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,68 @@
+"use client"
+
+import { useState } from "react"
+import { api } from "@/lib/api"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { useToast } from "@/components/ui/use-toast"
+import { Search } from "lucide-react"
+
+export function SearchIndex() {
+  const { toast } = useToast()
+  const [indexed, setIndexed] = useState(0)
+  const [isIndexing, setIsIndexing] = useState(false)
+
+  // The API indexes a few slides per call, so keep calling until none are left
+  const handleIndex = async () => {
+    setIsIndexing(true)
+    setIndexed(0)
+
+    let total = 0
+    while (true) {
+      const { data, error } = await api.indexSlidePages()
+
+      if (error) {
+        toast({
+          title: "Could not index slides",
+          description: error.message,
+          variant: "destructive",
+        })
+        break
+      }
+
+      total += data.indexed
+      setIndexed(total)
+
+      if (!data.more) {
+        toast({
+          title: "Search index up to date",
+          description: total === 1 ? "Indexed 1 slide." : `Indexed ${total} slides.`,
+        })
+        break
+      }
+    }
+
+    setIsIndexing(false)
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Search className="h-5 w-5" />
+          Search Index
+        </CardTitle>
+        <CardDescription>
+          Slides uploaded before search existed can only be found by their title and description until the text of
+          their pages is indexed. New uploads are indexed as they are processed.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex items-center gap-4">
+        <Button onClick={handleIndex} disabled={isIndexing}>
+          {isIndexing ? "Indexing..." : "Index older slides"}
+        </Button>
+        {isIndexing && <p className="text-sm text-muted-foreground">{indexed} indexed so far</p>}
+      </CardContent>
+    </Card>
+  )
+}
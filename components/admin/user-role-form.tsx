@@ -0,0 +1,94 @@
+"use client"
+
+import type React from "react"
+import { useState } from "react"
+import { useSupabase } from "@/lib/supabase/provider"
+import { ROLES, type Role } from "@/lib/roles"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useToast } from "@/components/ui/use-toast"
+import { Users } from "lucide-react"
+
+export function UserRoleForm() {
+  const { supabase } = useSupabase()
+  const { toast } = useToast()
+  const [email, setEmail] = useState("")
+  const [role, setRole] = useState<Role>("instructor")
+  const [isSaving, setIsSaving] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!email.trim()) return
+
+    setIsSaving(true)
+    const { error } = await supabase.rpc("set_user_role", { p_email: email.trim(), p_role: role })
+    setIsSaving(false)
+
+    if (error) {
+      toast({
+        title: "Could not change role",
+        description: error.message,
+        variant: "destructive",
+      })
+      return
+    }
+
+    toast({
+      title: "Role updated",
+      description: `${email.trim()} is now ${role === "admin" ? "an" : "a"} ${role}.`,
+    })
+    setEmail("")
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Users className="h-5 w-5" />
+          User Roles
+        </CardTitle>
+        <CardDescription>
+          Students can read content and take quizzes. Instructors can also upload slides, create courses and
+          generate quizzes. Admins can additionally manage roles.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="flex flex-col gap-4 sm:flex-row sm:items-end">
+          <div className="flex-1 space-y-2">
+            <Label htmlFor="role-email">Email</Label>
+            <Input
+              id="role-email"
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="someone@example.com"
+              disabled={isSaving}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="role-select">Role</Label>
+            <Select value={role} onValueChange={(value) => setRole(value as Role)} disabled={isSaving}>
+              <SelectTrigger id="role-select" className="w-[160px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ROLES.map((option) => (
+                  <SelectItem key={option} value={option} className="capitalize">
+                    {option}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button type="submit" disabled={isSaving}>
+            {isSaving ? "Saving..." : "Set role"}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
@@ -5,14 +5,17 @@ import type React from "react"
 import { useEffect, useState } from "react"
 import { useRouter } from "next/navigation"
 import { useSupabase } from "@/lib/supabase/provider"
+import type { Role } from "@/lib/roles"
 import { Loader2 } from "lucide-react"
 
 interface AuthGuardProps {
   children: React.ReactNode
+  // When set, only users with one of these roles are let through
+  roles?: Role[]
 }
 
-export function AuthGuard({ children }: AuthGuardProps) {
-  const { session, isLoading } = useSupabase()
+export function AuthGuard({ children, roles }: AuthGuardProps) {
+  const { session, isLoading, role } = useSupabase()
   const router = useRouter()
   const [isAuthorized, setIsAuthorized] = useState(false)
 
@@ -21,11 +24,16 @@ export function AuthGuard({ children }: AuthGuardProps) {
       if (!session) {
         console.log("AuthGuard: No session, redirecting to login")
         router.replace("/login")
+      } else if (roles && !role) {
+        // Wait for the role to load before deciding
+        return
+      } else if (roles && role && !roles.includes(role)) {
+        router.replace("/dashboard")
       } else {
         setIsAuthorized(true)
       }
     }
-  }, [session, isLoading, router])
+  }, [session, isLoading, role, roles, router])
 
   if (isLoading) {
     return (
@@ -43,7 +51,7 @@ export function AuthGuard({ children }: AuthGuardProps) {
       <div className="flex h-[50vh] items-center justify-center">
         <div className="flex flex-col items-center gap-2">
           <Loader2 className="h-8 w-8 animate-spin text-primary" />
-          <p className="text-sm text-muted-foreground">Redirecting to login...</p>
+          <p className="text-sm text-muted-foreground">{session ? "Checking permissions..." : "Redirecting to login..."}</p>
         </div>
       </div>
     )
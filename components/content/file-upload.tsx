@@ -2,34 +2,189 @@
 
 import type React from "react";
 
-import { useState, useRef } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useSupabase } from "@/lib/supabase/provider";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/components/ui/use-toast";
 import { Progress } from "@/components/ui/progress";
-import { FileUp, X } from "lucide-react";
-import { LoadingSpinner, LoadingButton } from "@/components/ui/loading-spinner";
+import {
+  CheckCircle,
+  FileUp,
+  FolderUp,
+  Loader2,
+  Pause,
+  Play,
+  RotateCcw,
+  X,
+} from "lucide-react";
 import { ErrorMessage } from "@/components/ui/error-message";
+import { CourseSelect } from "@/components/courses/course-select";
+import {
+  MAX_FILE_SIZE,
+  RESUMABLE_THRESHOLD,
+  UploadAbortedError,
+  filesFromDataTransfer,
+  findPreviousUpload,
+  formatFileSize,
+  titleFromFileName,
+  uploadFile,
+  validateFile,
+} from "@/lib/upload";
+import {
+  ACCEPTED_EXTENSIONS,
+  fileTypeLabel,
+  fileTypeOf,
+  needsConversion,
+  needsProcessing,
+} from "@/lib/file-types";
 import { api } from "@/lib/api";
 
+type UploadStatus =
+  | "queued"
+  | "uploading"
+  | "processing"
+  | "paused"
+  | "done"
+  | "failed";
+
+interface UploadItem {
+  id: string;
+  file: File;
+  title: string;
+  description: string;
+  status: UploadStatus;
+  // Percentage of bytes sent
+  progress: number;
+  // Part of this file was uploaded by an earlier, interrupted attempt
+  canResume?: boolean;
+  error?: string;
+  // The file was saved, but something after it (e.g. conversion) went wrong
+  warning?: string;
+}
+
+export interface UploadSummary {
+  uploaded: number;
+  failed: number;
+  paused: number;
+}
+
 interface FileUploadProps {
-  onUploadComplete: (fileUrl: string, metadata: any) => void;
+  onUploadComplete: (summary: UploadSummary) => void;
 }
 
+const STATUS_LABELS: Record<UploadStatus, string> = {
+  queued: "Queued",
+  uploading: "Uploading",
+  processing: "Processing",
+  paused: "Paused",
+  done: "Uploaded",
+  failed: "Failed",
+};
+
 export function FileUpload({ onUploadComplete }: FileUploadProps) {
-  const { supabase } = useSupabase();
+  const { supabase, session } = useSupabase();
   const { toast } = useToast();
   const [isDragging, setIsDragging] = useState(false);
-  const [isUploading, setIsUploading] = useState(false);
-  const [uploadProgress, setUploadProgress] = useState(0);
-  const [title, setTitle] = useState("");
-  const [description, setDescription] = useState("");
   const [courseId, setCourseId] = useState("");
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [items, setItems] = useState<UploadItem[]>([]);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [summary, setSummary] = useState<UploadSummary | null>(null);
   const [error, setError] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  // The queue runs in an async loop, which reads the latest items from a ref
+  const itemsRef = useRef<UploadItem[]>([]);
+  const processingRef = useRef(false);
+  const abortControllers = useRef(new Map<string, AbortController>());
+
+  useEffect(() => {
+    // Not in React's input typings, so set it directly
+    folderInputRef.current?.setAttribute("webkitdirectory", "");
+  }, []);
+
+  useEffect(() => {
+    if (!isProcessing) return;
+
+    // Large files resume after a reload, but warn before interrupting them
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault();
+      e.returnValue = "";
+    };
+    window.addEventListener("beforeunload", handleBeforeUnload);
+    return () => window.removeEventListener("beforeunload", handleBeforeUnload);
+  }, [isProcessing]);
+
+  useEffect(() => {
+    const controllers = abortControllers.current;
+    // Stop in-flight uploads if the form is closed mid-batch
+    return () => controllers.forEach((controller) => controller.abort());
+  }, []);
+
+  const commitItems = (next: UploadItem[]) => {
+    itemsRef.current = next;
+    setItems(next);
+  };
+
+  const updateItem = (id: string, patch: Partial<UploadItem>) => {
+    commitItems(
+      itemsRef.current.map((item) =>
+        item.id === id ? { ...item, ...patch } : item
+      )
+    );
+  };
+
+  const addFiles = (files: File[]) => {
+    setError(null);
+    setSummary(null);
+
+    const skipped: string[] = [];
+    const added: UploadItem[] = [];
+
+    for (const file of files) {
+      const problem = validateFile(file);
+      if (problem) {
+        skipped.push(file.name);
+        continue;
+      }
+      added.push({
+        id: `${file.name}-${file.size}-${file.lastModified}-${Math.random()
+          .toString(36)
+          .substring(2, 8)}`,
+        file,
+        title: titleFromFileName(file.name),
+        description: "",
+        status: "queued",
+        progress: 0,
+      });
+    }
+
+    if (skipped.length > 0) {
+      toast({
+        title: `Skipped ${skipped.length} file${skipped.length === 1 ? "" : "s"}`,
+        description: `Only PDF, PowerPoint, Word and image files under ${formatFileSize(
+          MAX_FILE_SIZE
+        )} can be uploaded.`,
+        variant: "destructive",
+      });
+    }
+
+    commitItems([...itemsRef.current, ...added]);
+
+    // Flag files that an earlier session (e.g. before a reload) started uploading
+    for (const item of added) {
+      findPreviousUpload(item.file, "content")
+        .then((previous) => {
+          if (previous) updateItem(item.id, { canResume: true });
+        })
+        .catch(() => {
+          // Without stored uploads the file simply starts from the beginning
+        });
+    }
+  };
 
   const handleDragEnter = (e: React.DragEvent) => {
     e.preventDefault();
@@ -48,198 +203,203 @@ export function FileUpload({ onUploadComplete }: FileUploadProps) {
     e.stopPropagation();
   };
 
-  const handleDrop = (e: React.DragEvent) => {
+  const handleDrop = async (e: React.DragEvent) => {
     e.preventDefault();
     e.stopPropagation();
     setIsDragging(false);
 
-    if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
-      handleFileSelect(e.dataTransfer.files[0]);
-    }
-  };
-
-  const handleFileSelect = (file: File) => {
-    // Reset error state
-    setError(null);
-
-    // Check if file is PDF or image
-    const validTypes = [
-      "application/pdf",
-      "image/jpeg",
-      "image/png",
-      "image/gif",
-    ];
-    if (!validTypes.includes(file.type)) {
-      setError("Please upload a PDF or image file (JPEG, PNG, GIF).");
-      toast({
-        title: "Invalid file type",
-        description: "Please upload a PDF or image file (JPEG, PNG, GIF).",
-        variant: "destructive",
-      });
-      return;
-    }
-
-    // Check file size (max 10MB)
-    if (file.size > 10 * 1024 * 1024) {
-      setError("Please upload a file smaller than 10MB.");
-      toast({
-        title: "File too large",
-        description: "Please upload a file smaller than 10MB.",
-        variant: "destructive",
-      });
-      return;
-    }
-
-    setSelectedFile(file);
+    addFiles(await filesFromDataTransfer(e.dataTransfer));
   };
 
   const handleFileInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
-      handleFileSelect(e.target.files[0]);
+      addFiles(Array.from(e.target.files));
     }
+    // Allow selecting the same files again later
+    e.target.value = "";
   };
 
-  const handleRemoveFile = () => {
-    setSelectedFile(null);
-    if (fileInputRef.current) {
-      fileInputRef.current.value = "";
-    }
+  const itemProgress = (id: string) =>
+    itemsRef.current.find((item) => item.id === id)?.progress ?? 0;
+
+  const handleRemoveItem = (id: string) => {
+    commitItems(itemsRef.current.filter((item) => item.id !== id));
   };
 
-  const handleUpload = async () => {
-    // Reset error state
-    setError(null);
+  const uploadItem = async (item: UploadItem) => {
+    const controller = new AbortController();
+    abortControllers.current.set(item.id, controller);
+    updateItem(item.id, {
+      status: "uploading",
+      error: undefined,
+      warning: undefined,
+    });
+    const fileType = fileTypeOf(item.file);
 
-    if (!selectedFile) {
-      setError("Please select a file to upload.");
-      toast({
-        title: "No file selected",
-        description: "Please select a file to upload.",
-        variant: "destructive",
+    try {
+      const filePath = await uploadFile({
+        bucket: "content",
+        file: item.file,
+        getAccessToken: async () => {
+          const { data } = await supabase.auth.getSession();
+          if (!data.session) {
+            throw new Error("Your session has expired. Please sign in again.");
+          }
+          return data.session.access_token;
+        },
+        signal: controller.signal,
+        onProgress: (loaded, total) =>
+          updateItem(item.id, {
+            progress: total > 0 ? Math.round((loaded / total) * 100) : 0,
+          }),
       });
-      return;
-    }
 
-    if (!title.trim()) {
-      setError("Please enter a title for your slide.");
-      toast({
-        title: "Title required",
-        description: "Please enter a title for your slide.",
-        variant: "destructive",
-      });
-      return;
-    }
+      const {
+        data: { publicUrl },
+      } = supabase.storage.from("content").getPublicUrl(filePath);
 
-    if (!courseId.trim()) {
-      setError("Please enter a course ID for your slide.");
-      toast({
-        title: "Course ID required",
-        description: "Please enter a course ID for your slide.",
-        variant: "destructive",
-      });
-      return;
-    }
+      // Save metadata to database
+      const { data: slide, error: dbError } = await supabase
+        .from("slides")
+        .insert([
+          {
+            title: item.title.trim() || titleFromFileName(item.file.name),
+            description: item.description,
+            course_id: courseId,
+            file_path: filePath,
+            file_url: publicUrl,
+            file_type: fileType,
+            file_size: item.file.size,
+            uploaded_by: session?.user.id,
+            conversion_status: needsConversion(fileType) ? "pending" : null,
+          },
+        ])
+        .select("id")
+        .single();
+
+      if (dbError || !slide) {
+        // Don't leave an orphaned file behind when the row can't be saved
+        await supabase.storage.from("content").remove([filePath]);
+        throw dbError || new Error("The slide could not be saved.");
+      }
 
-    setIsUploading(true);
-    setUploadProgress(0);
+      // The API renders the thumbnail, and converts presentations and
+      // documents to a PDF for viewing
+      let warning: string | undefined;
+      if (needsProcessing(fileType)) {
+        updateItem(item.id, { status: "processing", progress: 100 });
+        const { error: processError } = await api.processContent(slide.id);
+        if (processError) {
+          warning = `Uploaded, but the ${
+            needsConversion(fileType) ? "preview" : "thumbnail"
+          } could not be created: ${processError.message}`;
+        }
+      }
 
-    try {
-      // Create form data for API
-      const formData = new FormData();
-      formData.append("file", selectedFile);
-      formData.append("title", title);
-      formData.append("description", description);
-      formData.append("courseId", courseId);
-
-      // Set up progress tracking
-      const progressInterval = setInterval(() => {
-        setUploadProgress((prev) => {
-          const newProgress = prev + 5;
-          return newProgress < 90 ? newProgress : prev;
+      updateItem(item.id, {
+        status: "done",
+        progress: 100,
+        canResume: false,
+        warning,
+      });
+    } catch (error: any) {
+      // Small files restart from zero; large ones keep their uploaded chunks
+      const resumable = item.file.size > RESUMABLE_THRESHOLD;
+      if (error instanceof UploadAbortedError) {
+        updateItem(item.id, {
+          status: "paused",
+          progress: resumable ? itemProgress(item.id) : 0,
+          canResume: resumable,
+        });
+      } else {
+        updateItem(item.id, {
+          status: "failed",
+          canResume: resumable,
+          error: error.message || "An error occurred during upload.",
         });
-      }, 100);
-
-      // For now, we'll use Supabase directly since the API endpoint isn't fully implemented
-      // In the future, replace with: const { data, error } = await api.uploadSlide(formData);
-
-      // Create a unique file name
-      const fileExt = selectedFile.name.split(".").pop();
-      const fileName = `${Date.now()}-${Math.random()
-        .toString(36)
-        .substring(2, 15)}.${fileExt}`;
-      const filePath = `slides/${fileName}`;
-
-      // Upload file to Supabase Storage
-      const { data, error } = await supabase.storage
-        .from("content")
-        .upload(filePath, selectedFile);
-
-      clearInterval(progressInterval);
-
-      if (error) {
-        throw error;
       }
+    } finally {
+      abortControllers.current.delete(item.id);
+    }
+  };
 
-      setUploadProgress(100);
+  const processQueue = async () => {
+    if (processingRef.current) return;
+    processingRef.current = true;
+    setIsProcessing(true);
+    setSummary(null);
+
+    // Files upload one at a time so each gets the full bandwidth
+    let next = itemsRef.current.find((item) => item.status === "queued");
+    while (next) {
+      await uploadItem(next);
+      next = itemsRef.current.find((item) => item.status === "queued");
+    }
 
-      // Get the public URL
-      const {
-        data: { publicUrl },
-      } = supabase.storage.from("content").getPublicUrl(filePath);
+    processingRef.current = false;
+    setIsProcessing(false);
 
-      // Save metadata to database
-      const { error: dbError } = await supabase.from("slides").insert([
-        {
-          title,
-          description,
-          course_id: courseId,
-          file_path: filePath,
-          file_url: publicUrl,
-          file_type: selectedFile.type,
-          file_size: selectedFile.size,
-        },
-      ]);
+    const result: UploadSummary = {
+      uploaded: itemsRef.current.filter((item) => item.status === "done").length,
+      failed: itemsRef.current.filter((item) => item.status === "failed").length,
+      paused: itemsRef.current.filter((item) => item.status === "paused").length,
+    };
+    setSummary(result);
 
-      if (dbError) {
-        throw dbError;
-      }
+    toast({
+      title: result.failed ? "Upload finished with errors" : "Upload complete",
+      description: describeSummary(result),
+      variant: result.failed ? "destructive" : "default",
+    });
 
-      toast({
-        title: "Upload successful",
-        description: "Your slide has been uploaded successfully.",
-      });
+    onUploadComplete(result);
+  };
 
-      // Call the callback with the file URL and metadata
-      onUploadComplete(publicUrl, {
-        title,
-        description,
-        courseId,
-        fileName: selectedFile.name,
-        fileType: selectedFile.type,
-        fileSize: selectedFile.size,
-        filePath: filePath,
-      });
+  const handleUpload = () => {
+    setError(null);
 
-      // Reset form
-      setSelectedFile(null);
-      setTitle("");
-      setDescription("");
-      setCourseId("");
-      if (fileInputRef.current) {
-        fileInputRef.current.value = "";
-      }
-    } catch (error: any) {
-      setError(error.message || "An error occurred during upload.");
+    if (!itemsRef.current.some((item) => item.status === "queued")) {
+      setError("Please add at least one file to upload.");
+      return;
+    }
+
+    if (!courseId) {
+      setError("Please select a course for your slides.");
       toast({
-        title: "Upload failed",
-        description: error.message || "An error occurred during upload.",
+        title: "Course required",
+        description: "Please select a course for your slides.",
         variant: "destructive",
       });
-    } finally {
-      setIsUploading(false);
+      return;
     }
+
+    processQueue();
+  };
+
+  const handlePause = (id: string) => {
+    abortControllers.current.get(id)?.abort();
+  };
+
+  // Resuming a paused file and retrying a failed one both put it back in the queue
+  const handleRequeue = (id: string) => {
+    updateItem(id, {
+      status: "queued",
+      progress: itemsRef.current.find((item) => item.id === id)?.canResume
+        ? itemProgress(id)
+        : 0,
+      error: undefined,
+    });
+    processQueue();
+  };
+
+  const handleClearFinished = () => {
+    commitItems(itemsRef.current.filter((item) => item.status !== "done"));
+    setSummary(null);
   };
 
+  const queuedCount = items.filter((item) => item.status === "queued").length;
+  const doneCount = items.filter((item) => item.status === "done").length;
+
   return (
     <div className="space-y-6">
       {error && (
@@ -261,104 +421,223 @@ export function FileUpload({ onUploadComplete }: FileUploadProps) {
           type="file"
           className="file-input"
           onChange={handleFileInputChange}
-          accept=".pdf,.jpg,.jpeg,.png,.gif"
-          disabled={isUploading}
+          accept={ACCEPTED_EXTENSIONS}
+          multiple
           ref={fileInputRef}
         />
+        <input
+          type="file"
+          className="hidden"
+          onChange={handleFileInputChange}
+          ref={folderInputRef}
+        />
         <div className="flex flex-col items-center justify-center text-center">
           <FileUp className="h-12 w-12 text-primary/50 mb-4" />
           <h3 className="text-lg font-medium mb-2">
-            Drag and drop your slides here
+            Drag and drop slides or a folder here
           </h3>
           <p className="text-sm text-muted-foreground mb-4">
-            Support for PDF, JPEG, PNG, and GIF files. Max file size: 10MB.
+            Support for PDF, PowerPoint, Word, JPEG, PNG, and GIF files (export
+            Keynote decks to PowerPoint first). Max file size:{" "}
+            {formatFileSize(MAX_FILE_SIZE)}. Large files upload in resumable
+            chunks.
           </p>
-          <Button
-            type="button"
-            variant="outline"
-            onClick={() => fileInputRef.current?.click()}
-            disabled={isUploading}
-          >
-            Select File
-          </Button>
-        </div>
-      </div>
-
-      {selectedFile && (
-        <div className="bg-muted p-4 rounded-lg">
-          <div className="flex items-center justify-between mb-2">
-            <div className="font-medium">{selectedFile.name}</div>
+          {/* Above the full-size file input so the folder button gets its own clicks */}
+          <div className="relative z-10 flex gap-2">
             <Button
-              variant="ghost"
-              size="icon"
-              onClick={handleRemoveFile}
-              disabled={isUploading}
+              type="button"
+              variant="outline"
+              onClick={() => fileInputRef.current?.click()}
             >
-              <X className="h-4 w-4" />
-              <span className="sr-only">Remove file</span>
+              Select Files
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => folderInputRef.current?.click()}
+            >
+              <FolderUp className="h-4 w-4 mr-1" />
+              Select Folder
             </Button>
-          </div>
-          <div className="text-sm text-muted-foreground">
-            {(selectedFile.size / 1024 / 1024).toFixed(2)} MB •{" "}
-            {selectedFile.type}
           </div>
         </div>
-      )}
+      </div>
 
-      <div className="space-y-4">
-        <div className="space-y-2">
-          <Label htmlFor="title">Slide Title *</Label>
-          <Input
-            id="title"
-            value={title}
-            onChange={(e) => setTitle(e.target.value)}
-            placeholder="Enter a title for your slide"
-            disabled={isUploading}
-            required
-          />
-        </div>
+      <div className="space-y-2">
+        <Label htmlFor="courseId">Course *</Label>
+        <CourseSelect
+          id="courseId"
+          value={courseId}
+          onValueChange={setCourseId}
+          disabled={isProcessing}
+        />
+        <p className="text-xs text-muted-foreground">
+          Every file in this batch is added to the selected course.
+        </p>
+      </div>
 
-        <div className="space-y-2">
-          <Label htmlFor="courseId">Course ID *</Label>
-          <Input
-            id="courseId"
-            value={courseId}
-            onChange={(e) => setCourseId(e.target.value)}
-            placeholder="Enter the course ID"
-            disabled={isUploading}
-            required
-          />
-        </div>
+      {items.length > 0 && (
+        <div className="space-y-3">
+          <div className="flex items-center justify-between text-sm">
+            <span className="font-medium">
+              {items.length} file{items.length === 1 ? "" : "s"} ({doneCount}{" "}
+              uploaded)
+            </span>
+            {doneCount > 0 && !isProcessing && (
+              <Button variant="ghost" size="sm" onClick={handleClearFinished}>
+                Clear uploaded
+              </Button>
+            )}
+          </div>
 
-        <div className="space-y-2">
-          <Label htmlFor="description">Description</Label>
-          <Input
-            id="description"
-            value={description}
-            onChange={(e) => setDescription(e.target.value)}
-            placeholder="Enter a description (optional)"
-            disabled={isUploading}
-          />
+          {items.map((item) => (
+            <div key={item.id} className="bg-muted p-4 rounded-lg space-y-3">
+              <div className="flex items-center justify-between gap-2">
+                <div className="min-w-0">
+                  <div className="font-medium truncate">{item.file.name}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {formatFileSize(item.file.size)} •{" "}
+                    {fileTypeLabel(fileTypeOf(item.file))}
+                    {item.canResume &&
+                      item.status !== "uploading" &&
+                      " • Resumes where it left off"}
+                  </div>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  <Badge
+                    variant={item.status === "failed" ? "destructive" : "outline"}
+                  >
+                    {item.status === "done" && (
+                      <CheckCircle className="h-3 w-3 mr-1" />
+                    )}
+                    {STATUS_LABELS[item.status]}
+                  </Badge>
+                  {item.status === "processing" && (
+                    <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                  )}
+                  {item.status === "uploading" && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handlePause(item.id)}
+                    >
+                      <Pause className="h-4 w-4" />
+                      <span className="sr-only">Pause upload</span>
+                    </Button>
+                  )}
+                  {item.status === "paused" && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleRequeue(item.id)}
+                      disabled={!courseId}
+                    >
+                      <Play className="h-4 w-4" />
+                      <span className="sr-only">Resume upload</span>
+                    </Button>
+                  )}
+                  {item.status === "failed" && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleRequeue(item.id)}
+                      disabled={!courseId}
+                    >
+                      <RotateCcw className="h-4 w-4" />
+                      <span className="sr-only">Retry upload</span>
+                    </Button>
+                  )}
+                  {(item.status === "queued" ||
+                    item.status === "paused" ||
+                    item.status === "failed") && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleRemoveItem(item.id)}
+                    >
+                      <X className="h-4 w-4" />
+                      <span className="sr-only">Remove file</span>
+                    </Button>
+                  )}
+                </div>
+              </div>
+
+              {(item.status === "queued" || item.status === "paused" || item.status === "failed") && (
+                <div className="grid gap-2 sm:grid-cols-2">
+                  <div className="space-y-1">
+                    <Label htmlFor={`title-${item.id}`} className="text-xs">
+                      Title
+                    </Label>
+                    <Input
+                      id={`title-${item.id}`}
+                      value={item.title}
+                      onChange={(e) =>
+                        updateItem(item.id, { title: e.target.value })
+                      }
+                      placeholder="Slide title"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor={`description-${item.id}`} className="text-xs">
+                      Description
+                    </Label>
+                    <Input
+                      id={`description-${item.id}`}
+                      value={item.description}
+                      onChange={(e) =>
+                        updateItem(item.id, { description: e.target.value })
+                      }
+                      placeholder="Optional"
+                    />
+                  </div>
+                </div>
+              )}
+
+              {item.status === "uploading" && (
+                <div className="space-y-1">
+                  <div className="flex justify-between text-xs text-muted-foreground">
+                    <span>{item.title}</span>
+                    <span>{item.progress}%</span>
+                  </div>
+                  <Progress value={item.progress} className="h-2" />
+                </div>
+              )}
+
+              {item.status === "failed" && item.error && (
+                <p className="text-xs text-destructive">{item.error}</p>
+              )}
+
+              {item.status === "done" && item.warning && (
+                <p className="text-xs text-amber-600">{item.warning}</p>
+              )}
+            </div>
+          ))}
         </div>
-      </div>
+      )}
 
-      {isUploading && (
-        <div className="space-y-2">
-          <div className="flex justify-between text-sm">
-            <span>Uploading...</span>
-            <span>{uploadProgress}%</span>
-          </div>
-          <Progress value={uploadProgress} className="h-2" />
+      {summary && !isProcessing && (
+        <div className="rounded-lg border p-4 text-sm">
+          <p className="font-medium">Batch finished</p>
+          <p className="text-muted-foreground">{describeSummary(summary)}</p>
         </div>
       )}
 
       <Button
         className="w-full"
         onClick={handleUpload}
-        disabled={!selectedFile || isUploading}
+        disabled={queuedCount === 0 || isProcessing}
       >
-        {isUploading ? "Uploading..." : "Upload Slide"}
+        {isProcessing
+          ? "Uploading..."
+          : `Upload ${queuedCount || ""} Slide${queuedCount === 1 ? "" : "s"}`}
       </Button>
     </div>
   );
 }
+
+function describeSummary({ uploaded, failed, paused }: UploadSummary) {
+  const parts = [`${uploaded} uploaded`];
+  if (failed) parts.push(`${failed} failed`);
+  if (paused) parts.push(`${paused} paused`);
+  return `${parts.join(", ")}.`;
+}
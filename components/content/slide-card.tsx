@@ -1,3 +1,5 @@
+"use client";
+
 import {
   Card,
   CardContent,
@@ -7,7 +9,15 @@ import {
 } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { FileText, Download, Eye, Clock, Trash, Loader2 } from "lucide-react";
+import {
+  FileText,
+  Download,
+  Eye,
+  Clock,
+  Trash,
+  Loader2,
+  Sparkles,
+} from "lucide-react";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -20,33 +30,113 @@ import {
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
 import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useToast } from "@/components/ui/use-toast";
+import { api, AuthError } from "@/lib/api";
+import { canAuthor } from "@/lib/roles";
+import { fileKind, fileTypeLabel, needsConversion } from "@/lib/file-types";
+import { useSupabase } from "@/lib/supabase/provider";
+import { SlideThumbnail } from "@/components/content/slide-thumbnail";
+import type { Tables } from "@/types/supabase";
+
+/**
+ * A row from public.search_slides. The snippet marks matches with <mark></mark>.
+ */
+export interface SlideSearchMatch {
+  slide_id: string;
+  rank: number;
+  // Best matching page, or null when only the title or description matched
+  page_number: number | null;
+  snippet: string;
+}
+
+/**
+ * A slide as listed on the content and course pages, selected with
+ * "*, courses(code, name), uploader:profiles(name)"
+ */
+export type SlideWithRelations = Tables<"slides"> & {
+  courses: Pick<Tables<"courses">, "code" | "name"> | null;
+  uploader: Pick<Tables<"profiles">, "name"> | null;
+  // Present when the card is a search result
+  search_match?: SlideSearchMatch;
+};
 
 interface SlideCardProps {
-  slide: {
-    id: string;
-    title: string;
-    description?: string;
-    course_id: string;
-    file_url: string;
-    file_type: string;
-    file_path?: string;
-    created_at: string;
-  };
-  onDelete?: (slideId: string, filePath: string) => Promise<void>;
+  slide: SlideWithRelations;
+  // Receives every storage object belonging to the slide
+  onDelete?: (slideId: string, filePaths: string[]) => Promise<void>;
 }
 
 export function SlideCard({ slide, onDelete }: SlideCardProps) {
   const [isDeleting, setIsDeleting] = useState(false);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
-  const isImage = slide.file_type.startsWith("image/");
-  const isPdf = slide.file_type === "application/pdf";
-  const formattedDate = new Date(slide.created_at).toLocaleDateString();
+  const [isGenerating, setIsGenerating] = useState(false);
+  const router = useRouter();
+  const { toast } = useToast();
+  const { supabase, role, session } = useSupabase();
+  // Only the uploader or an admin may delete, matching the RLS policy
+  const canDelete =
+    !!onDelete &&
+    ((!!slide.uploaded_by && slide.uploaded_by === session?.user.id) ||
+      role === "admin");
+  // Older rows may have no recorded type
+  const fileType = slide.file_type || "";
+  const isImage = fileType.startsWith("image/");
+  const isPdf = fileType === "application/pdf";
+  const isConverted =
+    needsConversion(fileType) && slide.conversion_status === "ready";
+  const isConverting =
+    slide.conversion_status === "pending" ||
+    slide.conversion_status === "processing";
+  const kind = fileKind(fileType);
+  const thumbnailUrl = slide.thumbnail_path
+    ? supabase.storage.from("content").getPublicUrl(slide.thumbnail_path).data
+        .publicUrl
+    : null;
+  const formattedDate = slide.created_at
+    ? new Date(slide.created_at).toLocaleDateString()
+    : null;
+  const match = slide.search_match;
+  const viewHref = match?.page_number
+    ? `/content/${slide.id}?page=${match.page_number}`
+    : `/content/${slide.id}`;
+
+  // Shown until a thumbnail exists, or when it can't be loaded
+  const placeholder = (
+    <div className="flex flex-col items-center justify-center">
+      {isConverting ? (
+        <Loader2 className="h-12 w-12 text-primary/50 animate-spin" />
+      ) : (
+        <FileText className="h-12 w-12 text-primary/50" />
+      )}
+      <span className="text-sm text-muted-foreground mt-2">
+        {isConverting
+          ? "Converting for preview..."
+          : slide.conversion_status === "failed"
+          ? "Preview unavailable"
+          : isPdf
+          ? "PDF Document"
+          : kind === "presentation"
+          ? "Presentation"
+          : "Document"}
+      </span>
+    </div>
+  );
 
   const handleDelete = async () => {
     if (onDelete) {
       setIsDeleting(true);
       try {
-        await onDelete(slide.id, slide.file_path || "");
+        await onDelete(
+          slide.id,
+          [
+            slide.file_path,
+            slide.preview_path,
+            slide.thumbnail_path,
+            ...(slide.page_thumbnails || []),
+          ].filter((path): path is string => !!path)
+        );
         // Automatically close the dialog when deletion is successful
         setIsDialogOpen(false);
       } catch (error) {
@@ -58,56 +148,105 @@ export function SlideCard({ slide, onDelete }: SlideCardProps) {
     }
   };
 
+  const handleGenerateQuiz = async () => {
+    setIsGenerating(true);
+    const { data, error } = await api.generateQuiz(slide.id, {
+      questionCount: 5,
+    });
+    setIsGenerating(false);
+
+    if (error) {
+      toast({
+        title:
+          error instanceof AuthError
+            ? "You can't generate quizzes"
+            : "Quiz generation failed",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "Quiz generated",
+      description: `"${data.quiz.title}" is ready with ${data.quiz.question_count} questions.`,
+    });
+    router.push(`/quizzes/${data.quiz.id}`);
+  };
+
   return (
     <Card className="slide-card overflow-hidden">
       <div className="aspect-video bg-muted relative flex items-center justify-center">
         {isImage ? (
-          <img
+          <SlideThumbnail
             src={slide.file_url || "/placeholder.svg"}
             alt={slide.title}
-            className="object-cover w-full h-full"
+            className="object-cover"
+            fallback={placeholder}
+          />
+        ) : thumbnailUrl ? (
+          <SlideThumbnail
+            src={thumbnailUrl}
+            alt={`First page of ${slide.title}`}
+            className="object-contain"
+            fallback={placeholder}
           />
-        ) : isPdf ? (
-          <div className="flex flex-col items-center justify-center">
-            <FileText className="h-12 w-12 text-primary/50" />
-            <span className="text-sm text-muted-foreground mt-2">
-              PDF Document
-            </span>
-          </div>
         ) : (
-          <div className="flex flex-col items-center justify-center">
-            <FileText className="h-12 w-12 text-primary/50" />
-            <span className="text-sm text-muted-foreground mt-2">Document</span>
-          </div>
+          placeholder
         )}
+        <Badge
+          variant="secondary"
+          className="absolute top-2 left-2"
+          title={slide.conversion_error || fileType}
+        >
+          {fileTypeLabel(fileType)}
+        </Badge>
       </div>
 
       <CardHeader className="pb-2">
         <div className="flex justify-between items-start">
           <CardTitle className="text-lg line-clamp-1">{slide.title}</CardTitle>
-          <Badge variant="outline">{slide.course_id}</Badge>
+          {slide.courses && (
+            <Badge variant="outline" title={slide.courses.name}>
+              {slide.courses.code}
+            </Badge>
+          )}
         </div>
       </CardHeader>
 
       <CardContent className="pb-2">
-        {slide.description && (
-          <p className="text-sm text-muted-foreground line-clamp-2 mb-2">
-            {slide.description}
-          </p>
+        {match ? (
+          <div className="mb-2 space-y-1">
+            {match.page_number && (
+              <Badge variant="secondary">Page {match.page_number}</Badge>
+            )}
+            <p className="text-sm text-muted-foreground line-clamp-3">
+              <HighlightedSnippet snippet={match.snippet} />
+            </p>
+          </div>
+        ) : (
+          slide.description && (
+            <p className="text-sm text-muted-foreground line-clamp-2 mb-2">
+              {slide.description}
+            </p>
+          )
         )}
         <div className="flex items-center text-xs text-muted-foreground">
           <Clock className="h-3 w-3 mr-1" />
-          <span>Uploaded on {formattedDate}</span>
+          <span>
+            Uploaded on {formattedDate}
+            {slide.uploader?.name && ` by ${slide.uploader.name}`}
+          </span>
         </div>
       </CardContent>
 
       <CardFooter className="flex justify-between pt-2">
         <div className="flex gap-2">
           <Button variant="outline" size="sm" asChild>
-            <a href={slide.file_url} target="_blank" rel="noopener noreferrer">
+            <Link href={viewHref}>
               <Eye className="h-4 w-4 mr-1" />
               View
-            </a>
+            </Link>
           </Button>
           <Button variant="outline" size="sm" asChild>
             <a href={slide.file_url} download>
@@ -115,9 +254,24 @@ export function SlideCard({ slide, onDelete }: SlideCardProps) {
               Download
             </a>
           </Button>
+          {(isPdf || isConverted) && canAuthor(role) && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleGenerateQuiz}
+              disabled={isGenerating}
+            >
+              {isGenerating ? (
+                <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+              ) : (
+                <Sparkles className="h-4 w-4 mr-1" />
+              )}
+              {isGenerating ? "Generating..." : "Generate quiz"}
+            </Button>
+          )}
         </div>
 
-        {onDelete && (
+        {canDelete && (
           <AlertDialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
             <AlertDialogTrigger asChild>
               <Button
@@ -166,3 +320,20 @@ export function SlideCard({ slide, onDelete }: SlideCardProps) {
     </Card>
   );
 }
+
+// ts_headline wraps matches in <mark></mark>; render them without trusting the text as HTML
+function HighlightedSnippet({ snippet }: { snippet: string }) {
+  return (
+    <>
+      {snippet.split(/<\/?mark>/).map((part, index) =>
+        index % 2 === 1 ? (
+          <mark key={index} className="bg-yellow-200 text-foreground rounded-sm">
+            {part}
+          </mark>
+        ) : (
+          part
+        )
+      )}
+    </>
+  );
+}
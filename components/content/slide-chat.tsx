@@ -0,0 +1,302 @@
+"use client";
+
+import type React from "react";
+import { useEffect, useRef, useState } from "react";
+import { useSupabase } from "@/lib/supabase/provider";
+import { api, AuthError, type ChatMessage } from "@/lib/api";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { ErrorMessage } from "@/components/ui/error-message";
+import { LoadingSpinner } from "@/components/ui/loading-spinner";
+import { Loader2, MessageSquare, Send, Trash } from "lucide-react";
+
+interface SlideChatProps {
+  slideId: string;
+  userId: string;
+  // Called when a page citation is clicked
+  onJumpToPage?: (page: number) => void;
+}
+
+export function SlideChat({ slideId, userId, onJumpToPage }: SlideChatProps) {
+  const { supabase } = useSupabase();
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  const [input, setInput] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  // Load the earlier conversation about this slide, if any
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadConversation = async () => {
+      setIsLoading(true);
+
+      const { data: conversation, error: conversationError } = await supabase
+        .from("chat_conversations")
+        .select("id")
+        .eq("slide_id", slideId)
+        .eq("user_id", userId)
+        .maybeSingle();
+
+      if (conversationError) {
+        console.error("Error loading conversation:", conversationError);
+      }
+
+      let history: ChatMessage[] = [];
+      if (conversation) {
+        const { data, error: messagesError } = await supabase
+          .from("chat_messages")
+          .select("id, role, content, citations, created_at")
+          .eq("conversation_id", conversation.id)
+          .order("created_at", { ascending: true })
+          .returns<ChatMessage[]>();
+
+        if (messagesError) {
+          console.error("Error loading messages:", messagesError);
+        }
+        history = data || [];
+      }
+
+      if (!cancelled) {
+        setConversationId(conversation?.id || null);
+        setMessages(history);
+        setIsLoading(false);
+      }
+    };
+
+    loadConversation();
+    return () => {
+      cancelled = true;
+    };
+  }, [slideId, userId]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: "smooth", block: "nearest" });
+  }, [messages, isSending]);
+
+  const handleSend = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    const message = input.trim();
+    if (!message || isSending) return;
+
+    setError(null);
+    setIsSending(true);
+    setInput("");
+
+    // Show the question right away; it's replaced by the stored copy below
+    const pending: ChatMessage = {
+      id: "pending",
+      role: "user",
+      content: message,
+      citations: [],
+      created_at: new Date().toISOString(),
+    };
+    setMessages((previous) => [...previous, pending]);
+
+    const { data, error: chatError } = await api.chatWithContent(
+      slideId,
+      message
+    );
+
+    if (chatError) {
+      // Put the question back so it can be sent again
+      setMessages((previous) => previous.filter((m) => m.id !== "pending"));
+      setInput(message);
+      setError(
+        chatError instanceof AuthError
+          ? "Your session has expired. Please sign in again."
+          : chatError.message
+      );
+    } else {
+      setMessages((previous) => [
+        ...previous.filter((m) => m.id !== "pending"),
+        data.userMessage,
+        data.reply,
+      ]);
+      if (!conversationId) {
+        // Created by the API with the first message; look it up for clearing
+        const { data: conversation } = await supabase
+          .from("chat_conversations")
+          .select("id")
+          .eq("slide_id", slideId)
+          .eq("user_id", userId)
+          .maybeSingle();
+        setConversationId(conversation?.id || null);
+      }
+    }
+
+    setIsSending(false);
+  };
+
+  const handleClear = async () => {
+    if (!conversationId) return;
+
+    const { error: deleteError } = await supabase
+      .from("chat_conversations")
+      .delete()
+      .eq("id", conversationId);
+
+    if (deleteError) {
+      setError(deleteError.message);
+      return;
+    }
+
+    setConversationId(null);
+    setMessages([]);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <MessageSquare className="h-5 w-5" />
+            Ask about these slides
+          </CardTitle>
+          <CardDescription>
+            Answers come from the slide text and cite the pages they use.
+          </CardDescription>
+        </div>
+        {messages.length > 0 && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handleClear}
+            disabled={isSending}
+          >
+            <Trash className="h-4 w-4 mr-1" />
+            Clear
+          </Button>
+        )}
+      </CardHeader>
+
+      <CardContent className="space-y-3">
+        {error && (
+          <ErrorMessage
+            message={error}
+            variant="destructive"
+            onDismiss={() => setError(null)}
+          />
+        )}
+
+        <div className="max-h-96 space-y-3 overflow-y-auto">
+          {isLoading ? (
+            <LoadingSpinner text="Loading conversation..." />
+          ) : messages.length === 0 ? (
+            <p className="py-4 text-center text-sm text-muted-foreground">
+              Ask a question, e.g. "What are the main points of this deck?"
+            </p>
+          ) : (
+            messages.map((message) => (
+              <div
+                key={message.id}
+                className={`rounded-lg p-3 text-sm ${
+                  message.role === "user"
+                    ? "ml-8 bg-primary text-primary-foreground"
+                    : "mr-8 bg-muted"
+                }`}
+              >
+                <p className="whitespace-pre-wrap">
+                  {message.role === "assistant" ? (
+                    <AnswerText
+                      text={message.content}
+                      onJumpToPage={onJumpToPage}
+                    />
+                  ) : (
+                    message.content
+                  )}
+                </p>
+                {message.citations.length > 0 && (
+                  <div className="mt-2 flex flex-wrap gap-1">
+                    {message.citations.map((citation) => (
+                      <Button
+                        key={citation.page_number}
+                        variant="outline"
+                        size="sm"
+                        className="h-6 px-2 text-xs"
+                        title={citation.excerpt}
+                        onClick={() => onJumpToPage?.(citation.page_number)}
+                      >
+                        Page {citation.page_number}
+                      </Button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+          {isSending && (
+            <div className="mr-8 flex items-center gap-2 rounded-lg bg-muted p-3 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Reading the slides...
+            </div>
+          )}
+          <div ref={bottomRef} />
+        </div>
+      </CardContent>
+
+      <CardFooter>
+        <form onSubmit={handleSend} className="flex w-full gap-2">
+          <Textarea
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            onKeyDown={(e) => {
+              // Enter sends, Shift+Enter adds a line
+              if (e.key === "Enter" && !e.shiftKey) {
+                e.preventDefault();
+                handleSend();
+              }
+            }}
+            placeholder="Ask a question about this slide deck"
+            className="min-h-[44px]"
+            maxLength={2000}
+            disabled={isSending}
+          />
+          <Button type="submit" disabled={isSending || !input.trim()}>
+            <Send className="h-4 w-4" />
+            <span className="sr-only">Send</span>
+          </Button>
+        </form>
+      </CardFooter>
+    </Card>
+  );
+}
+
+// Answers cite pages as [p. N]; make those jump to the page
+function AnswerText({
+  text,
+  onJumpToPage,
+}: {
+  text: string;
+  onJumpToPage?: (page: number) => void;
+}) {
+  return (
+    <>
+      {text.split(/\[p\.\s*(\d+)\]/).map((part, index) =>
+        index % 2 === 1 ? (
+          <button
+            key={index}
+            type="button"
+            className="mx-0.5 text-xs font-medium text-primary underline-offset-2 hover:underline"
+            onClick={() => onJumpToPage?.(Number(part))}
+          >
+            [p. {part}]
+          </button>
+        ) : (
+          part
+        )
+      )}
+    </>
+  );
+}
@@ -1,9 +1,14 @@
-import { SlideCard } from "@/components/content/slide-card";
+"use client";
+
+import {
+  SlideCard,
+  type SlideWithRelations,
+} from "@/components/content/slide-card";
 
 interface SlideGridProps {
-  slides: any[];
+  slides: SlideWithRelations[];
   emptyMessage?: string;
-  onDeleteSlide?: (slideId: string, filePath: string) => Promise<void>;
+  onDeleteSlide?: (slideId: string, filePaths: string[]) => Promise<void>;
 }
 
 export function SlideGrid({
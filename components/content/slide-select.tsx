@@ -0,0 +1,88 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useSupabase } from "@/lib/supabase/provider";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface SlideOption {
+  id: string;
+  title: string;
+}
+
+interface SlideSelectProps {
+  value: string;
+  onValueChange: (slideId: string) => void;
+  // Only list this course's slides
+  courseId?: string;
+  disabled?: boolean;
+  placeholder?: string;
+  className?: string;
+  id?: string;
+}
+
+// Picks a slide, or none, which maps to an empty value
+export function SlideSelect({
+  value,
+  onValueChange,
+  courseId,
+  disabled,
+  placeholder = "No slide",
+  className,
+  id,
+}: SlideSelectProps) {
+  const { supabase } = useSupabase();
+  const [slides, setSlides] = useState<SlideOption[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchSlides = async () => {
+      let query = supabase
+        .from("slides")
+        .select("id, title")
+        .order("title", { ascending: true });
+
+      if (courseId) {
+        query = query.eq("course_id", courseId);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        console.error("Error fetching slides:", error.message);
+      } else {
+        setSlides(data || []);
+      }
+      setIsLoading(false);
+    };
+
+    fetchSlides();
+  }, [supabase, courseId]);
+
+  return (
+    <Select
+      value={value || "none"}
+      onValueChange={(selected) =>
+        onValueChange(selected === "none" ? "" : selected)
+      }
+      disabled={disabled || isLoading}
+    >
+      <SelectTrigger className={className} id={id}>
+        <SelectValue placeholder={isLoading ? "Loading slides..." : placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="none">{placeholder}</SelectItem>
+        {slides.map((slide) => (
+          <SelectItem key={slide.id} value={slide.id}>
+            {slide.title}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,51 @@
+"use client";
+
+import type React from "react";
+import { useState } from "react";
+import { Skeleton } from "@/components/ui/skeleton";
+import { cn } from "@/lib/utils";
+
+interface SlideThumbnailProps {
+  src: string;
+  alt: string;
+  // Shown instead of the image if it fails to load
+  fallback: React.ReactNode;
+  className?: string;
+}
+
+/**
+ * Lazily loaded thumbnail with a placeholder while it loads.
+ * Fills its (relatively positioned) container.
+ */
+export function SlideThumbnail({
+  src,
+  alt,
+  fallback,
+  className,
+}: SlideThumbnailProps) {
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [hasFailed, setHasFailed] = useState(false);
+
+  if (hasFailed) {
+    return <>{fallback}</>;
+  }
+
+  return (
+    <>
+      {!isLoaded && <Skeleton className="absolute inset-0 rounded-none" />}
+      <img
+        src={src}
+        alt={alt}
+        loading="lazy"
+        decoding="async"
+        onLoad={() => setIsLoaded(true)}
+        onError={() => setHasFailed(true)}
+        className={cn(
+          "w-full h-full transition-opacity",
+          isLoaded ? "opacity-100" : "opacity-0",
+          className
+        )}
+      />
+    </>
+  );
+}
@@ -0,0 +1,326 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type { PDFDocumentProxy, RenderTask } from "pdfjs-dist";
+import { useSupabase } from "@/lib/supabase/provider";
+import { loadPdfDocument, renderPdfPage } from "@/lib/pdf";
+import { Card, CardContent, CardFooter } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { LoadingSpinner } from "@/components/ui/loading-spinner";
+import { ErrorMessage } from "@/components/ui/error-message";
+import { SlideChat } from "@/components/content/slide-chat";
+import type { Tables } from "@/types/supabase";
+import { CheckCircle2, ChevronLeft, ChevronRight, Download } from "lucide-react";
+
+interface SlideViewerProps {
+  slide: Pick<
+    Tables<"slides">,
+    | "id"
+    | "title"
+    | "file_url"
+    | "file_type"
+    | "preview_url"
+    | "page_thumbnails"
+    | "conversion_status"
+  >;
+  initialProgress?: Pick<
+    Tables<"content_progress">,
+    "completed" | "last_position"
+  > | null;
+  // Opens this page instead of the saved reading position, which it leaves alone
+  initialPage?: number;
+  userId: string;
+}
+
+export function SlideViewer({
+  slide,
+  initialProgress,
+  initialPage,
+  userId,
+}: SlideViewerProps) {
+  const { supabase } = useSupabase();
+  const [currentPage, setCurrentPage] = useState(
+    Math.max(initialPage || initialProgress?.last_position || 1, 1)
+  );
+  const [pageCount, setPageCount] = useState(0);
+  const [isCompleted, setIsCompleted] = useState(
+    initialProgress?.completed || false
+  );
+  const [isRendering, setIsRendering] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const documentRef = useRef<PDFDocumentProxy | null>(null);
+  // A page opened from a link (e.g. a search result) isn't where the student got to
+  // reading, so it isn't saved until they move on from it
+  const isLinkedPageRef = useRef(!!initialPage);
+  // Office documents are shown through the PDF they were converted to
+  const pdfUrl =
+    slide.file_type === "application/pdf"
+      ? slide.file_url
+      : slide.preview_url || null;
+  const isPdf = !!pdfUrl;
+  const isImage = !!slide.file_type?.startsWith("image/");
+  const isConverting =
+    slide.conversion_status === "pending" ||
+    slide.conversion_status === "processing";
+  const thumbnailUrls = (slide.page_thumbnails || []).map(
+    (path) => supabase.storage.from("content").getPublicUrl(path).data.publicUrl
+  );
+
+  // Persist the reading position, never un-completing a slide once finished
+  const saveProgress = async (page: number, reachedEnd: boolean) => {
+    const completed = isCompleted || reachedEnd;
+
+    const { error: progressError } = await supabase
+      .from("content_progress")
+      .upsert(
+        {
+          user_id: userId,
+          slide_id: slide.id,
+          last_position: page,
+          completed,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: "user_id,slide_id" }
+      );
+
+    if (progressError) {
+      console.error("Error saving reading position:", progressError);
+      return;
+    }
+
+    if (completed !== isCompleted) {
+      setIsCompleted(completed);
+    }
+  };
+
+  // Load the PDF document once
+  useEffect(() => {
+    if (!pdfUrl) return;
+
+    let cancelled = false;
+
+    loadPdfDocument(pdfUrl)
+      .then((document) => {
+        if (cancelled) {
+          document.destroy();
+          return;
+        }
+        documentRef.current = document;
+        setPageCount(document.numPages);
+        // Clamp a stale position if the file was replaced with a shorter one
+        setCurrentPage((page) => Math.min(page, document.numPages));
+      })
+      .catch((loadError) => {
+        console.error("Error loading PDF:", loadError);
+        if (!cancelled) {
+          setError("This document could not be opened. Try downloading it instead.");
+          setIsRendering(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+      documentRef.current?.destroy();
+      documentRef.current = null;
+    };
+  }, [pdfUrl]);
+
+  // Render the current page whenever it changes
+  useEffect(() => {
+    const document = documentRef.current;
+    if (!isPdf || !document || !canvasRef.current || !pageCount) return;
+
+    let renderTask: RenderTask | null = null;
+    let cancelled = false;
+    setIsRendering(true);
+
+    const width = containerRef.current?.clientWidth || 800;
+
+    renderPdfPage(document, currentPage, canvasRef.current, width)
+      .then((task) => {
+        renderTask = task;
+        if (cancelled) {
+          task.cancel();
+          return;
+        }
+        return task.promise;
+      })
+      .catch((renderError) => {
+        if (renderError?.name !== "RenderingCancelledException") {
+          console.error("Error rendering page:", renderError);
+          setError(`Page ${currentPage} could not be rendered.`);
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setIsRendering(false);
+      });
+
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+    };
+  }, [isPdf, currentPage, pageCount]);
+
+  // Record the position each time the student lands on a page
+  useEffect(() => {
+    if (isPdf && pageCount > 0 && !isLinkedPageRef.current) {
+      saveProgress(currentPage, currentPage >= pageCount);
+    }
+  }, [isPdf, currentPage, pageCount]);
+
+  // Images are a single page, so viewing one completes it
+  useEffect(() => {
+    if (isImage) {
+      saveProgress(1, true);
+    }
+  }, [isImage]);
+
+  const goToPage = (page: number) => {
+    if (page >= 1 && page <= pageCount) {
+      isLinkedPageRef.current = false;
+      setCurrentPage(page);
+    }
+  };
+
+  useEffect(() => {
+    if (!isPdf) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // Arrow keys move the cursor in text fields, such as the chat box
+      const target = e.target as HTMLElement | null;
+      if (
+        target instanceof HTMLInputElement ||
+        target instanceof HTMLTextAreaElement ||
+        target?.isContentEditable
+      ) {
+        return;
+      }
+
+      if (e.key === "ArrowRight") goToPage(currentPage + 1);
+      if (e.key === "ArrowLeft") goToPage(currentPage - 1);
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [isPdf, currentPage, pageCount]);
+
+  return (
+    <div className="space-y-4">
+      <Card className="w-full overflow-hidden">
+        <CardContent className="p-0">
+          {error && (
+            <ErrorMessage
+              message={error}
+              variant="destructive"
+              className="m-4"
+              onDismiss={() => setError(null)}
+            />
+          )}
+
+          {isPdf ? (
+            <div
+              ref={containerRef}
+              className="relative flex min-h-[60vh] justify-center bg-muted"
+            >
+              {isRendering && (
+                <div className="absolute inset-0 flex items-center justify-center">
+                  <LoadingSpinner size="lg" text="Rendering page..." />
+                </div>
+              )}
+              <canvas ref={canvasRef} className="shadow-sm" />
+            </div>
+          ) : isImage ? (
+            <div className="flex justify-center bg-muted">
+              <img
+                src={slide.file_url}
+                alt={slide.title}
+                className="max-w-full h-auto"
+              />
+            </div>
+          ) : (
+            <div className="flex flex-col items-center justify-center gap-4 py-16 text-center">
+              <p className="text-muted-foreground">
+                {isConverting
+                  ? "This document is still being converted for viewing. Refresh in a moment, or download the original."
+                  : "This file type can't be previewed in the browser."}
+              </p>
+              <Button variant="outline" asChild>
+                <a href={slide.file_url} download>
+                  <Download className="h-4 w-4 mr-2" />
+                  Download
+                </a>
+              </Button>
+            </div>
+          )}
+        </CardContent>
+
+        {isPdf && pageCount > 0 && (
+          <CardFooter className="flex flex-col gap-4 pt-4">
+            <Progress value={(currentPage / pageCount) * 100} className="h-2" />
+            <div className="flex w-full items-center justify-between">
+              <Button
+                variant="outline"
+                onClick={() => goToPage(currentPage - 1)}
+                disabled={currentPage <= 1}
+              >
+                <ChevronLeft className="h-4 w-4 mr-1" />
+                Previous
+              </Button>
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <span>
+                  Page {currentPage} of {pageCount}
+                </span>
+                {isCompleted && (
+                  <Badge variant="secondary" className="gap-1">
+                    <CheckCircle2 className="h-3 w-3" />
+                    Completed
+                  </Badge>
+                )}
+              </div>
+              <Button
+                variant="outline"
+                onClick={() => goToPage(currentPage + 1)}
+                disabled={currentPage >= pageCount}
+              >
+                Next
+                <ChevronRight className="h-4 w-4 ml-1" />
+              </Button>
+            </div>
+            {thumbnailUrls.length > 1 && (
+              <div className="flex w-full gap-2 overflow-x-auto pb-2">
+                {thumbnailUrls.map((url, index) => (
+                  <button
+                    key={url}
+                    type="button"
+                    onClick={() => goToPage(index + 1)}
+                    className={`shrink-0 overflow-hidden rounded border-2 ${
+                      currentPage === index + 1
+                        ? "border-primary"
+                        : "border-transparent"
+                    }`}
+                  >
+                    <img
+                      src={url}
+                      alt={`Page ${index + 1}`}
+                      className="h-16 w-auto"
+                      loading="lazy"
+                    />
+                  </button>
+                ))}
+              </div>
+            )}
+          </CardFooter>
+        )}
+      </Card>
+
+      {/* Chat answers from extracted text, which PDFs and converted documents have */}
+      {isPdf && (
+        <SlideChat slideId={slide.id} userId={userId} onJumpToPage={goToPage} />
+      )}
+    </div>
+  );
+}
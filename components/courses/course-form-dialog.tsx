@@ -0,0 +1,185 @@
+"use client";
+
+import type React from "react";
+import { useEffect, useState } from "react";
+import { useSupabase } from "@/lib/supabase/provider";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ErrorMessage } from "@/components/ui/error-message";
+import { useToast } from "@/components/ui/use-toast";
+import type { Tables } from "@/types/supabase";
+
+export type Course = Tables<"courses">;
+
+interface CourseFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // When given, the dialog edits this course instead of creating a new one
+  course?: Course | null;
+  onSaved: () => void;
+}
+
+export function CourseFormDialog({
+  open,
+  onOpenChange,
+  course,
+  onSaved,
+}: CourseFormDialogProps) {
+  const { supabase, session } = useSupabase();
+  const { toast } = useToast();
+  const [code, setCode] = useState("");
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [term, setTerm] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setCode(course?.code || "");
+      setName(course?.name || "");
+      setDescription(course?.description || "");
+      setTerm(course?.term || "");
+      setError(null);
+    }
+  }, [open, course]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (!code.trim() || !name.trim()) {
+      setError("Please enter both a course code and a name.");
+      return;
+    }
+
+    setIsSaving(true);
+
+    const values = {
+      code: code.trim().toUpperCase(),
+      name: name.trim(),
+      description: description.trim() || null,
+      term: term.trim() || null,
+      updated_at: new Date().toISOString(),
+    };
+
+    const { error: saveError } = course
+      ? await supabase.from("courses").update(values).eq("id", course.id)
+      : await supabase
+          .from("courses")
+          .insert([{ ...values, owner_id: session?.user.id }]);
+
+    setIsSaving(false);
+
+    if (saveError) {
+      // 23505 is Postgres' unique violation, i.e. the code is taken
+      setError(
+        saveError.code === "23505"
+          ? `A course with the code ${values.code} already exists.`
+          : saveError.message
+      );
+      return;
+    }
+
+    toast({
+      title: course ? "Course updated" : "Course created",
+      description: `${values.code} — ${values.name}`,
+    });
+    onOpenChange(false);
+    onSaved();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{course ? "Edit course" : "New course"}</DialogTitle>
+            <DialogDescription>
+              Slides and quizzes are organised by course.
+            </DialogDescription>
+          </DialogHeader>
+
+          {error && (
+            <ErrorMessage
+              message={error}
+              variant="destructive"
+              onDismiss={() => setError(null)}
+            />
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="course-code">Code *</Label>
+              <Input
+                id="course-code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                placeholder="CS101"
+                disabled={isSaving}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="course-term">Term</Label>
+              <Input
+                id="course-term"
+                value={term}
+                onChange={(e) => setTerm(e.target.value)}
+                placeholder="Fall 2024"
+                disabled={isSaving}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="course-name">Name *</Label>
+            <Input
+              id="course-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Introduction to Computer Science"
+              disabled={isSaving}
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="course-description">Description</Label>
+            <Textarea
+              id="course-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="What is this course about? (optional)"
+              disabled={isSaving}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={isSaving}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? "Saving..." : course ? "Save changes" : "Create course"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,100 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useSupabase } from "@/lib/supabase/provider";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+export interface CourseOption {
+  id: string;
+  code: string;
+  name: string;
+}
+
+interface CourseSelectProps {
+  value: string;
+  onValueChange: (courseId: string) => void;
+  disabled?: boolean;
+  placeholder?: string;
+  // Adds an "All Courses" entry that maps to an empty value, for use as a filter
+  allowAll?: boolean;
+  // Only list courses the signed-in user is enrolled in
+  enrolledOnly?: boolean;
+  className?: string;
+  id?: string;
+}
+
+export function CourseSelect({
+  value,
+  onValueChange,
+  disabled,
+  placeholder = "Select a course",
+  allowAll = false,
+  enrolledOnly = false,
+  className,
+  id,
+}: CourseSelectProps) {
+  const { supabase, session } = useSupabase();
+  const [courses, setCourses] = useState<CourseOption[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchCourses = async () => {
+      let query = supabase
+        .from("courses")
+        .select(
+          enrolledOnly
+            ? "id, code, name, enrollments!inner(user_id)"
+            : "id, code, name"
+        )
+        .order("code", { ascending: true });
+
+      if (enrolledOnly) {
+        query = query.eq("enrollments.user_id", session?.user.id ?? "");
+      }
+
+      const { data, error } = await query.returns<CourseOption[]>();
+
+      if (error) {
+        console.error("Error fetching courses:", error.message);
+      } else {
+        setCourses(data || []);
+      }
+      setIsLoading(false);
+    };
+
+    fetchCourses();
+  }, [supabase, session, enrolledOnly]);
+
+  return (
+    <Select
+      value={value || (allowAll ? "all" : "")}
+      onValueChange={(selected) =>
+        onValueChange(allowAll && selected === "all" ? "" : selected)
+      }
+      disabled={disabled || isLoading}
+    >
+      <SelectTrigger className={className} id={id}>
+        <SelectValue placeholder={isLoading ? "Loading courses..." : placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        {allowAll && <SelectItem value="all">All Courses</SelectItem>}
+        {courses.map((course) => (
+          <SelectItem key={course.id} value={course.id}>
+            {course.code} — {course.name}
+          </SelectItem>
+        ))}
+        {!allowAll && !isLoading && courses.length === 0 && (
+          <div className="px-2 py-1.5 text-sm text-muted-foreground">
+            No courses yet. Create one on the Courses page.
+          </div>
+        )}
+      </SelectContent>
+    </Select>
+  );
+}
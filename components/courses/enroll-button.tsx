@@ -0,0 +1,82 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { useSupabase } from "@/lib/supabase/provider";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/components/ui/use-toast";
+import { Check, Plus } from "lucide-react";
+
+interface EnrollButtonProps {
+  courseId: string;
+  enrolled: boolean;
+  onChange?: (enrolled: boolean) => void;
+  className?: string;
+}
+
+export function EnrollButton({
+  courseId,
+  enrolled,
+  onChange,
+  className,
+}: EnrollButtonProps) {
+  const { supabase, session } = useSupabase();
+  const { toast } = useToast();
+  const router = useRouter();
+  const [isEnrolled, setIsEnrolled] = useState(enrolled);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleClick = async () => {
+    if (!session) return;
+    setIsSaving(true);
+
+    const { error } = isEnrolled
+      ? await supabase
+          .from("enrollments")
+          .delete()
+          .eq("user_id", session.user.id)
+          .eq("course_id", courseId)
+      : await supabase
+          .from("enrollments")
+          .insert([{ user_id: session.user.id, course_id: courseId }]);
+
+    setIsSaving(false);
+
+    if (error) {
+      toast({
+        title: isEnrolled ? "Could not leave course" : "Could not enrol",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const nowEnrolled = !isEnrolled;
+    setIsEnrolled(nowEnrolled);
+    toast({
+      title: nowEnrolled ? "Enrolled" : "Left course",
+      description: nowEnrolled
+        ? "This course now counts towards your progress."
+        : "This course no longer counts towards your progress.",
+    });
+    onChange?.(nowEnrolled);
+    // Server-rendered pages such as the course page read enrolment on the server
+    router.refresh();
+  };
+
+  return (
+    <Button
+      variant={isEnrolled ? "secondary" : "default"}
+      onClick={handleClick}
+      disabled={isSaving}
+      className={className}
+    >
+      {isEnrolled ? (
+        <Check className="mr-2 h-4 w-4" />
+      ) : (
+        <Plus className="mr-2 h-4 w-4" />
+      )}
+      {isSaving ? "Saving..." : isEnrolled ? "Enrolled" : "Enrol"}
+    </Button>
+  );
+}
@@ -0,0 +1,207 @@
+"use client"
+
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts"
+import { format } from "date-fns"
+import { ArrowDownRight, ArrowRight, ArrowUpRight } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Badge } from "@/components/ui/badge"
+
+type Classification = "Slow" | "Moderate" | "Fast"
+
+export interface ClassificationChange {
+  id: string
+  classification: Classification
+  previous_classification: Classification | null
+  average_score: number
+  average_time_ratio: number
+  score_trend: number
+  submission_ids: string[]
+  created_at: string
+}
+
+export interface ClassificationDriver {
+  id: string
+  score: number
+  time_taken: number
+  created_at: string
+  quizzes: { title: string; time_limit: number } | null
+}
+
+interface ClassificationHistoryProps {
+  history: ClassificationChange[]
+  drivers: ClassificationDriver[]
+}
+
+const LEVELS: Record<Classification, number> = { Slow: 1, Moderate: 2, Fast: 3 }
+const LABELS: Record<number, Classification> = { 1: "Slow", 2: "Moderate", 3: "Fast" }
+
+const chartConfig = {
+  level: {
+    label: "Learning speed",
+    color: "hsl(var(--primary))",
+  },
+} satisfies ChartConfig
+
+function formatPercent(ratio: number) {
+  return `${Math.round(ratio * 100)}%`
+}
+
+function TrendIcon({ trend }: { trend: number }) {
+  if (trend > 0) return <ArrowUpRight className="h-4 w-4 text-green-500" />
+  if (trend < 0) return <ArrowDownRight className="h-4 w-4 text-red-500" />
+  return <ArrowRight className="h-4 w-4 text-muted-foreground" />
+}
+
+export function ClassificationHistory({ history, drivers }: ClassificationHistoryProps) {
+  if (!history.length) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Learning Speed History</CardTitle>
+          <CardDescription>How your classification has changed over time</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <p className="text-sm text-muted-foreground">
+            Complete a quiz to receive your first learning speed classification.
+          </p>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const chartData = history.map((change) => ({
+    date: format(new Date(change.created_at), "MMM d"),
+    level: LEVELS[change.classification],
+  }))
+
+  const latest = history[history.length - 1]
+  // Newest changes first in the table
+  const changes = [...history].reverse()
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Learning Speed History</CardTitle>
+        <CardDescription>How your classification has changed over time</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-8">
+        <ChartContainer config={chartConfig} className="aspect-auto h-[220px] w-full">
+          <LineChart data={chartData} margin={{ left: 12, right: 12 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="date" tickLine={false} axisLine={false} tickMargin={8} />
+            <YAxis
+              domain={[1, 3]}
+              ticks={[1, 2, 3]}
+              tickFormatter={(value: number) => LABELS[value]}
+              tickLine={false}
+              axisLine={false}
+              width={72}
+            />
+            <ChartTooltip
+              content={
+                <ChartTooltipContent
+                  formatter={(value) => LABELS[value as number]}
+                  hideIndicator
+                />
+              }
+            />
+            <Line dataKey="level" type="stepAfter" stroke="var(--color-level)" strokeWidth={2} dot />
+          </LineChart>
+        </ChartContainer>
+
+        <div className="space-y-3">
+          <h3 className="text-sm font-medium">
+            What drove your latest change
+            {latest.previous_classification ? ` (${latest.previous_classification} → ${latest.classification})` : ""}
+          </h3>
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div className="rounded-lg bg-muted p-3">
+              <p className="text-xs text-muted-foreground">Average score</p>
+              <p className="text-lg font-semibold">{Math.round(latest.average_score)}%</p>
+            </div>
+            <div className="rounded-lg bg-muted p-3">
+              <p className="text-xs text-muted-foreground">Time limit used</p>
+              <p className="text-lg font-semibold">{formatPercent(latest.average_time_ratio)}</p>
+            </div>
+            <div className="rounded-lg bg-muted p-3">
+              <p className="text-xs text-muted-foreground">Recent trend</p>
+              <p className="flex items-center gap-1 text-lg font-semibold">
+                <TrendIcon trend={latest.score_trend} />
+                {latest.score_trend > 0 ? "+" : ""}
+                {Math.round(latest.score_trend)} pts
+              </p>
+            </div>
+          </div>
+          {drivers.length > 0 && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Quiz</TableHead>
+                  <TableHead>Score</TableHead>
+                  <TableHead>Time used</TableHead>
+                  <TableHead>Date</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {drivers.map((submission) => (
+                  <TableRow key={submission.id}>
+                    <TableCell className="font-medium">{submission.quizzes?.title || "Quiz"}</TableCell>
+                    <TableCell>{submission.score}%</TableCell>
+                    <TableCell>
+                      {submission.quizzes?.time_limit
+                        ? formatPercent(Math.min(submission.time_taken / (submission.quizzes.time_limit * 60), 1))
+                        : "—"}
+                    </TableCell>
+                    <TableCell>{format(new Date(submission.created_at), "MMM d, yyyy")}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+
+        <div className="space-y-3">
+          <h3 className="text-sm font-medium">All changes</h3>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Change</TableHead>
+                <TableHead>Avg. score</TableHead>
+                <TableHead>Time used</TableHead>
+                <TableHead>Trend</TableHead>
+                <TableHead>Quizzes</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {changes.map((change) => (
+                <TableRow key={change.id}>
+                  <TableCell>{format(new Date(change.created_at), "MMM d, yyyy")}</TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-1">
+                      {change.previous_classification && (
+                        <>
+                          <Badge variant="outline">{change.previous_classification}</Badge>
+                          <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                        </>
+                      )}
+                      <Badge>{change.classification}</Badge>
+                    </div>
+                  </TableCell>
+                  <TableCell>{Math.round(change.average_score)}%</TableCell>
+                  <TableCell>{formatPercent(change.average_time_ratio)}</TableCell>
+                  <TableCell>
+                    <TrendIcon trend={change.score_trend} />
+                  </TableCell>
+                  <TableCell>{change.submission_ids.length}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -2,14 +2,14 @@
 
 import Link from "next/link"
 import { usePathname } from "next/navigation"
-import { BookOpen, FileText, LayoutDashboard, LineChart, LogOut } from "lucide-react"
+import { BookOpen, FileText, GraduationCap, LayoutDashboard, LineChart, LogOut, Shield } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { useSupabase } from "@/lib/supabase/provider"
 import { useRouter } from "next/navigation"
 
 export function DashboardNav() {
   const pathname = usePathname()
-  const { supabase } = useSupabase()
+  const { supabase, role } = useSupabase()
   const router = useRouter()
 
   const handleSignOut = async () => {
@@ -33,11 +33,25 @@ export function DashboardNav() {
       href: "/content",
       icon: FileText,
     },
+    {
+      title: "Courses",
+      href: "/courses",
+      icon: GraduationCap,
+    },
     {
       title: "Progress",
       href: "/progress",
       icon: LineChart,
     },
+    ...(role === "admin"
+      ? [
+          {
+            title: "Admin",
+            href: "/admin",
+            icon: Shield,
+          },
+        ]
+      : []),
   ]
 
   return (
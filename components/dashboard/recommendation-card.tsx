@@ -0,0 +1,45 @@
+import Link from "next/link"
+import { ArrowRight, FileText, Image as ImageIcon } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+
+export interface Recommendation {
+  id: string
+  content_id: string
+  title: string
+  reason: string | null
+  score: number
+  slides: {
+    title: string
+    description: string | null
+    file_type: string
+    courses: { code: string } | null
+  } | null
+}
+
+interface RecommendationCardProps {
+  recommendation: Recommendation
+}
+
+export function RecommendationCard({ recommendation }: RecommendationCardProps) {
+  const slide = recommendation.slides
+  const Icon = slide?.file_type?.startsWith("image/") ? ImageIcon : FileText
+
+  return (
+    <Link
+      href={`/content/${recommendation.content_id}`}
+      className="group flex items-start space-x-4 rounded-lg border p-3 transition-colors hover:bg-muted/50"
+    >
+      <div className="rounded-md bg-primary/10 p-2">
+        <Icon className="h-4 w-4 text-primary" />
+      </div>
+      <div className="flex-1 space-y-1">
+        <div className="flex items-center gap-2">
+          <p className="text-sm font-medium leading-none">{slide?.title || recommendation.title}</p>
+          {slide?.courses && <Badge variant="outline">{slide.courses.code}</Badge>}
+        </div>
+        {recommendation.reason && <p className="text-sm text-muted-foreground">{recommendation.reason}</p>}
+      </div>
+      <ArrowRight className="h-4 w-4 self-center text-muted-foreground transition-transform group-hover:translate-x-1" />
+    </Link>
+  )
+}
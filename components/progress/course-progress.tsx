@@ -0,0 +1,96 @@
+import Link from "next/link"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Progress } from "@/components/ui/progress"
+import { Badge } from "@/components/ui/badge"
+
+// A row returned by the get_course_progress() RPC
+export interface CourseProgress {
+  course_id: string
+  code: string
+  name: string
+  total_slides: number
+  completed_slides: number
+  total_quizzes: number
+  attempted_quizzes: number
+  average_score: number | null
+}
+
+export function summarizeCourseProgress(courses: CourseProgress[]) {
+  const totals = courses.reduce(
+    (acc, course) => ({
+      totalSlides: acc.totalSlides + course.total_slides,
+      completedSlides: acc.completedSlides + course.completed_slides,
+      totalQuizzes: acc.totalQuizzes + course.total_quizzes,
+      attemptedQuizzes: acc.attemptedQuizzes + course.attempted_quizzes,
+    }),
+    { totalSlides: 0, completedSlides: 0, totalQuizzes: 0, attemptedQuizzes: 0 }
+  )
+
+  const totalItems = totals.totalSlides + totals.totalQuizzes
+  const completedItems = totals.completedSlides + totals.attemptedQuizzes
+
+  return {
+    ...totals,
+    totalItems,
+    completedItems,
+    percentage: totalItems > 0 ? Math.round((completedItems / totalItems) * 100) : 0,
+  }
+}
+
+function percent(done: number, total: number) {
+  return total > 0 ? Math.round((done / total) * 100) : 0
+}
+
+export function CourseProgressBreakdown({ courses }: { courses: CourseProgress[] }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Progress by Course</CardTitle>
+        <CardDescription>Slides read and quizzes taken in each course you are enrolled in</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {courses.length > 0 ? (
+          <div className="space-y-6">
+            {courses.map((course) => {
+              const { percentage } = summarizeCourseProgress([course])
+              return (
+                <div key={course.course_id} className="space-y-2">
+                  <div className="flex items-center justify-between gap-4">
+                    <div className="flex items-center gap-2 min-w-0">
+                      <Badge variant="outline">{course.code}</Badge>
+                      <Link href={`/courses/${course.course_id}`} className="truncate font-medium hover:underline">
+                        {course.name}
+                      </Link>
+                    </div>
+                    <span className="text-sm font-semibold">{percentage}%</span>
+                  </div>
+                  <Progress value={percentage} className="h-2" />
+                  <div className="flex flex-wrap gap-x-6 gap-y-1 text-xs text-muted-foreground">
+                    <span>
+                      Slides: {course.completed_slides} of {course.total_slides} (
+                      {percent(course.completed_slides, course.total_slides)}%)
+                    </span>
+                    <span>
+                      Quizzes: {course.attempted_quizzes} of {course.total_quizzes}
+                    </span>
+                    <span>
+                      Average score: {course.average_score !== null ? `${Math.round(course.average_score)}%` : "—"}
+                    </span>
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        ) : (
+          <div className="text-center py-6 text-muted-foreground">
+            You are not enrolled in any courses yet.{" "}
+            <Link href="/courses" className="text-primary hover:underline">
+              Browse courses
+            </Link>{" "}
+            to start tracking your progress.
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,234 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { ErrorMessage } from "@/components/ui/error-message"
+import { LoadingSpinner } from "@/components/ui/loading-spinner"
+import { CourseSelect } from "@/components/courses/course-select"
+import { useSupabase } from "@/lib/supabase/provider"
+import {
+  DIFFICULTIES,
+  DIFFICULTY_LABELS,
+  isQuestionType,
+  QUESTION_TYPE_LABELS,
+  QUESTION_TYPES,
+  type Difficulty,
+} from "@/lib/question-types"
+import type { Database } from "@/types/supabase"
+
+// A question as search_question_bank returns it, answer key included
+export type BankQuestion = Database["public"]["Functions"]["search_question_bank"]["Returns"][number]
+
+// How long typing in the search box waits before searching
+const SEARCH_DELAY_MS = 300
+
+interface QuestionBankDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // Questions already in the quiz, which aren't offered again
+  excludeIds: string[]
+  // The course the bank is filtered to at first
+  courseId?: string
+  onAdd: (questions: BankQuestion[]) => void
+}
+
+export function QuestionBankDialog({ open, onOpenChange, excludeIds, courseId, onAdd }: QuestionBankDialogProps) {
+  const { supabase } = useSupabase()
+  const [query, setQuery] = useState("")
+  const [tags, setTags] = useState<string[]>([])
+  const [difficulty, setDifficulty] = useState("")
+  const [type, setType] = useState("")
+  const [course, setCourse] = useState(courseId || "")
+  const [allTags, setAllTags] = useState<string[]>([])
+  const [results, setResults] = useState<BankQuestion[]>([])
+  const [selected, setSelected] = useState<string[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!open) return
+
+    setSelected([])
+    setCourse(courseId || "")
+
+    const fetchTags = async () => {
+      const { data, error } = await supabase.rpc("question_tags")
+      if (error) {
+        console.error("Error fetching question tags:", error.message)
+      } else {
+        setAllTags((data || []).map((row) => row.tag))
+      }
+    }
+
+    fetchTags()
+  }, [open])
+
+  useEffect(() => {
+    if (!open) return
+
+    setIsLoading(true)
+    const timeout = setTimeout(async () => {
+      const { data, error } = await supabase.rpc("search_question_bank", {
+        p_query: query || undefined,
+        p_tags: tags.length ? tags : undefined,
+        p_difficulty: difficulty || undefined,
+        p_type: type || undefined,
+        p_course_id: course || undefined,
+      })
+
+      setError(error ? error.message : null)
+      setResults(data || [])
+      setIsLoading(false)
+    }, SEARCH_DELAY_MS)
+
+    return () => clearTimeout(timeout)
+  }, [open, query, tags, difficulty, type, course])
+
+  const available = results.filter((question) => !excludeIds.includes(question.id))
+
+  const toggle = (list: string[], value: string, checked: boolean) =>
+    checked ? [...list, value] : list.filter((other) => other !== value)
+
+  const handleAdd = () => {
+    onAdd(available.filter((question) => selected.includes(question.id)))
+    onOpenChange(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Question bank</DialogTitle>
+          <DialogDescription>
+            Pick questions to reuse in this quiz. Shared questions stay linked: editing one changes it in every quiz that
+            asks it.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && <ErrorMessage message={error} variant="destructive" onDismiss={() => setError(null)} />}
+
+        <div className="grid gap-2 sm:grid-cols-2">
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search questions..."
+            className="sm:col-span-2"
+          />
+          <CourseSelect value={course} onValueChange={setCourse} allowAll />
+          <div className="grid grid-cols-2 gap-2">
+            <Select value={type || "all"} onValueChange={(value) => setType(value === "all" ? "" : value)}>
+              <SelectTrigger aria-label="Question type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All types</SelectItem>
+                {QUESTION_TYPES.map((questionType) => (
+                  <SelectItem key={questionType} value={questionType}>
+                    {QUESTION_TYPE_LABELS[questionType]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={difficulty || "all"}
+              onValueChange={(value) => setDifficulty(value === "all" ? "" : value)}
+            >
+              <SelectTrigger aria-label="Difficulty">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Any difficulty</SelectItem>
+                {DIFFICULTIES.map((level) => (
+                  <SelectItem key={level} value={level}>
+                    {DIFFICULTY_LABELS[level]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {allTags.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {allTags.map((tag) => {
+              const isActive = tags.includes(tag)
+              return (
+                <Badge
+                  key={tag}
+                  variant={isActive ? "default" : "outline"}
+                  className="cursor-pointer"
+                  onClick={() => setTags((prev) => toggle(prev, tag, !isActive))}
+                >
+                  {tag}
+                </Badge>
+              )
+            })}
+          </div>
+        )}
+
+        <div className="max-h-[50vh] space-y-2 overflow-y-auto">
+          {isLoading ? (
+            <LoadingSpinner text="Searching the bank..." />
+          ) : available.length === 0 ? (
+            <p className="py-6 text-center text-sm text-muted-foreground">No questions match these filters.</p>
+          ) : (
+            available.map((question) => (
+              <label
+                key={question.id}
+                htmlFor={`bank-${question.id}`}
+                className="flex cursor-pointer items-start gap-3 rounded-md border p-3"
+              >
+                <Checkbox
+                  id={`bank-${question.id}`}
+                  checked={selected.includes(question.id)}
+                  onCheckedChange={(checked) => setSelected((prev) => toggle(prev, question.id, checked === true))}
+                  className="mt-1"
+                />
+                <div className="flex-1 space-y-1">
+                  <p className="text-sm font-medium">{question.question_text}</p>
+                  <div className="flex flex-wrap gap-1">
+                    <Badge variant="secondary">
+                      {isQuestionType(question.type) ? QUESTION_TYPE_LABELS[question.type] : question.type}
+                    </Badge>
+                    {question.difficulty && (
+                      <Badge variant="secondary">{DIFFICULTY_LABELS[question.difficulty as Difficulty]}</Badge>
+                    )}
+                    {question.tags.map((tag) => (
+                      <Badge key={tag} variant="outline">
+                        {tag}
+                      </Badge>
+                    ))}
+                    <span className="text-xs text-muted-foreground">
+                      {question.quiz_count === 1 ? "In 1 quiz" : `In ${question.quiz_count} quizzes`}
+                    </span>
+                  </div>
+                </div>
+              </label>
+            ))
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleAdd} disabled={selected.length === 0}>
+            {selected.length === 1 ? "Add 1 Question" : `Add ${selected.length} Questions`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
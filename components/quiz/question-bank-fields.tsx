@@ -0,0 +1,103 @@
+"use client"
+
+import { useState } from "react"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { SlideSelect } from "@/components/content/slide-select"
+import { DIFFICULTIES, DIFFICULTY_LABELS, parseTags, type Difficulty } from "@/lib/question-types"
+
+// What the question bank knows about a question besides the question itself
+export interface QuestionBankDetails {
+  tags: string[]
+  difficulty: Difficulty | null
+  // The slide, and optionally page, the question was written from
+  slide_id: string | null
+  slide_page: number | null
+}
+
+interface QuestionBankFieldsProps {
+  id: string
+  value: QuestionBankDetails
+  onChange: (value: Partial<QuestionBankDetails>) => void
+  // Limits the slides offered to the quiz's course
+  courseId?: string
+  disabled?: boolean
+}
+
+export function QuestionBankFields({ id, value, onChange, courseId, disabled }: QuestionBankFieldsProps) {
+  // Kept as typed, so a trailing comma isn't removed before the next tag is written
+  const [tagText, setTagText] = useState(value.tags.join(", "))
+  const [pageText, setPageText] = useState(value.slide_page ? String(value.slide_page) : "")
+
+  return (
+    <div className="grid gap-4 sm:grid-cols-2">
+      <div className="space-y-2">
+        <Label htmlFor={`${id}-tags`}>Tags</Label>
+        <Input
+          id={`${id}-tags`}
+          value={tagText}
+          onChange={(e) => {
+            setTagText(e.target.value)
+            onChange({ tags: parseTags(e.target.value) })
+          }}
+          placeholder="e.g. recursion, big-o"
+          disabled={disabled}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={`${id}-difficulty`}>Difficulty</Label>
+        <Select
+          value={value.difficulty || "none"}
+          onValueChange={(selected) => onChange({ difficulty: selected === "none" ? null : (selected as Difficulty) })}
+          disabled={disabled}
+        >
+          <SelectTrigger id={`${id}-difficulty`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">Not set</SelectItem>
+            {DIFFICULTIES.map((difficulty) => (
+              <SelectItem key={difficulty} value={difficulty}>
+                {DIFFICULTY_LABELS[difficulty]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={`${id}-slide`}>Source slide</Label>
+        <SlideSelect
+          id={`${id}-slide`}
+          value={value.slide_id || ""}
+          onValueChange={(slideId) => {
+            // A page only means something for the slide it was given for
+            setPageText("")
+            onChange({ slide_id: slideId || null, slide_page: null })
+          }}
+          courseId={courseId}
+          disabled={disabled}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={`${id}-page`}>Page</Label>
+        <Input
+          id={`${id}-page`}
+          type="number"
+          min={1}
+          value={pageText}
+          onChange={(e) => {
+            setPageText(e.target.value)
+            const page = Number(e.target.value)
+            onChange({ slide_page: Number.isInteger(page) && page >= 1 ? page : null })
+          }}
+          placeholder="Any page"
+          disabled={disabled || !value.slide_id}
+        />
+      </div>
+    </div>
+  )
+}
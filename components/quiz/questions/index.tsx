@@ -0,0 +1,100 @@
+"use client"
+
+import type { QuestionAnswer, QuestionAnswerKey, QuestionContent, QuestionType } from "@/lib/question-types"
+import type { AnswerProps, EditorProps, ReviewProps } from "./types"
+import { MultipleChoiceAnswer, MultipleChoiceEditor, MultipleChoiceReview } from "./multiple-choice"
+import { TrueFalseAnswer, TrueFalseEditor, TrueFalseReview } from "./true-false"
+import { MultiSelectAnswer, MultiSelectEditor, MultiSelectReview } from "./multi-select"
+import { ShortAnswerAnswer, ShortAnswerEditor, ShortAnswerReview } from "./short-answer"
+import { NumericAnswer, NumericEditor, NumericReview } from "./numeric"
+import { OrderingAnswer, OrderingEditor, OrderingReview } from "./ordering"
+
+// The components that answer, review and edit each type of question
+const COMPONENTS: {
+  [T in QuestionType]: {
+    Answer: (props: AnswerProps<T>) => JSX.Element
+    Review: (props: ReviewProps<T>) => JSX.Element
+    Editor: (props: EditorProps<T>) => JSX.Element
+  }
+} = {
+  multiple_choice: { Answer: MultipleChoiceAnswer, Review: MultipleChoiceReview, Editor: MultipleChoiceEditor },
+  true_false: { Answer: TrueFalseAnswer, Review: TrueFalseReview, Editor: TrueFalseEditor },
+  multi_select: { Answer: MultiSelectAnswer, Review: MultiSelectReview, Editor: MultiSelectEditor },
+  short_answer: { Answer: ShortAnswerAnswer, Review: ShortAnswerReview, Editor: ShortAnswerEditor },
+  numeric: { Answer: NumericAnswer, Review: NumericReview, Editor: NumericEditor },
+  ordering: { Answer: OrderingAnswer, Review: OrderingReview, Editor: OrderingEditor },
+}
+
+// Questions come from the database with their type as a plain string and their
+// content, answers and keys as Json; these check the type and pass them through.
+
+interface QuestionAnswerInputProps {
+  id: string
+  type: string
+  content: unknown
+  value: unknown
+  onChange: (value: QuestionAnswer[QuestionType] | undefined) => void
+  optionOrder?: number[]
+  disabled?: boolean
+}
+
+export function QuestionAnswerInput({ type, ...props }: QuestionAnswerInputProps) {
+  const components = COMPONENTS[type as QuestionType]
+  if (!components) return <UnknownType type={type} />
+
+  const Answer = components.Answer as (props: AnswerProps<QuestionType>) => JSX.Element
+  return (
+    <Answer
+      {...props}
+      content={props.content as QuestionContent[QuestionType]}
+      value={(props.value ?? undefined) as QuestionAnswer[QuestionType] | undefined}
+    />
+  )
+}
+
+interface QuestionReviewBodyProps {
+  type: string
+  content: unknown
+  answer: unknown
+  answerKey: unknown
+  optionOrder?: number[]
+}
+
+export function QuestionReviewBody({ type, content, answer, answerKey, optionOrder }: QuestionReviewBodyProps) {
+  const components = COMPONENTS[type as QuestionType]
+  if (!components) return <UnknownType type={type} />
+
+  const Review = components.Review as (props: ReviewProps<QuestionType>) => JSX.Element
+  return (
+    <Review
+      content={content as QuestionContent[QuestionType]}
+      answer={(answer ?? null) as QuestionAnswer[QuestionType] | null}
+      answerKey={answerKey as QuestionAnswerKey[QuestionType]}
+      optionOrder={optionOrder}
+    />
+  )
+}
+
+interface QuestionKeyEditorProps {
+  id: string
+  type: QuestionType
+  content: unknown
+  answerKey: unknown
+  onChange: (content: QuestionContent[QuestionType], answerKey: QuestionAnswerKey[QuestionType]) => void
+  disabled?: boolean
+}
+
+export function QuestionKeyEditor({ type, content, answerKey, ...props }: QuestionKeyEditorProps) {
+  const Editor = COMPONENTS[type].Editor as (props: EditorProps<QuestionType>) => JSX.Element
+  return (
+    <Editor
+      {...props}
+      content={content as QuestionContent[QuestionType]}
+      answerKey={answerKey as QuestionAnswerKey[QuestionType]}
+    />
+  )
+}
+
+function UnknownType({ type }: { type: string }) {
+  return <p className="text-sm text-muted-foreground">This question's type ({type}) isn't supported.</p>
+}
@@ -0,0 +1,88 @@
+"use client"
+
+import { Checkbox } from "@/components/ui/checkbox"
+import { Label } from "@/components/ui/label"
+import { ReviewRow } from "./review-row"
+import { OptionListEditor, optionLetter, shiftIndex, shownOrder } from "./multiple-choice"
+import type { AnswerProps, EditorProps, ReviewProps } from "./types"
+
+// Adds or removes an index, keeping the list sorted
+function toggle(indexes: number[], index: number, checked: boolean) {
+  const rest = indexes.filter((other) => other !== index)
+  return (checked ? [...rest, index] : rest).sort((a, b) => a - b)
+}
+
+export function MultiSelectAnswer({ id, content, value, onChange, optionOrder, disabled }: AnswerProps<"multi_select">) {
+  const selected = value || []
+
+  return (
+    <div className="grid gap-2">
+      {shownOrder(content.options.length, optionOrder).map((index) => (
+        <div key={index} className="flex items-center space-x-2">
+          <Checkbox
+            id={`${id}-${index}`}
+            checked={selected.includes(index)}
+            onCheckedChange={(checked) => {
+              const next = toggle(selected, index, checked === true)
+              onChange(next.length ? next : undefined)
+            }}
+            disabled={disabled}
+          />
+          <Label htmlFor={`${id}-${index}`}>{content.options[index]}</Label>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export function MultiSelectReview({ content, answer, answerKey, optionOrder }: ReviewProps<"multi_select">) {
+  return (
+    <div className="space-y-2">
+      {shownOrder(content.options.length, optionOrder).map((index, position) => {
+        const isCorrect = answerKey.correct.includes(index)
+        const isSelected = !!answer?.includes(index)
+
+        return (
+          <ReviewRow
+            key={index}
+            isCorrect={isCorrect}
+            isSelected={isSelected}
+            note={isCorrect && !isSelected ? "Missed" : undefined}
+          >
+            <span className="mr-2 font-medium">{optionLetter(position)}.</span>
+            {content.options[index]}
+          </ReviewRow>
+        )
+      })}
+    </div>
+  )
+}
+
+export function MultiSelectEditor({ id, content, answerKey, onChange, disabled }: EditorProps<"multi_select">) {
+  return (
+    <div className="space-y-2">
+      <Label>Options — check every correct answer</Label>
+      <OptionListEditor
+        id={id}
+        options={content.options}
+        onChange={(options, removed) =>
+          onChange(
+            { options },
+            { correct: answerKey.correct.map((index) => shiftIndex(index, removed)).filter((index) => index >= 0) },
+          )
+        }
+        marker={(index) => (
+          <Checkbox
+            checked={answerKey.correct.includes(index)}
+            onCheckedChange={(checked) =>
+              onChange(content, { correct: toggle(answerKey.correct, index, checked === true) })
+            }
+            disabled={disabled}
+            aria-label={`Option ${optionLetter(index)} is correct`}
+          />
+        )}
+        disabled={disabled}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,137 @@
+"use client"
+
+import type React from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import { Plus, X } from "lucide-react"
+import { ReviewRow } from "./review-row"
+import type { AnswerProps, EditorProps, ReviewProps } from "./types"
+
+const MAX_OPTIONS = 8
+
+export const optionLetter = (index: number) => String.fromCharCode(65 + index)
+
+// The stored indexes of a question's options in the order they are shown. Answers always
+// use the stored indexes, so shuffling only changes what is on screen.
+export function shownOrder(count: number, optionOrder?: number[]) {
+  if (optionOrder && optionOrder.length === count) return optionOrder
+  return Array.from({ length: count }, (_, index) => index)
+}
+
+export function MultipleChoiceAnswer({
+  id,
+  content,
+  value,
+  onChange,
+  optionOrder,
+  disabled,
+}: AnswerProps<"multiple_choice">) {
+  return (
+    <RadioGroup
+      value={value === undefined ? "" : String(value)}
+      onValueChange={(selected) => onChange(Number(selected))}
+      disabled={disabled}
+    >
+      {shownOrder(content.options.length, optionOrder).map((index) => (
+        <div key={index} className="flex items-center space-x-2">
+          <RadioGroupItem value={String(index)} id={`${id}-${index}`} />
+          <Label htmlFor={`${id}-${index}`}>{content.options[index]}</Label>
+        </div>
+      ))}
+    </RadioGroup>
+  )
+}
+
+export function MultipleChoiceReview({ content, answer, answerKey, optionOrder }: ReviewProps<"multiple_choice">) {
+  return (
+    <div className="space-y-2">
+      {shownOrder(content.options.length, optionOrder).map((index, position) => (
+        <ReviewRow key={index} isCorrect={answerKey.correct === index} isSelected={answer === index}>
+          <span className="mr-2 font-medium">{optionLetter(position)}.</span>
+          {content.options[index]}
+        </ReviewRow>
+      ))}
+    </div>
+  )
+}
+
+interface OptionListEditorProps {
+  id: string
+  options: string[]
+  onChange: (options: string[], removed?: number) => void
+  // Renders the control that marks an option correct
+  marker: (index: number) => React.ReactNode
+  disabled?: boolean
+}
+
+// The option inputs shared by multiple choice and multi-select questions
+export function OptionListEditor({ id, options, onChange, marker, disabled }: OptionListEditorProps) {
+  return (
+    <div className="space-y-2">
+      {options.map((option, index) => (
+        <div key={index} className="flex items-center space-x-2">
+          {marker(index)}
+          <Label htmlFor={`${id}-option-${index}`} className="w-4">
+            {optionLetter(index)}
+          </Label>
+          <Input
+            id={`${id}-option-${index}`}
+            value={option}
+            onChange={(e) => onChange(options.map((other, i) => (i === index ? e.target.value : other)))}
+            placeholder={`Option ${optionLetter(index)}`}
+            disabled={disabled}
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={() => onChange(options.filter((_, i) => i !== index), index)}
+            disabled={disabled || options.length <= 2}
+            aria-label={`Remove option ${optionLetter(index)}`}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        onClick={() => onChange([...options, ""])}
+        disabled={disabled || options.length >= MAX_OPTIONS}
+      >
+        <Plus className="h-4 w-4 mr-2" />
+        Add Option
+      </Button>
+    </div>
+  )
+}
+
+// Keeps an option index pointing at the same option after another one is removed
+export function shiftIndex(index: number, removed: number | undefined) {
+  if (removed === undefined || index < removed) return index
+  return index === removed ? -1 : index - 1
+}
+
+export function MultipleChoiceEditor({ id, content, answerKey, onChange, disabled }: EditorProps<"multiple_choice">) {
+  return (
+    <div className="space-y-2">
+      <Label>Options — select the correct answer</Label>
+      <RadioGroup
+        value={answerKey.correct >= 0 ? String(answerKey.correct) : ""}
+        onValueChange={(selected) => onChange(content, { correct: Number(selected) })}
+        disabled={disabled}
+      >
+        <OptionListEditor
+          id={id}
+          options={content.options}
+          onChange={(options, removed) => onChange({ options }, { correct: shiftIndex(answerKey.correct, removed) })}
+          marker={(index) => <RadioGroupItem value={String(index)} aria-label={`Option ${optionLetter(index)} is correct`} />}
+          disabled={disabled}
+        />
+      </RadioGroup>
+    </div>
+  )
+}
@@ -0,0 +1,90 @@
+"use client"
+
+import { useState } from "react"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { ReviewRow } from "./review-row"
+import type { AnswerProps, EditorProps, ReviewProps } from "./types"
+
+// Null for text that isn't a number yet, e.g. "-" while typing
+function parseNumber(text: string) {
+  const value = Number(text)
+  return text.trim() && Number.isFinite(value) ? value : null
+}
+
+export function NumericAnswer({ id, value, onChange, disabled }: AnswerProps<"numeric">) {
+  // Kept as text so partial input like "0." isn't overwritten while typing
+  const [text, setText] = useState(value === undefined ? "" : String(value))
+
+  return (
+    <Input
+      id={id}
+      type="number"
+      step="any"
+      value={text}
+      onChange={(e) => {
+        setText(e.target.value)
+        onChange(parseNumber(e.target.value) ?? undefined)
+      }}
+      placeholder="Your answer"
+      className="max-w-xs"
+      disabled={disabled}
+    />
+  )
+}
+
+export function NumericReview({ answer, answerKey }: ReviewProps<"numeric">) {
+  return (
+    <div className="space-y-2">
+      {answer !== null && (
+        <ReviewRow isSelected note="Your answer">
+          {answer}
+        </ReviewRow>
+      )}
+      <ReviewRow isCorrect note="Correct answer">
+        {answerKey.value}
+        {answerKey.tolerance ? ` ± ${answerKey.tolerance}` : ""}
+      </ReviewRow>
+    </div>
+  )
+}
+
+export function NumericEditor({ id, content, answerKey, onChange, disabled }: EditorProps<"numeric">) {
+  const [value, setValue] = useState(String(answerKey.value))
+  const [tolerance, setTolerance] = useState(String(answerKey.tolerance ?? 0))
+
+  return (
+    <div className="grid gap-4 sm:grid-cols-2">
+      <div className="space-y-2">
+        <Label htmlFor={`${id}-value`}>Correct value</Label>
+        <Input
+          id={`${id}-value`}
+          type="number"
+          step="any"
+          value={value}
+          onChange={(e) => {
+            setValue(e.target.value)
+            // NaN fails validation, so an incomplete value can't be saved
+            onChange(content, { ...answerKey, value: parseNumber(e.target.value) ?? NaN })
+          }}
+          disabled={disabled}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`${id}-tolerance`}>Tolerance (±)</Label>
+        <Input
+          id={`${id}-tolerance`}
+          type="number"
+          step="any"
+          min={0}
+          value={tolerance}
+          onChange={(e) => {
+            setTolerance(e.target.value)
+            onChange(content, { ...answerKey, tolerance: parseNumber(e.target.value) ?? 0 })
+          }}
+          disabled={disabled}
+        />
+      </div>
+    </div>
+  )
+}
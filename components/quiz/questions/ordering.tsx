@@ -0,0 +1,159 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { ArrowDown, ArrowUp, Check, Plus, X } from "lucide-react"
+import { shownOrder } from "./multiple-choice"
+import { ReviewRow } from "./review-row"
+import type { AnswerProps, EditorProps, ReviewProps } from "./types"
+
+const MAX_ITEMS = 10
+
+function move<T>(list: T[], index: number, offset: number) {
+  const next = [...list]
+  const [item] = next.splice(index, 1)
+  next.splice(index + offset, 0, item)
+  return next
+}
+
+interface MoveButtonsProps {
+  index: number
+  count: number
+  onMove: (offset: number) => void
+  disabled?: boolean
+}
+
+function MoveButtons({ index, count, onMove, disabled }: MoveButtonsProps) {
+  return (
+    <div className="flex shrink-0">
+      <Button
+        type="button"
+        variant="ghost"
+        size="icon"
+        onClick={() => onMove(-1)}
+        disabled={disabled || index === 0}
+        aria-label="Move up"
+      >
+        <ArrowUp className="h-4 w-4" />
+      </Button>
+      <Button
+        type="button"
+        variant="ghost"
+        size="icon"
+        onClick={() => onMove(1)}
+        disabled={disabled || index === count - 1}
+        aria-label="Move down"
+      >
+        <ArrowDown className="h-4 w-4" />
+      </Button>
+    </div>
+  )
+}
+
+export function OrderingAnswer({ content, value, onChange, optionOrder, disabled }: AnswerProps<"ordering">) {
+  // Unanswered until the student moves an item or keeps the order they were shown
+  const order = value || shownOrder(content.items.length, optionOrder)
+
+  return (
+    <div className="space-y-2">
+      <ol className="space-y-2">
+        {order.map((itemIndex, position) => (
+          <li key={itemIndex} className="flex items-center gap-2 rounded-md border px-3 py-1 text-sm">
+            <span className="w-5 font-medium text-muted-foreground">{position + 1}.</span>
+            <span className="flex-1">{content.items[itemIndex]}</span>
+            <MoveButtons
+              index={position}
+              count={order.length}
+              onMove={(offset) => onChange(move(order, position, offset))}
+              disabled={disabled}
+            />
+          </li>
+        ))}
+      </ol>
+      {!value && (
+        <Button type="button" variant="outline" size="sm" onClick={() => onChange(order)} disabled={disabled}>
+          <Check className="h-4 w-4 mr-2" />
+          Keep This Order
+        </Button>
+      )}
+    </div>
+  )
+}
+
+export function OrderingReview({ content, answer, answerKey }: ReviewProps<"ordering">) {
+  return (
+    <div className="grid gap-4 sm:grid-cols-2">
+      {answer && (
+        <div className="space-y-2">
+          <p className="text-xs font-medium text-muted-foreground">Your order</p>
+          {answer.map((itemIndex, position) => (
+            <ReviewRow key={position} isSelected isCorrect={answerKey.order[position] === itemIndex} note="">
+              <span className="mr-2 font-medium">{position + 1}.</span>
+              {content.items[itemIndex]}
+            </ReviewRow>
+          ))}
+        </div>
+      )}
+      <div className="space-y-2">
+        <p className="text-xs font-medium text-muted-foreground">Correct order</p>
+        {answerKey.order.map((itemIndex, position) => (
+          <ReviewRow key={position} isCorrect note="">
+            <span className="mr-2 font-medium">{position + 1}.</span>
+            {content.items[itemIndex]}
+          </ReviewRow>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+// Items are edited in their correct order; save_quiz shuffles them for students
+export function OrderingEditor({ id, content, answerKey, onChange, disabled }: EditorProps<"ordering">) {
+  const items = answerKey.order.map((index) => content.items[index] ?? "")
+  const update = (next: string[]) => onChange({ items: next }, { order: next.map((_, index) => index) })
+
+  return (
+    <div className="space-y-2">
+      <Label>Items, in the correct order</Label>
+      {items.map((item, index) => (
+        <div key={index} className="flex items-center space-x-2">
+          <span className="w-5 text-sm font-medium text-muted-foreground">{index + 1}.</span>
+          <Input
+            id={`${id}-item-${index}`}
+            value={item}
+            onChange={(e) => update(items.map((other, i) => (i === index ? e.target.value : other)))}
+            placeholder={`Item ${index + 1}`}
+            disabled={disabled}
+          />
+          <MoveButtons
+            index={index}
+            count={items.length}
+            onMove={(offset) => update(move(items, index, offset))}
+            disabled={disabled}
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={() => update(items.filter((_, i) => i !== index))}
+            disabled={disabled || items.length <= 2}
+            aria-label={`Remove item ${index + 1}`}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        onClick={() => update([...items, ""])}
+        disabled={disabled || items.length >= MAX_ITEMS}
+      >
+        <Plus className="h-4 w-4 mr-2" />
+        Add Item
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,28 @@
+import type React from "react"
+import { cn } from "@/lib/utils"
+
+interface ReviewRowProps {
+  children: React.ReactNode
+  isCorrect?: boolean
+  isSelected?: boolean
+  // Overrides the "Your answer" / "Correct answer" note
+  note?: string
+}
+
+// One option or answer in a review, marked green when correct and red when wrongly chosen
+export function ReviewRow({ children, isCorrect = false, isSelected = false, note }: ReviewRowProps) {
+  return (
+    <div
+      className={cn(
+        "flex items-center justify-between gap-4 rounded-md border px-3 py-2 text-sm",
+        isCorrect && "border-green-500 bg-green-50 dark:bg-green-950/30",
+        isSelected && !isCorrect && "border-red-500 bg-red-50 dark:bg-red-950/30",
+      )}
+    >
+      <span>{children}</span>
+      <span className="shrink-0 text-xs text-muted-foreground">
+        {note ?? (isSelected ? "Your answer" : isCorrect ? "Correct answer" : "")}
+      </span>
+    </div>
+  )
+}
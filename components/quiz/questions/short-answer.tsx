@@ -0,0 +1,66 @@
+"use client"
+
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Switch } from "@/components/ui/switch"
+import { ReviewRow } from "./review-row"
+import type { AnswerProps, EditorProps, ReviewProps } from "./types"
+
+export function ShortAnswerAnswer({ id, value, onChange, disabled }: AnswerProps<"short_answer">) {
+  return (
+    <Input
+      id={id}
+      value={value || ""}
+      onChange={(e) => onChange(e.target.value || undefined)}
+      placeholder="Your answer"
+      disabled={disabled}
+    />
+  )
+}
+
+export function ShortAnswerReview({ answer, answerKey }: ReviewProps<"short_answer">) {
+  const accepted = answerKey.accepted.filter((variant) => variant.trim())
+
+  return (
+    <div className="space-y-2">
+      {answer && (
+        <ReviewRow isSelected note="Your answer">
+          {answer}
+        </ReviewRow>
+      )}
+      <ReviewRow isCorrect note={accepted.length > 1 ? "Accepted answers" : "Correct answer"}>
+        {accepted.join(" · ")}
+      </ReviewRow>
+    </div>
+  )
+}
+
+export function ShortAnswerEditor({ id, content, answerKey, onChange, disabled }: EditorProps<"short_answer">) {
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor={`${id}-accepted`}>Accepted answers</Label>
+        <Textarea
+          id={`${id}-accepted`}
+          value={answerKey.accepted.join("\n")}
+          onChange={(e) => onChange(content, { ...answerKey, accepted: e.target.value.split("\n") })}
+          placeholder="One accepted answer per line"
+          disabled={disabled}
+        />
+        <p className="text-xs text-muted-foreground">
+          Answers match any line, ignoring extra spaces.
+        </p>
+      </div>
+      <div className="flex items-center space-x-2">
+        <Switch
+          id={`${id}-case-sensitive`}
+          checked={!!answerKey.case_sensitive}
+          onCheckedChange={(checked) => onChange(content, { ...answerKey, case_sensitive: checked })}
+          disabled={disabled}
+        />
+        <Label htmlFor={`${id}-case-sensitive`}>Case sensitive</Label>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,60 @@
+"use client"
+
+import { Label } from "@/components/ui/label"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import { ReviewRow } from "./review-row"
+import type { AnswerProps, EditorProps, ReviewProps } from "./types"
+
+const CHOICES = [
+  { value: true, label: "True" },
+  { value: false, label: "False" },
+]
+
+export function TrueFalseAnswer({ id, value, onChange, disabled }: AnswerProps<"true_false">) {
+  return (
+    <RadioGroup
+      value={value === undefined ? "" : String(value)}
+      onValueChange={(selected) => onChange(selected === "true")}
+      disabled={disabled}
+    >
+      {CHOICES.map((choice) => (
+        <div key={choice.label} className="flex items-center space-x-2">
+          <RadioGroupItem value={String(choice.value)} id={`${id}-${choice.value}`} />
+          <Label htmlFor={`${id}-${choice.value}`}>{choice.label}</Label>
+        </div>
+      ))}
+    </RadioGroup>
+  )
+}
+
+export function TrueFalseReview({ answer, answerKey }: ReviewProps<"true_false">) {
+  return (
+    <div className="space-y-2">
+      {CHOICES.map((choice) => (
+        <ReviewRow key={choice.label} isCorrect={answerKey.correct === choice.value} isSelected={answer === choice.value}>
+          {choice.label}
+        </ReviewRow>
+      ))}
+    </div>
+  )
+}
+
+export function TrueFalseEditor({ id, content, answerKey, onChange, disabled }: EditorProps<"true_false">) {
+  return (
+    <div className="space-y-2">
+      <Label>Correct answer</Label>
+      <RadioGroup
+        value={String(answerKey.correct)}
+        onValueChange={(selected) => onChange(content, { correct: selected === "true" })}
+        disabled={disabled}
+      >
+        {CHOICES.map((choice) => (
+          <div key={choice.label} className="flex items-center space-x-2">
+            <RadioGroupItem value={String(choice.value)} id={`${id}-${choice.value}`} />
+            <Label htmlFor={`${id}-${choice.value}`}>{choice.label}</Label>
+          </div>
+        ))}
+      </RadioGroup>
+    </div>
+  )
+}
@@ -0,0 +1,30 @@
+import type { QuestionAnswer, QuestionAnswerKey, QuestionContent, QuestionType } from "@/lib/question-types"
+
+// Props shared by every question type's components
+
+export interface AnswerProps<T extends QuestionType> {
+  // Unique per question, for input ids
+  id: string
+  content: QuestionContent[T]
+  value: QuestionAnswer[T] | undefined
+  onChange: (value: QuestionAnswer[T] | undefined) => void
+  // Stored option (or item) indexes in the order they are shown, when the quiz shuffles them
+  optionOrder?: number[]
+  disabled?: boolean
+}
+
+export interface ReviewProps<T extends QuestionType> {
+  content: QuestionContent[T]
+  // Null when the question wasn't answered
+  answer: QuestionAnswer[T] | null
+  answerKey: QuestionAnswerKey[T]
+  optionOrder?: number[]
+}
+
+export interface EditorProps<T extends QuestionType> {
+  id: string
+  content: QuestionContent[T]
+  answerKey: QuestionAnswerKey[T]
+  onChange: (content: QuestionContent[T], answerKey: QuestionAnswerKey[T]) => void
+  disabled?: boolean
+}
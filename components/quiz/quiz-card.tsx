@@ -0,0 +1,89 @@
+import Link from "next/link";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Clock, FileText, Pencil } from "lucide-react";
+
+export interface QuizSummary {
+  id: string;
+  title: string;
+  description: string | null;
+  time_limit: number;
+  question_count: number;
+  questions_per_attempt: number | null;
+  status: string;
+  created_at: string;
+  courses?: { code: string; name: string } | null;
+}
+
+interface QuizCardProps {
+  quiz: QuizSummary;
+  // Shows an edit link, for instructors and admins
+  canEdit?: boolean;
+}
+
+export function QuizCard({ quiz, canEdit = false }: QuizCardProps) {
+  const isDraft = quiz.status === "draft";
+  const isDrawn =
+    quiz.questions_per_attempt !== null &&
+    quiz.questions_per_attempt < quiz.question_count;
+
+  return (
+    <Card className="flex flex-col">
+      <CardHeader>
+        {(quiz.courses || isDraft) && (
+          <div className="flex gap-2">
+            {quiz.courses && (
+              <Badge variant="outline" className="w-fit">
+                {quiz.courses.code}
+              </Badge>
+            )}
+            {isDraft && (
+              <Badge variant="secondary" className="w-fit">
+                Draft
+              </Badge>
+            )}
+          </div>
+        )}
+        <CardTitle>{quiz.title}</CardTitle>
+        <CardDescription>{quiz.description}</CardDescription>
+      </CardHeader>
+      <CardContent className="flex-1">
+        <div className="flex items-center space-x-2 text-sm text-muted-foreground">
+          <Clock className="h-4 w-4" />
+          <span>{quiz.time_limit} minutes</span>
+        </div>
+        <div className="mt-2 flex items-center space-x-2 text-sm text-muted-foreground">
+          <FileText className="h-4 w-4" />
+          <span>
+            {isDrawn
+              ? `${quiz.questions_per_attempt} of ${quiz.question_count} questions`
+              : `${quiz.question_count} questions`}
+          </span>
+        </div>
+      </CardContent>
+      <CardFooter className="gap-2">
+        {!isDraft && (
+          <Button asChild className="w-full">
+            <Link href={`/quizzes/${quiz.id}`}>Start Quiz</Link>
+          </Button>
+        )}
+        {canEdit && (
+          <Button asChild variant={isDraft ? "default" : "outline"} className={isDraft ? "w-full" : ""}>
+            <Link href={`/quizzes/${quiz.id}/edit`}>
+              <Pencil className="h-4 w-4 mr-2" />
+              Edit
+            </Link>
+          </Button>
+        )}
+      </CardFooter>
+    </Card>
+  );
+}
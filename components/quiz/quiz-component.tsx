@@ -1,56 +1,126 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useRef } from "react"
 import { useRouter } from "next/navigation"
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
-import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
-import { Label } from "@/components/ui/label"
 import { useToast } from "@/components/ui/use-toast"
+import { QuestionAnswerInput } from "@/components/quiz/questions"
 import { useSupabase } from "@/lib/supabase/provider"
+import { isQuestionType, QUESTION_TYPE_PROMPTS } from "@/lib/question-types"
 import { Clock } from "lucide-react"
+import type { Json, Tables } from "@/types/supabase"
+
+// Questions are loaded without the answer key
+type QuizQuestion = Pick<Tables<"questions">, "id" | "question_text" | "type" | "content">
+
+// How an attempt's questions and options are laid out, from attempt_state
+export interface AttemptLayout {
+  // The attempt's question ids in the order they are asked
+  question_order: string[]
+  // Stored option indexes in the order shown, for questions whose options are shuffled
+  option_orders: Record<string, number[]>
+}
+
+// The shape returned by start_quiz_attempt
+export interface QuizAttempt extends AttemptLayout {
+  id: string
+  quiz_id: string
+  // The questions asked; null means every question in the quiz
+  question_ids: string[] | null
+  // The submission whose missed questions this attempt retries
+  retry_of: string | null
+  answers: Record<string, Json>
+  current_question: number
+  started_at: string
+  deadline: string
+  seconds_left: number
+}
+
+// How long answers sit unsaved after a change before they are autosaved
+const AUTOSAVE_DELAY_MS = 800
+
+type SaveState = "saved" | "saving" | "error"
 
 interface QuizComponentProps {
-  quiz: any
-  questions: any[]
-  userId: string
+  quiz: Pick<Tables<"quizzes">, "id" | "time_limit">
+  questions: QuizQuestion[]
+  attempt: QuizAttempt
 }
 
-export function QuizComponent({ quiz, questions, userId }: QuizComponentProps) {
-  const [currentQuestion, setCurrentQuestion] = useState(0)
-  const [answers, setAnswers] = useState<Record<string, string>>({})
-  const [timeLeft, setTimeLeft] = useState(quiz.time_limit * 60)
+export function QuizComponent({ quiz, questions, attempt }: QuizComponentProps) {
+  const [currentQuestion, setCurrentQuestion] = useState(() =>
+    Math.min(attempt.current_question, Math.max(questions.length - 1, 0)),
+  )
+  const [answers, setAnswers] = useState<Record<string, Json>>(attempt.answers || {})
+  const [timeLeft, setTimeLeft] = useState(attempt.seconds_left)
   const [isSubmitting, setIsSubmitting] = useState(false)
+  const [saveState, setSaveState] = useState<SaveState>("saved")
   const { supabase } = useSupabase()
   const { toast } = useToast()
   const router = useRouter()
 
+  // The timer submits from a closure created on mount, so it reads these instead of state
+  const answersRef = useRef(answers)
+  answersRef.current = answers
+  const submittedRef = useRef(false)
+  const isFirstRender = useRef(true)
+
   useEffect(() => {
-    const timer = setInterval(() => {
-      setTimeLeft((prev) => {
-        if (prev <= 1) {
-          clearInterval(timer)
-          handleSubmitQuiz()
-          return 0
-        }
-        return prev - 1
-      })
-    }, 1000)
+    // Count down to the server's deadline, measured from when the page loaded, so a
+    // throttled background tab still ends on time
+    const endsAt = Date.now() + attempt.seconds_left * 1000
+
+    const tick = () => {
+      const remaining = Math.max(0, Math.ceil((endsAt - Date.now()) / 1000))
+      setTimeLeft(remaining)
+      if (remaining === 0) {
+        clearInterval(timer)
+        handleSubmitQuiz()
+      }
+    }
+
+    const timer = setInterval(tick, 1000)
+    tick()
 
     return () => clearInterval(timer)
   }, [])
 
+  // Autosave answers and position, so reloading the page resumes the attempt
+  useEffect(() => {
+    if (isFirstRender.current) {
+      isFirstRender.current = false
+      return
+    }
+    if (submittedRef.current) return
+
+    setSaveState("saving")
+    const timeout = setTimeout(async () => {
+      const { error } = await supabase.rpc("save_quiz_attempt", {
+        p_attempt_id: attempt.id,
+        p_answers: answers,
+        p_current_question: currentQuestion,
+      })
+      if (error) {
+        console.error("Error autosaving attempt:", error.message)
+      }
+      setSaveState(error ? "error" : "saved")
+    }, AUTOSAVE_DELAY_MS)
+
+    return () => clearTimeout(timeout)
+  }, [answers, currentQuestion])
+
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60)
     const secs = seconds % 60
     return `${mins}:${secs < 10 ? "0" : ""}${secs}`
   }
 
-  const handleAnswerChange = (questionId: string, value: string) => {
-    setAnswers((prev) => ({
-      ...prev,
-      [questionId]: value,
-    }))
+  const handleAnswerChange = (questionId: string, value: Json | undefined) => {
+    setAnswers((prev) => {
+      const { [questionId]: _, ...rest } = prev
+      return value === undefined ? rest : { ...rest, [questionId]: value }
+    })
   }
 
   const handleNextQuestion = () => {
@@ -66,43 +136,33 @@ export function QuizComponent({ quiz, questions, userId }: QuizComponentProps) {
   }
 
   const handleSubmitQuiz = async () => {
-    if (isSubmitting) return
+    if (submittedRef.current) return
+    submittedRef.current = true
     setIsSubmitting(true)
 
     try {
-      // Calculate score
-      let correctAnswers = 0
-      questions.forEach((question) => {
-        if (answers[question.id] === question.correct_answer) {
-          correctAnswers++
-        }
+      // Grading happens in the database, which also times the attempt from its start;
+      // the browser never sees the answer key
+      const { data: result, error } = await supabase.rpc("submit_quiz_attempt", {
+        p_attempt_id: attempt.id,
+        p_answers: answersRef.current,
       })
 
-      const score = Math.round((correctAnswers / questions.length) * 100)
-
-      // Submit quiz results
-      const { error } = await supabase.from("quiz_submissions").insert([
-        {
-          user_id: userId,
-          quiz_id: quiz.id,
-          score,
-          time_taken: quiz.time_limit * 60 - timeLeft,
-          answers: answers,
-        },
-      ])
-
       if (error) {
         throw error
       }
 
+      const { submission_id, score } = result as { submission_id: string; score: number }
+
       toast({
         title: "Quiz submitted",
         description: `Your score: ${score}%`,
       })
 
       // Redirect to results page
-      router.push(`/quizzes/results?score=${score}&total=${questions.length}&correct=${correctAnswers}`)
+      router.push(`/quizzes/results/${submission_id}`)
     } catch (error: any) {
+      submittedRef.current = false
       toast({
         title: "Error submitting quiz",
         description: error.message || "Please try again.",
@@ -136,30 +196,32 @@ export function QuizComponent({ quiz, questions, userId }: QuizComponentProps) {
           <CardTitle>
             Question {currentQuestion + 1} of {questions.length}
           </CardTitle>
-          <div className="flex items-center text-muted-foreground">
-            <Clock className="mr-2 h-4 w-4" />
-            <span>{formatTime(timeLeft)}</span>
+          <div className="flex items-center gap-4 text-muted-foreground">
+            <span className={saveState === "error" ? "text-xs text-destructive" : "text-xs"}>
+              {saveState === "saving" ? "Saving..." : saveState === "error" ? "Not saved" : "Saved"}
+            </span>
+            <div className="flex items-center">
+              <Clock className="mr-2 h-4 w-4" />
+              <span>{formatTime(timeLeft)}</span>
+            </div>
           </div>
         </div>
-        <CardDescription>Select the best answer for each question</CardDescription>
+        <CardDescription>
+          {isQuestionType(question.type) ? QUESTION_TYPE_PROMPTS[question.type] : "Answer the question"}
+        </CardDescription>
       </CardHeader>
       <CardContent>
         <div className="space-y-6">
           <div className="text-lg font-medium">{question.question_text}</div>
-          <RadioGroup
-            value={answers[question.id] || ""}
-            onValueChange={(value) => handleAnswerChange(question.id, value)}
-          >
-            {["option_a", "option_b", "option_c", "option_d"].map(
-              (option, index) =>
-                question[option] && (
-                  <div key={option} className="flex items-center space-x-2">
-                    <RadioGroupItem value={option.slice(-1)} id={`${question.id}-${option}`} />
-                    <Label htmlFor={`${question.id}-${option}`}>{question[option]}</Label>
-                  </div>
-                ),
-            )}
-          </RadioGroup>
+          <QuestionAnswerInput
+            key={question.id}
+            id={question.id}
+            type={question.type}
+            content={question.content}
+            value={answers[question.id]}
+            onChange={(value) => handleAnswerChange(question.id, value)}
+            optionOrder={attempt.option_orders[question.id]}
+          />
         </div>
       </CardContent>
       <CardFooter className="flex justify-between">
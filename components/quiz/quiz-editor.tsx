@@ -0,0 +1,478 @@
+"use client"
+
+import type React from "react"
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Switch } from "@/components/ui/switch"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ErrorMessage } from "@/components/ui/error-message"
+import { useToast } from "@/components/ui/use-toast"
+import { CourseSelect } from "@/components/courses/course-select"
+import { QuestionKeyEditor } from "@/components/quiz/questions"
+import { QuestionBankFields, type QuestionBankDetails } from "@/components/quiz/question-bank-fields"
+import { QuestionBankDialog, type BankQuestion } from "@/components/quiz/question-bank-dialog"
+import { useSupabase } from "@/lib/supabase/provider"
+import {
+  defaultAnswerKey,
+  defaultContent,
+  questionError,
+  QUESTION_TYPE_LABELS,
+  QUESTION_TYPES,
+  type Difficulty,
+  type QuestionType,
+} from "@/lib/question-types"
+import { ArrowDown, ArrowUp, Copy, Library, Plus, Trash2 } from "lucide-react"
+import type { Json } from "@/types/supabase"
+
+export interface EditableQuestion extends QuestionBankDetails {
+  // The bank question's id; missing for questions that haven't been saved yet
+  id?: string
+  type: QuestionType
+  question_text: string
+  content: Json
+  answer_key: Json
+  explanation: string | null
+  // How many other quizzes ask this question, which edits here also change
+  other_quiz_count?: number
+  // False for questions written by another instructor, which can be asked as they are or copied
+  can_edit?: boolean
+}
+
+// The shape returned by get_quiz_for_editing
+export interface EditableQuiz {
+  id: string
+  title: string
+  description: string | null
+  time_limit: number
+  status: "draft" | "published"
+  shuffle_questions: boolean
+  shuffle_options: boolean
+  // Null asks every question
+  questions_per_attempt: number | null
+  course_id: string | null
+  slide_id: string | null
+  updated_at: string | null
+  questions: EditableQuestion[]
+}
+
+// Questions need a stable key while they are reordered, before they have an id
+type DraftQuestion = EditableQuestion & { key: string }
+
+function emptyQuestion(type: QuestionType = "multiple_choice"): DraftQuestion {
+  return {
+    key: crypto.randomUUID(),
+    type,
+    question_text: "",
+    content: defaultContent(type),
+    answer_key: defaultAnswerKey(type),
+    explanation: "",
+    tags: [],
+    difficulty: null,
+    slide_id: null,
+    slide_page: null,
+  }
+}
+
+function fromBank(question: BankQuestion): DraftQuestion {
+  return {
+    key: question.id,
+    id: question.id,
+    type: question.type as QuestionType,
+    question_text: question.question_text,
+    content: question.content,
+    answer_key: question.answer_key,
+    explanation: question.explanation,
+    tags: question.tags,
+    difficulty: question.difficulty as Difficulty | null,
+    slide_id: question.slide_id,
+    slide_page: question.slide_page,
+    other_quiz_count: question.quiz_count,
+    can_edit: question.can_edit,
+  }
+}
+
+interface QuizEditorProps {
+  // When given, the editor updates this quiz instead of creating a new one
+  quiz?: EditableQuiz
+}
+
+export function QuizEditor({ quiz }: QuizEditorProps) {
+  const { supabase } = useSupabase()
+  const { toast } = useToast()
+  const router = useRouter()
+  const [title, setTitle] = useState(quiz?.title || "")
+  const [description, setDescription] = useState(quiz?.description || "")
+  const [timeLimit, setTimeLimit] = useState(String(quiz?.time_limit ?? 10))
+  const [courseId, setCourseId] = useState(quiz?.course_id || "")
+  const [published, setPublished] = useState(quiz?.status === "published")
+  const [shuffleQuestions, setShuffleQuestions] = useState(quiz?.shuffle_questions ?? false)
+  const [shuffleOptions, setShuffleOptions] = useState(quiz?.shuffle_options ?? false)
+  // Blank asks every question
+  const [perAttempt, setPerAttempt] = useState(quiz?.questions_per_attempt ? String(quiz.questions_per_attempt) : "")
+  const [questions, setQuestions] = useState<DraftQuestion[]>(() =>
+    quiz?.questions.length
+      ? quiz.questions.map((question) => ({ ...question, key: question.id || crypto.randomUUID() }))
+      : [emptyQuestion()],
+  )
+  const [isBankOpen, setIsBankOpen] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const updateQuestion = (key: string, values: Partial<EditableQuestion>) => {
+    setQuestions((prev) => prev.map((question) => (question.key === key ? { ...question, ...values } : question)))
+  }
+
+  const moveQuestion = (index: number, offset: number) => {
+    setQuestions((prev) => {
+      const next = [...prev]
+      const [question] = next.splice(index, 1)
+      next.splice(index + offset, 0, question)
+      return next
+    })
+  }
+
+  // The content and answer key don't carry over between types, so they start afresh
+  const changeType = (key: string, type: QuestionType) => {
+    updateQuestion(key, { type, content: defaultContent(type), answer_key: defaultAnswerKey(type) })
+  }
+
+  // The copy is saved as a new bank question owned by the caller; the original is left alone
+  const copyQuestion = (key: string) => {
+    updateQuestion(key, { id: undefined, other_quiz_count: 0, can_edit: true })
+  }
+
+  const isLocked = (question: EditableQuestion) => question.can_edit === false
+
+  const removeQuestion = (key: string) => {
+    setQuestions((prev) => prev.filter((question) => question.key !== key))
+  }
+
+  // Mirrors the checks in save_quiz, so most mistakes are caught before a round trip
+  const validate = () => {
+    if (!title.trim()) return "Please enter a title."
+    if (!(Number(timeLimit) >= 1)) return "The time limit must be at least one minute."
+    if (perAttempt && !(Number.isInteger(Number(perAttempt)) && Number(perAttempt) >= 1)) {
+      return "Each attempt must ask at least one question."
+    }
+    if (published && questions.length === 0) return "Add at least one question before publishing."
+
+    for (const [index, question] of questions.entries()) {
+      if (!question.question_text.trim()) return `Question ${index + 1} has no text.`
+
+      const error = questionError(question.type, question.content, question.answer_key)
+      if (error) return `Question ${index + 1} ${error}.`
+    }
+    return null
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+
+    const validationError = validate()
+    if (validationError) {
+      setError(validationError)
+      return
+    }
+
+    setIsSaving(true)
+
+    const { data: quizId, error: saveError } = await supabase.rpc("save_quiz", {
+      p_quiz_id: quiz?.id,
+      p_quiz: {
+        title,
+        description,
+        time_limit: Number(timeLimit),
+        status: published ? "published" : "draft",
+        shuffle_questions: shuffleQuestions,
+        shuffle_options: shuffleOptions,
+        questions_per_attempt: perAttempt ? Number(perAttempt) : null,
+        course_id: courseId || null,
+        slide_id: quiz?.slide_id ?? null,
+      },
+      // The position in this list becomes each question's order
+      p_questions: questions.map(({ key, other_quiz_count, can_edit, ...question }) => question),
+    })
+
+    setIsSaving(false)
+
+    if (saveError) {
+      setError(saveError.message)
+      return
+    }
+
+    toast({
+      title: quiz ? "Quiz saved" : "Quiz created",
+      description: published ? "Students can now take this quiz." : "Saved as a draft; students can't see it yet.",
+    })
+
+    if (quiz) {
+      // Reloads the quiz, so questions added here pick up their new ids
+      router.refresh()
+    } else {
+      router.replace(`/quizzes/${quizId}/edit`)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      {error && <ErrorMessage message={error} variant="destructive" onDismiss={() => setError(null)} />}
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle>Details</CardTitle>
+            <Badge variant={published ? "default" : "secondary"}>{published ? "Published" : "Draft"}</Badge>
+          </div>
+          <CardDescription>Drafts are only visible to instructors.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="quiz-title">Title *</Label>
+            <Input
+              id="quiz-title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              disabled={isSaving}
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="quiz-description">Description</Label>
+            <Textarea
+              id="quiz-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="What does this quiz cover? (optional)"
+              disabled={isSaving}
+            />
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="quiz-time-limit">Time limit (minutes) *</Label>
+              <Input
+                id="quiz-time-limit"
+                type="number"
+                min={1}
+                value={timeLimit}
+                onChange={(e) => setTimeLimit(e.target.value)}
+                disabled={isSaving}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="quiz-course">Course</Label>
+              <CourseSelect id="quiz-course" value={courseId} onValueChange={setCourseId} disabled={isSaving} />
+            </div>
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <Switch id="quiz-published" checked={published} onCheckedChange={setPublished} disabled={isSaving} />
+            <Label htmlFor="quiz-published">Published</Label>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Attempts</CardTitle>
+          <CardDescription>
+            Each attempt is shuffled differently, so students can't share a list of answers. Reviews show the order
+            the student saw.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center space-x-2">
+            <Switch
+              id="quiz-shuffle-questions"
+              checked={shuffleQuestions}
+              onCheckedChange={setShuffleQuestions}
+              disabled={isSaving}
+            />
+            <Label htmlFor="quiz-shuffle-questions">Shuffle question order</Label>
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <Switch
+              id="quiz-shuffle-options"
+              checked={shuffleOptions}
+              onCheckedChange={setShuffleOptions}
+              disabled={isSaving}
+            />
+            <Label htmlFor="quiz-shuffle-options">Shuffle answer options and ordering items</Label>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="quiz-per-attempt">Questions per attempt</Label>
+            <Input
+              id="quiz-per-attempt"
+              type="number"
+              min={1}
+              value={perAttempt}
+              onChange={(e) => setPerAttempt(e.target.value)}
+              placeholder={`All ${questions.length}`}
+              className="max-w-xs"
+              disabled={isSaving}
+            />
+            <p className="text-sm text-muted-foreground">
+              Draws this many questions at random from the {questions.length} below. Leave blank to ask them all.
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+
+      {questions.map((question, index) => (
+        <Card key={question.key}>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <div className="space-y-1">
+              <CardTitle className="text-base">Question {index + 1}</CardTitle>
+              {isLocked(question) ? (
+                <CardDescription>Written by another instructor; make a copy to change it.</CardDescription>
+              ) : !!question.other_quiz_count && (
+                <CardDescription>
+                  Also asked by {question.other_quiz_count === 1 ? "1 other quiz" : `${question.other_quiz_count} other quizzes`};
+                  changes apply there too.
+                </CardDescription>
+              )}
+            </div>
+            <div className="flex gap-1">
+              {isLocked(question) && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => copyQuestion(question.key)}
+                  disabled={isSaving}
+                >
+                  <Copy className="h-4 w-4 mr-2" />
+                  Make a Copy
+                </Button>
+              )}
+              <Select
+                value={question.type}
+                onValueChange={(type) => changeType(question.key, type as QuestionType)}
+                disabled={isSaving || isLocked(question)}
+              >
+                <SelectTrigger className="h-9 w-[160px]" aria-label="Question type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {QUESTION_TYPES.map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {QUESTION_TYPE_LABELS[type]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => moveQuestion(index, -1)}
+                disabled={isSaving || index === 0}
+                aria-label="Move question up"
+              >
+                <ArrowUp className="h-4 w-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => moveQuestion(index, 1)}
+                disabled={isSaving || index === questions.length - 1}
+                aria-label="Move question down"
+              >
+                <ArrowDown className="h-4 w-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => removeQuestion(question.key)}
+                disabled={isSaving}
+                aria-label="Remove question"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Textarea
+              value={question.question_text}
+              onChange={(e) => updateQuestion(question.key, { question_text: e.target.value })}
+              placeholder="Question"
+              disabled={isSaving || isLocked(question)}
+            />
+
+            <QuestionKeyEditor
+              id={question.key}
+              type={question.type}
+              content={question.content}
+              answerKey={question.answer_key}
+              onChange={(content, answerKey) =>
+                updateQuestion(question.key, { content: content as Json, answer_key: answerKey as Json })
+              }
+              disabled={isSaving || isLocked(question)}
+            />
+
+            <div className="space-y-2">
+              <Label htmlFor={`${question.key}-explanation`}>Explanation</Label>
+              <Textarea
+                id={`${question.key}-explanation`}
+                value={question.explanation || ""}
+                onChange={(e) => updateQuestion(question.key, { explanation: e.target.value })}
+                placeholder="Shown to students when they review their answers (optional)"
+                disabled={isSaving || isLocked(question)}
+              />
+            </div>
+
+            <QuestionBankFields
+              id={question.key}
+              value={question}
+              onChange={(values) => updateQuestion(question.key, values)}
+              courseId={courseId || undefined}
+              disabled={isSaving || isLocked(question)}
+            />
+          </CardContent>
+        </Card>
+      ))}
+
+      <Card>
+        <CardFooter className="flex flex-wrap gap-2 pt-6">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => setQuestions((prev) => [...prev, emptyQuestion()])}
+            disabled={isSaving}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Question
+          </Button>
+          <Button type="button" variant="outline" onClick={() => setIsBankOpen(true)} disabled={isSaving}>
+            <Library className="h-4 w-4 mr-2" />
+            Add from Bank
+          </Button>
+          <Button type="submit" disabled={isSaving} className="ml-auto">
+            {isSaving ? "Saving..." : quiz ? "Save Changes" : "Create Quiz"}
+          </Button>
+        </CardFooter>
+      </Card>
+
+      <QuestionBankDialog
+        open={isBankOpen}
+        onOpenChange={setIsBankOpen}
+        excludeIds={questions.flatMap((question) => (question.id ? [question.id] : []))}
+        courseId={courseId || undefined}
+        onAdd={(added) => setQuestions((prev) => [...prev, ...added.map(fromBank)])}
+      />
+    </form>
+  )
+}
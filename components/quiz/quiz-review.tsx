@@ -0,0 +1,79 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { CheckCircle2, Lightbulb, XCircle } from "lucide-react"
+import { QuestionReviewBody } from "@/components/quiz/questions"
+import type { AttemptLayout } from "@/components/quiz/quiz-component"
+import { isAnswered } from "@/lib/question-types"
+import type { Json } from "@/types/supabase"
+
+export interface ReviewQuestion {
+  question_id: string
+  question_text: string
+  type: string
+  content: Json
+  selected_answer: Json | null
+  answer_key: Json
+  is_correct: boolean
+  explanation: string | null
+  order: number
+}
+
+interface QuizReviewProps {
+  questions: ReviewQuestion[]
+  // The attempt's layout, so questions and options appear as they did in the quiz
+  layout?: AttemptLayout
+}
+
+export function QuizReview({ questions, layout }: QuizReviewProps) {
+  const position = (question: ReviewQuestion) => {
+    const index = layout ? layout.question_order.indexOf(question.question_id) : -1
+    return index === -1 ? question.order : index
+  }
+  const ordered = layout ? [...questions].sort((a, b) => position(a) - position(b)) : questions
+
+  return (
+    <div className="space-y-4">
+      {ordered.map((question, index) => (
+        <Card key={question.question_id}>
+          <CardHeader className="pb-3">
+            <div className="flex items-start justify-between gap-4">
+              <CardTitle className="text-base">
+                {index + 1}. {question.question_text}
+              </CardTitle>
+              {question.is_correct ? (
+                <Badge variant="secondary" className="shrink-0 gap-1 text-green-600">
+                  <CheckCircle2 className="h-3 w-3" />
+                  Correct
+                </Badge>
+              ) : (
+                <Badge variant="secondary" className="shrink-0 gap-1 text-red-600">
+                  <XCircle className="h-3 w-3" />
+                  {isAnswered(question.selected_answer) ? "Incorrect" : "Unanswered"}
+                </Badge>
+              )}
+            </div>
+            {!isAnswered(question.selected_answer) && (
+              <CardDescription>You didn't answer this question.</CardDescription>
+            )}
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <QuestionReviewBody
+              type={question.type}
+              content={question.content}
+              answer={question.selected_answer}
+              answerKey={question.answer_key}
+              optionOrder={layout?.option_orders[question.question_id]}
+            />
+
+            {question.explanation && (
+              <div className="flex gap-2 rounded-lg bg-muted p-3 text-sm text-muted-foreground">
+                <Lightbulb className="h-4 w-4 shrink-0 text-primary" />
+                <p>{question.explanation}</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  )
+}
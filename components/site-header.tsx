@@ -19,7 +19,9 @@ export function SiteHeader() {
     pathname?.startsWith("/dashboard") ||
     pathname?.startsWith("/quizzes") ||
     pathname?.startsWith("/content") ||
-    pathname?.startsWith("/progress")
+    pathname?.startsWith("/courses") ||
+    pathname?.startsWith("/progress") ||
+    pathname?.startsWith("/admin")
 
   return (
     <header className="sticky top-0 z-40 w-full border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
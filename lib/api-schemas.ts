@@ -0,0 +1,152 @@
+import { z } from "zod";
+
+/**
+ * Request and response schemas for the Flask API in api/. Responses are
+ * validated at runtime by the client in lib/api.ts, so a change on either
+ * side that breaks the contract surfaces as an error instead of undefined
+ * fields. Keep these in step with the route handlers.
+ */
+
+const id = z.string().uuid();
+
+// Every error response: {"status": "error", "message": "..."}
+export const ErrorResponseSchema = z.object({
+  status: z.literal("error"),
+  message: z.string(),
+});
+
+export const HealthResponseSchema = z.object({
+  status: z.string(),
+  message: z.string(),
+});
+
+// POST /api/slides/upload
+export const UploadSlideResponseSchema = z.object({
+  status: z.literal("success"),
+  message: z.string(),
+  fileUrl: z.string(),
+  filePath: z.string(),
+  metadata: z.object({
+    title: z.string(),
+    description: z.string(),
+    courseId: z.string(),
+    fileName: z.string(),
+    fileType: z.string().nullable(),
+    fileSize: z.number(),
+  }),
+});
+
+// The slide columns the API returns after processing
+export const ProcessedSlideSchema = z.object({
+  id,
+  title: z.string(),
+  file_url: z.string(),
+  file_type: z.string(),
+  preview_url: z.string().nullable().optional(),
+  thumbnail_path: z.string().nullable().optional(),
+  page_count: z.number().int().nullable().optional(),
+  page_thumbnails: z.array(z.string()).optional(),
+  conversion_status: z
+    .enum(["pending", "processing", "ready", "failed"])
+    .nullable()
+    .optional(),
+  conversion_error: z.string().nullable().optional(),
+});
+
+// POST /api/content/process
+export const ProcessContentRequestSchema = z.object({
+  contentId: id,
+});
+
+export const ProcessContentResponseSchema = z.object({
+  status: z.literal("success"),
+  message: z.string(),
+  content: ProcessedSlideSchema,
+});
+
+// POST /api/content/index-pages
+export const IndexPagesRequestSchema = z.object({});
+
+export const IndexPagesResponseSchema = z.object({
+  status: z.literal("success"),
+  indexed: z.number().int(),
+  // Whether slides are left to index; call again until it is false
+  more: z.boolean(),
+});
+
+export const QuizSchema = z.object({
+  id,
+  title: z.string(),
+  description: z.string().nullable(),
+  time_limit: z.number().int().nullable(),
+  question_count: z.number().int(),
+  // How many of the questions each attempt asks; null for all of them
+  questions_per_attempt: z.number().int().nullable(),
+  status: z.enum(["draft", "published"]),
+  slide_id: id.nullable(),
+  course_id: id.nullable(),
+  created_at: z.string(),
+});
+
+// POST /api/quizzes/generate
+export const GenerateQuizRequestSchema = z.object({
+  contentId: id,
+  questionCount: z.number().int().min(1).max(50).optional(),
+  timeLimit: z.number().int().positive().optional(),
+  title: z.string().min(1).optional(),
+});
+
+export const GenerateQuizResponseSchema = z.object({
+  status: z.literal("success"),
+  message: z.string(),
+  quiz: QuizSchema,
+});
+
+export const ChatMessageSchema = z.object({
+  id,
+  role: z.enum(["user", "assistant"]),
+  content: z.string(),
+  citations: z.array(
+    z.object({
+      page_number: z.number().int(),
+      excerpt: z.string(),
+    })
+  ),
+  created_at: z.string(),
+});
+
+// POST /api/chat
+export const ChatRequestSchema = z.object({
+  contentId: id,
+  message: z.string().trim().min(1).max(2000),
+});
+
+export const ChatResponseSchema = z.object({
+  status: z.literal("success"),
+  userMessage: ChatMessageSchema,
+  reply: ChatMessageSchema,
+});
+
+export const MigrationSchema = z.object({
+  version: z.string(),
+  name: z.string(),
+  // "modified": changed after it was applied; "missing": applied but no longer in the repo
+  status: z.enum(["applied", "pending", "modified", "missing"]),
+  applied_at: z.string().nullable(),
+});
+
+// GET /api/admin/migrations
+export const MigrationListResponseSchema = z.object({
+  status: z.literal("success"),
+  migrations: z.array(MigrationSchema),
+  pending: z.number().int(),
+});
+
+export type ProcessedSlide = z.infer<typeof ProcessedSlideSchema>;
+export type Quiz = z.infer<typeof QuizSchema>;
+export type GenerateQuizOptions = Omit<
+  z.input<typeof GenerateQuizRequestSchema>,
+  "contentId"
+>;
+export type ChatMessage = z.infer<typeof ChatMessageSchema>;
+export type Migration = z.infer<typeof MigrationSchema>;
@@ -1,107 +1,255 @@
+import { createClientComponentClient } from "@supabase/auth-helpers-nextjs";
+import type { z } from "zod";
+import {
+  ChatRequestSchema,
+  ChatResponseSchema,
+  ErrorResponseSchema,
+  GenerateQuizRequestSchema,
+  GenerateQuizResponseSchema,
+  HealthResponseSchema,
+  IndexPagesRequestSchema,
+  IndexPagesResponseSchema,
+  MigrationListResponseSchema,
+  ProcessContentRequestSchema,
+  ProcessContentResponseSchema,
+  UploadSlideResponseSchema,
+  type GenerateQuizOptions,
+} from "@/lib/api-schemas";
+
+export type {
+  ChatMessage,
+  GenerateQuizOptions,
+  Migration,
+  ProcessedSlide,
+  Quiz,
+} from "@/lib/api-schemas";
+
 // Get API base URL from environment variables
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:8000";
 
 /**
- * Generic API client for making HTTP requests
+ * Authorization header carrying the signed-in user's access token,
+ * which the API uses to check the caller's role
+ */
+async function getAuthHeaders(): Promise<Record<string, string>> {
+  if (typeof window === "undefined") {
+    return {};
+  }
+
+  const { data } = await createClientComponentClient().auth.getSession();
+  return data.session
+    ? { Authorization: `Bearer ${data.session.access_token}` }
+    : {};
+}
+
+export type ApiErrorKind = "network" | "auth" | "validation" | "server";
+
+/**
+ * Base class of every error the API client returns. Check `kind`, or use
+ * instanceof with a subclass, to react to a particular kind of failure.
+ */
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    readonly kind: ApiErrorKind,
+    // HTTP status, when the server responded
+    readonly status?: number
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+/**
+ * The API could not be reached (offline, DNS, CORS, server down)
+ */
+export class NetworkError extends ApiError {
+  constructor(
+    message = "Could not reach the server. Check your connection and try again."
+  ) {
+    super(message, "network");
+    this.name = "NetworkError";
+  }
+}
+
+/**
+ * The caller is not signed in (401) or not allowed to do this (403)
+ */
+export class AuthError extends ApiError {
+  constructor(message: string, status: number) {
+    super(message, "auth", status);
+    this.name = "AuthError";
+  }
+}
+
+/**
+ * The request was rejected as invalid, either before sending it or by the
+ * server (other 4xx responses). `issues` lists the fields that failed when
+ * validation happened on the client.
+ */
+export class ValidationError extends ApiError {
+  constructor(
+    message: string,
+    status?: number,
+    readonly issues: z.ZodIssue[] = []
+  ) {
+    super(message, "validation", status);
+    this.name = "ValidationError";
+  }
+}
+
+/**
+ * The server failed (5xx) or responded with a body that doesn't match its schema
+ */
+export class ServerError extends ApiError {
+  constructor(
+    message: string,
+    status?: number,
+    readonly issues: z.ZodIssue[] = []
+  ) {
+    super(message, "server", status);
+    this.name = "ServerError";
+  }
+}
+
+export type ApiResult<T> =
+  | { data: T; error: null }
+  | { data: null; error: ApiError };
+
+function failure(error: ApiError): { data: null; error: ApiError } {
+  console.error("API request failed:", error);
+  return { data: null, error };
+}
+
+function errorFromResponse(status: number, body: unknown): ApiError {
+  const parsed = ErrorResponseSchema.safeParse(body);
+  const message = parsed.success ? parsed.data.message : `Error: ${status}`;
+
+  if (status === 401 || status === 403) {
+    return new AuthError(message, status);
+  }
+  if (status >= 400 && status < 500) {
+    return new ValidationError(message, status);
+  }
+  return new ServerError(message, status);
+}
+
+/**
+ * Validate a request body before sending it
+ */
+function validateRequest<S extends z.ZodTypeAny>(
+  schema: S,
+  body: z.input<S>
+): ApiResult<z.output<S>> {
+  const parsed = schema.safeParse(body);
+  if (!parsed.success) {
+    return failure(
+      new ValidationError(
+        parsed.error.issues[0]?.message || "Invalid request",
+        undefined,
+        parsed.error.issues
+      )
+    );
+  }
+  return { data: parsed.data, error: null };
+}
+
+/**
+ * API client that validates every response against a zod schema
  */
 export const apiClient = {
   /**
-   * Generic fetch method with error handling
+   * Send a request and parse the JSON response with `schema`
    */
-  async fetch<T>(
+  async request<S extends z.ZodTypeAny>(
     endpoint: string,
+    schema: S,
     options: RequestInit = {}
-  ): Promise<{ data: T | null; error: Error | null }> {
+  ): Promise<ApiResult<z.output<S>>> {
+    let response: Response;
     try {
-      const url = `${API_BASE_URL}${endpoint}`;
-      const response = await fetch(url, {
+      response = await fetch(`${API_BASE_URL}${endpoint}`, {
         ...options,
         headers: {
-          "Content-Type": "application/json",
+          // FormData bodies need the browser to set the multipart boundary
+          ...(options.body instanceof FormData
+            ? {}
+            : { "Content-Type": "application/json" }),
+          ...(await getAuthHeaders()),
           ...options.headers,
         },
       });
+    } catch {
+      return failure(new NetworkError());
+    }
+
+    const body = await response.json().catch(() => null);
+
+    if (!response.ok) {
+      return failure(errorFromResponse(response.status, body));
+    }
 
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => null);
-        const errorMessage =
-          errorData?.message ||
-          `Error: ${response.status} ${response.statusText}`;
-        throw new Error(errorMessage);
-      }
-
-      const data = await response.json();
-      return { data, error: null };
-    } catch (error) {
-      console.error("API request failed:", error);
-      return {
-        data: null,
-        error:
-          error instanceof Error ? error : new Error("Unknown error occurred"),
-      };
+    const parsed = schema.safeParse(body);
+    if (!parsed.success) {
+      return failure(
+        new ServerError(
+          "The server sent an unexpected response.",
+          response.status,
+          parsed.error.issues
+        )
+      );
     }
+
+    return { data: parsed.data, error: null };
   },
 
   /**
    * GET request wrapper
    */
-  async get<T>(
+  async get<S extends z.ZodTypeAny>(
     endpoint: string,
+    schema: S,
     options: RequestInit = {}
-  ): Promise<{ data: T | null; error: Error | null }> {
-    return this.fetch<T>(endpoint, { ...options, method: "GET" });
+  ) {
+    return this.request(endpoint, schema, { ...options, method: "GET" });
   },
 
   /**
-   * POST request wrapper
+   * POST request wrapper; validates the body with `requestSchema` first
    */
-  async post<T>(
+  async post<R extends z.ZodTypeAny, S extends z.ZodTypeAny>(
     endpoint: string,
-    body: any,
+    requestSchema: R,
+    body: z.input<R>,
+    schema: S,
     options: RequestInit = {}
-  ): Promise<{ data: T | null; error: Error | null }> {
-    return this.fetch<T>(endpoint, {
+  ): Promise<ApiResult<z.output<S>>> {
+    const validated = validateRequest(requestSchema, body);
+    if (validated.error) {
+      return validated;
+    }
+
+    return this.request(endpoint, schema, {
       ...options,
       method: "POST",
-      body: JSON.stringify(body),
+      body: JSON.stringify(validated.data),
     });
   },
 
   /**
    * Upload file wrapper
    */
-  async uploadFile<T>(
+  async uploadFile<S extends z.ZodTypeAny>(
     endpoint: string,
     formData: FormData,
+    schema: S,
     options: RequestInit = {}
-  ): Promise<{ data: T | null; error: Error | null }> {
-    try {
-      const url = `${API_BASE_URL}${endpoint}`;
-      const response = await fetch(url, {
-        ...options,
-        method: "POST",
-        body: formData,
-        // Don't set Content-Type header as the browser will set it with the boundary
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => null);
-        const errorMessage =
-          errorData?.message ||
-          `Error: ${response.status} ${response.statusText}`;
-        throw new Error(errorMessage);
-      }
-
-      const data = await response.json();
-      return { data, error: null };
-    } catch (error) {
-      console.error("File upload failed:", error);
-      return {
-        data: null,
-        error:
-          error instanceof Error ? error : new Error("Unknown error occurred"),
-      };
-    }
+  ) {
+    return this.request(endpoint, schema, {
+      ...options,
+      method: "POST",
+      body: formData,
+    });
   },
 };
 
@@ -111,38 +259,61 @@ export const apiClient = {
 export const api = {
   // Health check
   checkHealth: async () => {
-    return apiClient.get<{ status: string; message: string }>("/api/health");
+    return apiClient.get("/api/health", HealthResponseSchema);
   },
 
   // Slide upload and processing
   uploadSlide: async (formData: FormData) => {
-    return apiClient.uploadFile("/api/slides/upload", formData);
+    return apiClient.uploadFile(
+      "/api/slides/upload",
+      formData,
+      UploadSlideResponseSchema
+    );
   },
 
-  // Content processing
+  // Thumbnails, text extraction and document conversion after an upload
   processContent: async (contentId: string) => {
-    return apiClient.post("/api/content/process", { contentId });
+    return apiClient.post(
+      "/api/content/process",
+      ProcessContentRequestSchema,
+      { contentId },
+      ProcessContentResponseSchema
+    );
   },
 
-  // Quiz generation and retrieval
-  generateQuiz: async (contentId: string, options: any = {}) => {
-    return apiClient.post("/api/quizzes/generate", { contentId, ...options });
+  // Page text of slides uploaded before search existed, a batch per call (admins only)
+  indexSlidePages: async () => {
+    return apiClient.post(
+      "/api/content/index-pages",
+      IndexPagesRequestSchema,
+      {},
+      IndexPagesResponseSchema
+    );
   },
 
-  getQuiz: async (quizId: string) => {
-    return apiClient.get(`/api/quizzes/${quizId}`);
+  // Quiz generation
+  generateQuiz: async (contentId: string, options: GenerateQuizOptions = {}) => {
+    return apiClient.post(
+      "/api/quizzes/generate",
+      GenerateQuizRequestSchema,
+      { contentId, ...options },
+      GenerateQuizResponseSchema
+    );
   },
 
-  // Content classification
-  updateClassification: async (contentId: string, classification: any) => {
-    return apiClient.post(`/api/content/${contentId}/classify`, {
-      classification,
-    });
+  // Chat with content, answered from its extracted text
+  chatWithContent: async (contentId: string, message: string) => {
+    return apiClient.post(
+      "/api/chat",
+      ChatRequestSchema,
+      { contentId, message },
+      ChatResponseSchema
+    );
   },
 
-  // Chat with content
-  chatWithContent: async (contentId: string, message: string) => {
-    return apiClient.post("/api/chat", { contentId, message });
+  // Migrations in supabase/migrations and whether each has been applied (admins only)
+  getMigrations: async () => {
+    return apiClient.get("/api/admin/migrations", MigrationListResponseSchema);
   },
 };
 
@@ -0,0 +1,101 @@
+export type FileKind = "pdf" | "image" | "presentation" | "document";
+
+interface FileTypeInfo {
+  label: string;
+  kind: FileKind;
+  extensions: string[];
+}
+
+/**
+ * File types the content library accepts, by MIME type. Presentations and
+ * documents are converted to PDF on the server (keep in sync with
+ * api/conversion.py). Keynote decks are accepted once exported to PowerPoint.
+ */
+export const FILE_TYPES: Record<string, FileTypeInfo> = {
+  "application/pdf": { label: "PDF", kind: "pdf", extensions: ["pdf"] },
+  "image/jpeg": { label: "JPEG", kind: "image", extensions: ["jpg", "jpeg"] },
+  "image/png": { label: "PNG", kind: "image", extensions: ["png"] },
+  "image/gif": { label: "GIF", kind: "image", extensions: ["gif"] },
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation": {
+    label: "PPTX",
+    kind: "presentation",
+    extensions: ["pptx"],
+  },
+  "application/vnd.ms-powerpoint": {
+    label: "PPT",
+    kind: "presentation",
+    extensions: ["ppt"],
+  },
+  "application/vnd.oasis.opendocument.presentation": {
+    label: "ODP",
+    kind: "presentation",
+    extensions: ["odp"],
+  },
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": {
+    label: "DOCX",
+    kind: "document",
+    extensions: ["docx"],
+  },
+  "application/msword": { label: "DOC", kind: "document", extensions: ["doc"] },
+  "application/vnd.oasis.opendocument.text": {
+    label: "ODT",
+    kind: "document",
+    extensions: ["odt"],
+  },
+};
+
+export const ACCEPTED_FILE_TYPES = Object.keys(FILE_TYPES);
+
+// For the file input's accept attribute, e.g. ".pdf,.jpg,..."
+export const ACCEPTED_EXTENSIONS = Object.values(FILE_TYPES)
+  .flatMap((info) => info.extensions)
+  .map((extension) => `.${extension}`)
+  .join(",");
+
+/**
+ * MIME type of a file, falling back to its extension. Some browsers and
+ * operating systems report office documents with an empty type.
+ */
+export function fileTypeOf(file: File): string {
+  if (file.type) {
+    return file.type;
+  }
+
+  const extension = file.name.split(".").pop()?.toLowerCase() || "";
+  return (
+    ACCEPTED_FILE_TYPES.find((type) =>
+      FILE_TYPES[type].extensions.includes(extension)
+    ) || ""
+  );
+}
+
+/**
+ * Short label for a badge, e.g. "PPTX", or the subtype of an unknown MIME type
+ */
+export function fileTypeLabel(type: string): string {
+  return (
+    FILE_TYPES[type]?.label ||
+    type.split("/").pop()?.split(".").pop()?.toUpperCase() ||
+    "FILE"
+  );
+}
+
+export function fileKind(type: string): FileKind | null {
+  return FILE_TYPES[type]?.kind || null;
+}
+
+/**
+ * Whether files of this type are converted to PDF for viewing
+ */
+export function needsConversion(type: string): boolean {
+  const kind = fileKind(type);
+  return kind === "presentation" || kind === "document";
+}
+
+/**
+ * Whether the API prepares files of this type after upload: a first-page
+ * thumbnail for PDFs, and a converted preview for presentations and documents
+ */
+export function needsProcessing(type: string): boolean {
+  return type === "application/pdf" || needsConversion(type);
+}
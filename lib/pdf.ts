@@ -0,0 +1,54 @@
+import type { PDFDocumentProxy } from "pdfjs-dist";
+
+/**
+ * Lazily load pdf.js in the browser and open a document from a URL.
+ * pdf.js touches browser globals on import, so it must never be
+ * imported at module level from a component that can render on the server.
+ */
+export async function loadPdfDocument(url: string): Promise<PDFDocumentProxy> {
+  const pdfjs = await import("pdfjs-dist");
+
+  if (!pdfjs.GlobalWorkerOptions.workerSrc) {
+    pdfjs.GlobalWorkerOptions.workerSrc = new URL(
+      "pdfjs-dist/build/pdf.worker.min.mjs",
+      import.meta.url
+    ).toString();
+  }
+
+  return pdfjs.getDocument(url).promise;
+}
+
+/**
+ * Render a single page of a document into a canvas, scaled to fit the given width
+ */
+export async function renderPdfPage(
+  document: PDFDocumentProxy,
+  pageNumber: number,
+  canvas: HTMLCanvasElement,
+  width: number
+) {
+  const page = await document.getPage(pageNumber);
+  const unscaledViewport = page.getViewport({ scale: 1 });
+  const scale = width / unscaledViewport.width;
+  const viewport = page.getViewport({ scale });
+  const outputScale = window.devicePixelRatio || 1;
+
+  const context = canvas.getContext("2d");
+  if (!context) {
+    throw new Error("Canvas 2D context is not available");
+  }
+
+  canvas.width = Math.floor(viewport.width * outputScale);
+  canvas.height = Math.floor(viewport.height * outputScale);
+  canvas.style.width = `${Math.floor(viewport.width)}px`;
+  canvas.style.height = `${Math.floor(viewport.height)}px`;
+
+  const renderTask = page.render({
+    canvasContext: context,
+    viewport,
+    transform:
+      outputScale !== 1 ? [outputScale, 0, 0, outputScale, 0, 0] : undefined,
+  });
+
+  return renderTask;
+}
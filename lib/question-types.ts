@@ -0,0 +1,184 @@
+/**
+ * Quiz question types. Mirrors the type, content and answer_key columns of
+ * public.questions; see 20240519_add_question_types.sql.
+ */
+export const QUESTION_TYPES = [
+  "multiple_choice",
+  "true_false",
+  "multi_select",
+  "short_answer",
+  "numeric",
+  "ordering",
+] as const;
+
+export type QuestionType = (typeof QUESTION_TYPES)[number];
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  multiple_choice: "Multiple choice",
+  true_false: "True or false",
+  multi_select: "Multi-select",
+  short_answer: "Short answer",
+  numeric: "Numeric",
+  ordering: "Ordering",
+};
+
+// Shown to students above each question
+export const QUESTION_TYPE_PROMPTS: Record<QuestionType, string> = {
+  multiple_choice: "Select the best answer",
+  true_false: "Is this statement true or false?",
+  multi_select: "Select every answer that applies",
+  short_answer: "Type your answer",
+  numeric: "Enter a number",
+  ordering: "Put the items in the correct order",
+};
+
+export function isQuestionType(value: unknown): value is QuestionType {
+  return QUESTION_TYPES.includes(value as QuestionType);
+}
+
+/** How hard a question in the question bank is; questions may also have none */
+export const DIFFICULTIES = ["easy", "medium", "hard"] as const;
+
+export type Difficulty = (typeof DIFFICULTIES)[number];
+
+export const DIFFICULTY_LABELS: Record<Difficulty, string> = {
+  easy: "Easy",
+  medium: "Medium",
+  hard: "Hard",
+};
+
+/** Comma-separated tags as typed, in the form save_quiz stores them */
+export function parseTags(text: string): string[] {
+  const tags = text.split(",").map((tag) => tag.trim().toLowerCase());
+  return Array.from(new Set(tags.filter(Boolean))).sort();
+}
+
+type Empty = Record<string, never>;
+
+/** What students see. Options and items are referred to by index. */
+export interface QuestionContent {
+  multiple_choice: { options: string[] };
+  true_false: Empty;
+  multi_select: { options: string[] };
+  short_answer: Empty;
+  numeric: Empty;
+  ordering: { items: string[] };
+}
+
+/** A student's answer, as sent to submit_quiz_attempt */
+export interface QuestionAnswer {
+  multiple_choice: number;
+  true_false: boolean;
+  multi_select: number[];
+  short_answer: string;
+  numeric: number;
+  ordering: number[];
+}
+
+/** The answer key; only instructors and graded reviews see it */
+export interface QuestionAnswerKey {
+  multiple_choice: { correct: number };
+  true_false: { correct: boolean };
+  multi_select: { correct: number[] };
+  short_answer: { accepted: string[]; case_sensitive?: boolean };
+  numeric: { value: number; tolerance?: number };
+  // Item indexes in the correct order
+  ordering: { order: number[] };
+}
+
+export function defaultContent<T extends QuestionType>(type: T): QuestionContent[T] {
+  const content: { [K in QuestionType]: QuestionContent[K] } = {
+    multiple_choice: { options: ["", "", "", ""] },
+    true_false: {},
+    multi_select: { options: ["", "", "", ""] },
+    short_answer: {},
+    numeric: {},
+    ordering: { items: ["", "", ""] },
+  };
+  return content[type];
+}
+
+export function defaultAnswerKey<T extends QuestionType>(type: T): QuestionAnswerKey[T] {
+  const answerKey: { [K in QuestionType]: QuestionAnswerKey[K] } = {
+    multiple_choice: { correct: -1 },
+    true_false: { correct: true },
+    multi_select: { correct: [] },
+    short_answer: { accepted: [""] },
+    numeric: { value: 0, tolerance: 0 },
+    ordering: { order: [0, 1, 2] },
+  };
+  return answerKey[type];
+}
+
+const isBlank = (text: unknown) => typeof text !== "string" || !text.trim();
+
+/**
+ * Why a question can't be saved, or null when it's valid. Mirrors
+ * public.question_error(), which save_quiz checks again.
+ */
+export function questionError(
+  type: QuestionType,
+  content: unknown,
+  answerKey: unknown
+): string | null {
+  switch (type) {
+    case "multiple_choice":
+    case "multi_select": {
+      const { options } = content as QuestionContent["multiple_choice"];
+      if (!Array.isArray(options) || options.length < 2) return "needs at least two options";
+      if (options.some(isBlank)) return "has an empty option";
+
+      const inRange = (index: unknown) =>
+        Number.isInteger(index) && (index as number) >= 0 && (index as number) < options.length;
+
+      if (type === "multiple_choice") {
+        const { correct } = answerKey as QuestionAnswerKey["multiple_choice"];
+        return inRange(correct) ? null : "has no correct answer";
+      }
+
+      const { correct } = answerKey as QuestionAnswerKey["multi_select"];
+      if (!Array.isArray(correct) || correct.length === 0) return "has no correct answers";
+      return correct.every(inRange) ? null : "has a correct answer that is not one of its options";
+    }
+
+    case "true_false": {
+      const { correct } = answerKey as QuestionAnswerKey["true_false"];
+      return typeof correct === "boolean" ? null : "has no correct answer";
+    }
+
+    case "short_answer": {
+      const { accepted } = answerKey as QuestionAnswerKey["short_answer"];
+      return Array.isArray(accepted) && accepted.some((answer) => !isBlank(answer))
+        ? null
+        : "needs at least one accepted answer";
+    }
+
+    case "numeric": {
+      const { value, tolerance } = answerKey as QuestionAnswerKey["numeric"];
+      if (typeof value !== "number" || !Number.isFinite(value)) return "has no correct value";
+      if (tolerance !== undefined && !(tolerance >= 0)) return "has a negative tolerance";
+      return null;
+    }
+
+    case "ordering": {
+      const { items } = content as QuestionContent["ordering"];
+      const { order } = answerKey as QuestionAnswerKey["ordering"];
+      if (!Array.isArray(items) || items.length < 2) return "needs at least two items";
+      if (items.some(isBlank)) return "has an empty item";
+
+      // The order must use every item exactly once
+      const sorted = Array.isArray(order) ? [...order].sort((a, b) => a - b) : [];
+      return sorted.length === items.length && sorted.every((index, i) => index === i)
+        ? null
+        : "has no correct order";
+    }
+  }
+}
+
+/** Whether a student has given an answer worth submitting */
+export function isAnswered(answer: unknown): boolean {
+  if (answer === undefined || answer === null) return false;
+  if (typeof answer === "string") return answer.trim() !== "";
+  if (Array.isArray(answer)) return answer.length > 0;
+  return true;
+}
@@ -0,0 +1,26 @@
+export type Role = "student" | "instructor" | "admin";
+
+export const ROLES: Role[] = ["student", "instructor", "admin"];
+
+/**
+ * Roles allowed to author content: upload and delete slides, create courses
+ * and write or generate quizzes. Mirrors public.is_instructor() in the database.
+ */
+export const AUTHOR_ROLES: Role[] = ["instructor", "admin"];
+
+export function isRole(value: unknown): value is Role {
+  return ROLES.includes(value as Role);
+}
+
+export function canAuthor(role: Role | null | undefined): boolean {
+  return !!role && AUTHOR_ROLES.includes(role);
+}
+
+/**
+ * Pages that need more than a signed-in student, keyed by path prefix.
+ * Checked in middleware; AuthGuard takes the same roles for client-side checks.
+ */
+export const ROLE_ROUTES: Record<string, Role[]> = {
+  "/admin": ["admin"],
+  "/quizzes/new": AUTHOR_ROLES,
+};
@@ -9,11 +9,15 @@ import {
 import { usePathname, useRouter } from "next/navigation";
 import type { Session } from "@supabase/supabase-js";
 import { toast } from "@/components/ui/use-toast";
+import { isRole, type Role } from "@/lib/roles";
+import type { Database } from "@/types/supabase";
 
 type SupabaseContext = {
-  supabase: SupabaseClient;
+  supabase: SupabaseClient<Database>;
   session: Session | null;
   isLoading: boolean;
+  // Null until the profile has loaded, or when signed out
+  role: Role | null;
 };
 
 const Context = createContext<SupabaseContext | undefined>(undefined);
@@ -21,15 +25,11 @@ const Context = createContext<SupabaseContext | undefined>(undefined);
 export function SupabaseProvider({ children }: { children: React.ReactNode }) {
   const [supabase] = useState(() => {
     try {
-      const client = createClientComponentClient({
+      const client = createClientComponentClient<Database>({
         supabaseUrl: process.env.NEXT_PUBLIC_SUPABASE_URL,
         supabaseKey: process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY,
+        // Auth options are set by the helpers, which keep the session in cookies
         options: {
-          auth: {
-            autoRefreshToken: true,
-            persistSession: true,
-            detectSessionInUrl: true,
-          },
           // Add a global error handler
           global: {
             fetch: (...args) => {
@@ -46,11 +46,12 @@ export function SupabaseProvider({ children }: { children: React.ReactNode }) {
     } catch (error) {
       console.error("Failed to initialize Supabase client:", error);
       // Return a basic client as fallback
-      return createClientComponentClient();
+      return createClientComponentClient<Database>();
     }
   });
   const [session, setSession] = useState<Session | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [role, setRole] = useState<Role | null>(null);
   const router = useRouter();
   const pathname = usePathname();
 
@@ -136,8 +137,33 @@ export function SupabaseProvider({ children }: { children: React.ReactNode }) {
     };
   }, [supabase, router, pathname, hasRedirected]);
 
+  const userId = session?.user.id;
+
+  useEffect(() => {
+    if (!userId) {
+      setRole(null);
+      return;
+    }
+
+    const fetchRole = async () => {
+      const { data, error } = await supabase
+        .from("profiles")
+        .select("role")
+        .eq("user_id", userId)
+        .maybeSingle();
+
+      if (error) {
+        console.error("Error fetching role:", error.message);
+      }
+      // Profiles are created lazily, so a missing row means a new student
+      setRole(isRole(data?.role) ? data.role : "student");
+    };
+
+    fetchRole();
+  }, [supabase, userId]);
+
   return (
-    <Context.Provider value={{ supabase, session, isLoading }}>
+    <Context.Provider value={{ supabase, session, isLoading, role }}>
       {children}
     </Context.Provider>
   );
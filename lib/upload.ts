@@ -0,0 +1,321 @@
+import { Upload, type PreviousUpload } from "tus-js-client";
+import { ACCEPTED_FILE_TYPES, fileTypeOf } from "@/lib/file-types";
+
+const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL || "";
+const SUPABASE_ANON_KEY = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || "";
+
+const MB = 1024 * 1024;
+
+function sizeFromEnv(value: string | undefined, fallbackMb: number) {
+  const parsed = Number(value);
+  return (Number.isFinite(parsed) && parsed > 0 ? parsed : fallbackMb) * MB;
+}
+
+/**
+ * Largest file that can be uploaded. Keep it at or below the file size limit
+ * configured for the Supabase project.
+ */
+export const MAX_FILE_SIZE = sizeFromEnv(
+  process.env.NEXT_PUBLIC_MAX_UPLOAD_SIZE_MB,
+  200
+);
+
+/**
+ * Files larger than this are uploaded in resumable chunks; smaller ones in a
+ * single request. Supabase recommends resumable uploads above 6MB.
+ */
+export const RESUMABLE_THRESHOLD = sizeFromEnv(
+  process.env.NEXT_PUBLIC_RESUMABLE_UPLOAD_THRESHOLD_MB,
+  6
+);
+
+// Supabase's TUS endpoint only accepts chunks of exactly 6MB
+const RESUMABLE_CHUNK_SIZE = 6 * MB;
+const RESUMABLE_ENDPOINT = `${SUPABASE_URL}/storage/v1/upload/resumable`;
+
+export function formatFileSize(bytes: number): string {
+  return `${(bytes / MB).toFixed(bytes < 10 * MB ? 2 : 0)} MB`;
+}
+
+/**
+ * Thrown when an upload is cancelled through its AbortSignal,
+ * so callers can tell a pause apart from a failure
+ */
+export class UploadAbortedError extends Error {
+  constructor() {
+    super("Upload cancelled");
+    this.name = "UploadAbortedError";
+  }
+}
+
+/**
+ * Why a file can't be uploaded, or null if it is acceptable
+ */
+export function validateFile(file: File): string | null {
+  if (!ACCEPTED_FILE_TYPES.includes(fileTypeOf(file))) {
+    return "Only PDF, PowerPoint, Word and image files (JPEG, PNG, GIF) are supported.";
+  }
+  if (file.size > MAX_FILE_SIZE) {
+    return `Files must be smaller than ${formatFileSize(MAX_FILE_SIZE)}.`;
+  }
+  return null;
+}
+
+/**
+ * Default slide title from a file name: "week-3_intro.pdf" -> "Week 3 intro"
+ */
+export function titleFromFileName(fileName: string): string {
+  const base = fileName.replace(/\.[^.]+$/, "").replace(/[_-]+/g, " ").trim();
+  return base ? base.charAt(0).toUpperCase() + base.slice(1) : fileName;
+}
+
+/**
+ * Unique storage path for a slide file
+ */
+export function buildStoragePath(file: File): string {
+  const fileExt = file.name.split(".").pop();
+  const fileName = `${Date.now()}-${Math.random()
+    .toString(36)
+    .substring(2, 15)}.${fileExt}`;
+  return `slides/${fileName}`;
+}
+
+/**
+ * Upload a file to Supabase Storage with XMLHttpRequest, which, unlike fetch,
+ * reports upload progress. `onProgress` receives bytes sent and total bytes.
+ */
+export function uploadToStorage({
+  bucket,
+  path,
+  file,
+  accessToken,
+  onProgress,
+  signal,
+}: {
+  bucket: string;
+  path: string;
+  file: File;
+  accessToken: string;
+  onProgress?: (loaded: number, total: number) => void;
+  signal?: AbortSignal;
+}): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new UploadAbortedError());
+      return;
+    }
+
+    const xhr = new XMLHttpRequest();
+    xhr.open("POST", `${SUPABASE_URL}/storage/v1/object/${bucket}/${path}`);
+    xhr.setRequestHeader("Authorization", `Bearer ${accessToken}`);
+    xhr.setRequestHeader("apikey", SUPABASE_ANON_KEY);
+    xhr.setRequestHeader(
+      "Content-Type",
+      fileTypeOf(file) || "application/octet-stream"
+    );
+    xhr.setRequestHeader("Cache-Control", "max-age=3600");
+    xhr.setRequestHeader("x-upsert", "false");
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) {
+        onProgress?.(event.loaded, event.total);
+      }
+    };
+
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        onProgress?.(file.size, file.size);
+        resolve();
+        return;
+      }
+
+      let message = `Upload failed (${xhr.status})`;
+      try {
+        const body = JSON.parse(xhr.responseText);
+        message = body.message || body.error || message;
+      } catch {
+        // Keep the status-based message
+      }
+      reject(new Error(message));
+    };
+
+    xhr.onerror = () => reject(new Error("Network error during upload"));
+    xhr.onabort = () => reject(new UploadAbortedError());
+
+    signal?.addEventListener("abort", () => xhr.abort(), { once: true });
+
+    xhr.send(file);
+  });
+}
+
+/**
+ * Upload a file to Supabase Storage, choosing the transport by size, and
+ * return the storage path it was saved under. Large files use the resumable
+ * (TUS) endpoint: they continue from the last completed chunk after a network
+ * drop, a pause, or a page reload in which the same file is selected again.
+ */
+export async function uploadFile({
+  bucket,
+  file,
+  getAccessToken,
+  onProgress,
+  signal,
+}: {
+  bucket: string;
+  file: File;
+  // Called before each request, so long uploads survive a token refresh
+  getAccessToken: () => Promise<string>;
+  onProgress?: (loaded: number, total: number) => void;
+  signal?: AbortSignal;
+}): Promise<string> {
+  if (file.size <= RESUMABLE_THRESHOLD) {
+    const path = buildStoragePath(file);
+    await uploadToStorage({
+      bucket,
+      path,
+      file,
+      accessToken: await getAccessToken(),
+      onProgress,
+      signal,
+    });
+    return path;
+  }
+
+  return uploadResumable({ bucket, file, getAccessToken, onProgress, signal });
+}
+
+/**
+ * An unfinished resumable upload of this file from an earlier attempt, if any
+ */
+export async function findPreviousUpload(
+  file: File,
+  bucket: string
+): Promise<PreviousUpload | null> {
+  if (file.size <= RESUMABLE_THRESHOLD) {
+    return null;
+  }
+
+  const probe = new Upload(file, { endpoint: RESUMABLE_ENDPOINT });
+  const previous = await probe.findPreviousUploads();
+
+  // Most recent first
+  return (
+    previous
+      .filter((upload) => upload.metadata.bucketName === bucket)
+      .sort((a, b) => b.creationTime.localeCompare(a.creationTime))[0] || null
+  );
+}
+
+async function uploadResumable({
+  bucket,
+  file,
+  getAccessToken,
+  onProgress,
+  signal,
+}: {
+  bucket: string;
+  file: File;
+  getAccessToken: () => Promise<string>;
+  onProgress?: (loaded: number, total: number) => void;
+  signal?: AbortSignal;
+}): Promise<string> {
+  if (signal?.aborted) {
+    throw new UploadAbortedError();
+  }
+
+  // Resuming has to target the object the first attempt created
+  const previous = await findPreviousUpload(file, bucket);
+  const path = previous?.metadata.objectName || buildStoragePath(file);
+
+  await new Promise<void>((resolve, reject) => {
+    const upload = new Upload(file, {
+      endpoint: RESUMABLE_ENDPOINT,
+      // Delays between automatic retries when the network drops
+      retryDelays: [0, 3000, 5000, 10000, 20000],
+      chunkSize: RESUMABLE_CHUNK_SIZE,
+      uploadDataDuringCreation: true,
+      removeFingerprintOnSuccess: true,
+      headers: {
+        apikey: SUPABASE_ANON_KEY,
+        "x-upsert": "false",
+      },
+      metadata: {
+        bucketName: bucket,
+        objectName: path,
+        contentType: fileTypeOf(file) || "application/octet-stream",
+        cacheControl: "3600",
+      },
+      onBeforeRequest: async (req) => {
+        req.setHeader("Authorization", `Bearer ${await getAccessToken()}`);
+      },
+      onProgress: (loaded, total) => onProgress?.(loaded, total),
+      onSuccess: () => resolve(),
+      onError: (error) => reject(error),
+    });
+
+    signal?.addEventListener(
+      "abort",
+      () => {
+        // Keep the upload on the server so it can be resumed later
+        upload.abort(false).finally(() => reject(new UploadAbortedError()));
+      },
+      { once: true }
+    );
+
+    if (previous) {
+      upload.resumeFromPreviousUpload(previous);
+    }
+    upload.start();
+  });
+
+  return path;
+}
+
+/**
+ * Files from a drop, descending into dropped folders where the browser supports it
+ */
+export async function filesFromDataTransfer(
+  dataTransfer: DataTransfer
+): Promise<File[]> {
+  const entries = Array.from(dataTransfer.items || [])
+    .map((item) => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => !!entry);
+
+  // Older browsers without the entries API only expose top-level files
+  if (entries.length === 0) {
+    return Array.from(dataTransfer.files);
+  }
+
+  const nested = await Promise.all(entries.map(readEntry));
+  return nested.flat();
+}
+
+async function readEntry(entry: FileSystemEntry): Promise<File[]> {
+  if (entry.isFile) {
+    return new Promise((resolve) =>
+      (entry as FileSystemFileEntry).file(
+        (file) => resolve([file]),
+        () => resolve([])
+      )
+    );
+  }
+
+  if (entry.isDirectory) {
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    const children: FileSystemEntry[] = [];
+
+    // readEntries returns directory contents in batches until it returns none
+    while (true) {
+      const batch = await new Promise<FileSystemEntry[]>((resolve) =>
+        reader.readEntries(resolve, () => resolve([]))
+      );
+      if (batch.length === 0) break;
+      children.push(...batch);
+    }
+
+    const nested = await Promise.all(children.map(readEntry));
+    return nested.flat();
+  }
+
+  return [];
+}
@@ -1,6 +1,7 @@
 import { createMiddlewareClient } from "@supabase/auth-helpers-nextjs"
 import { NextResponse } from "next/server"
 import type { NextRequest } from "next/server"
+import { ROLE_ROUTES } from "@/lib/roles"
 
 export async function middleware(req: NextRequest) {
   const res = NextResponse.next()
@@ -15,7 +16,7 @@ export async function middleware(req: NextRequest) {
   } = await supabase.auth.getSession()
 
   // Define protected routes that require authentication
-  const protectedRoutes = ["/dashboard", "/quizzes", "/content", "/progress"]
+  const protectedRoutes = ["/dashboard", "/quizzes", "/content", "/courses", "/progress", "/admin"]
   const isProtectedRoute = protectedRoutes.some((route) => path.startsWith(route))
 
   // Define auth routes
@@ -29,6 +30,22 @@ export async function middleware(req: NextRequest) {
     return NextResponse.redirect(redirectUrl)
   }
 
+  // Routes that need a particular role, e.g. /admin
+  const roleRoute = Object.keys(ROLE_ROUTES).find((route) => path.startsWith(route))
+  if (session && roleRoute) {
+    const { data: profile } = await supabase
+      .from("profiles")
+      .select("role")
+      .eq("user_id", session.user.id)
+      .maybeSingle()
+
+    if (!ROLE_ROUTES[roleRoute].includes(profile?.role)) {
+      // Signed in but not allowed here
+      const redirectUrl = new URL("/dashboard", req.url)
+      return NextResponse.redirect(redirectUrl)
+    }
+  }
+
   if (session && isAuthRoute) {
     // If user is authenticated and tries to access an auth route
     const redirectUrl = new URL("/dashboard", req.url)
@@ -0,0 +1,57 @@
+// Fails when types/supabase.ts no longer matches the database schema.
+// Run with: npm run types:check
+//
+// Generates types from the local Supabase stack (`supabase start` applies
+// supabase/migrations), or from SUPABASE_DB_URL when it is set, and compares
+// them with the committed file. Regenerate with `npm run types:supabase`.
+
+import { execFileSync } from "node:child_process";
+import { readFileSync } from "node:fs";
+
+const TYPES_FILE = "types/supabase.ts";
+
+const source = process.env.SUPABASE_DB_URL
+  ? ["--db-url", process.env.SUPABASE_DB_URL]
+  : ["--local"];
+
+let generated;
+try {
+  generated = execFileSync(
+    "npx",
+    ["--no-install", "supabase", "gen", "types", "typescript", ...source, "--schema", "public"],
+    { encoding: "utf8", stdio: ["ignore", "pipe", "inherit"] }
+  );
+} catch {
+  console.error(
+    "Could not generate types. Is the local stack running (npx supabase start)?"
+  );
+  process.exit(2);
+}
+
+const committed = readFileSync(TYPES_FILE, "utf8");
+
+// Line endings and trailing whitespace aren't drift
+const normalize = (text) =>
+  text
+    .split(/\r?\n/)
+    .map((line) => line.trimEnd())
+    .join("\n")
+    .trim();
+
+const expected = normalize(generated).split("\n");
+const actual = normalize(committed).split("\n");
+
+if (expected.join("\n") === actual.join("\n")) {
+  console.log(`${TYPES_FILE} is up to date.`);
+  process.exit(0);
+}
+
+const line = expected.findIndex((text, index) => text !== actual[index]);
+const at = line === -1 ? expected.length : line;
+
+console.error(`${TYPES_FILE} is out of date with the database schema.`);
+console.error(`First difference at line ${at + 1}:`);
+console.error(`  generated: ${expected[at] ?? "(end of file)"}`);
+console.error(`  committed: ${actual[at] ?? "(end of file)"}`);
+console.error("Run `npm run types:supabase` and commit the result.");
+process.exit(1);
@@ -0,0 +1,47 @@
+-- Quiz tables, created here if they were set up by hand before migrations existed
+CREATE TABLE IF NOT EXISTS public.quizzes (
+    id UUID PRIMARY KEY DEFAULT extensions.uuid_generate_v4(),
+    title TEXT NOT NULL,
+    description TEXT,
+    time_limit INTEGER NOT NULL DEFAULT 10,
+    question_count INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.quiz_questions (
+    id UUID PRIMARY KEY DEFAULT extensions.uuid_generate_v4(),
+    quiz_id UUID NOT NULL REFERENCES public.quizzes(id) ON DELETE CASCADE,
+    question_text TEXT NOT NULL,
+    option_a TEXT NOT NULL,
+    option_b TEXT NOT NULL,
+    option_c TEXT NOT NULL,
+    option_d TEXT NOT NULL,
+    correct_answer TEXT NOT NULL,
+    "order" INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS quiz_questions_quiz_id_idx ON public.quiz_questions(quiz_id);
+
+-- Link generated quizzes back to the slide they were generated from
+ALTER TABLE public.quizzes
+ADD COLUMN IF NOT EXISTS slide_id UUID REFERENCES public.slides(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS quizzes_slide_id_idx ON public.quizzes(slide_id);
+
+-- Quizzes are readable by any signed-in user; the generator writes with the service role
+ALTER TABLE public.quizzes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.quiz_questions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view quizzes" ON public.quizzes;
+CREATE POLICY "Authenticated users can view quizzes"
+ON public.quizzes
+FOR SELECT
+USING (auth.role() = 'authenticated');
+
+DROP POLICY IF EXISTS "Authenticated users can view quiz questions" ON public.quiz_questions;
+CREATE POLICY "Authenticated users can view quiz questions"
+ON public.quiz_questions
+FOR SELECT
+USING (auth.role() = 'authenticated');
@@ -0,0 +1,115 @@
+-- Grade quiz submissions in the database so answers and scores can't be forged by the browser
+
+-- Submissions table, created here if it was set up by hand before migrations existed
+CREATE TABLE IF NOT EXISTS public.quiz_submissions (
+    id UUID PRIMARY KEY DEFAULT extensions.uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    quiz_id UUID NOT NULL REFERENCES public.quizzes(id) ON DELETE CASCADE,
+    score INTEGER NOT NULL,
+    time_taken INTEGER NOT NULL DEFAULT 0,
+    answers JSONB NOT NULL DEFAULT '{}'::jsonb,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+-- Keep the raw counts alongside the percentage so results don't have to be recomputed
+ALTER TABLE public.quiz_submissions
+ADD COLUMN IF NOT EXISTS correct_count INTEGER,
+ADD COLUMN IF NOT EXISTS total_questions INTEGER;
+
+CREATE INDEX IF NOT EXISTS quiz_submissions_user_id_idx ON public.quiz_submissions(user_id);
+
+ALTER TABLE public.quiz_submissions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own submissions" ON public.quiz_submissions;
+CREATE POLICY "Users can view their own submissions"
+ON public.quiz_submissions
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Remove any policy that lets clients write submissions directly; submit_quiz is the only way in
+DO $$
+DECLARE
+  policy RECORD;
+BEGIN
+  FOR policy IN
+    SELECT policyname FROM pg_policies
+    WHERE schemaname = 'public' AND tablename = 'quiz_submissions'
+    AND cmd IN ('INSERT', 'UPDATE', 'ALL')
+  LOOP
+    EXECUTE format('DROP POLICY %I ON public.quiz_submissions', policy.policyname);
+  END LOOP;
+END
+$$;
+
+-- Hide the answer key from clients: every column except correct_answer stays readable
+REVOKE SELECT ON public.quiz_questions FROM anon, authenticated;
+GRANT SELECT (id, quiz_id, question_text, option_a, option_b, option_c, option_d, "order", created_at)
+ON public.quiz_questions TO authenticated;
+
+-- Grade a set of answers ({ question_id: "a" | "b" | "c" | "d" }) and record the submission
+CREATE OR REPLACE FUNCTION public.submit_quiz(
+  p_quiz_id UUID,
+  p_answers JSONB,
+  p_time_taken INTEGER
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER -- Needs to read correct_answer, which callers cannot select
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_time_limit INTEGER;
+  v_total INTEGER;
+  v_correct INTEGER;
+  v_score INTEGER;
+  v_submission_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to submit a quiz';
+  END IF;
+
+  SELECT time_limit INTO v_time_limit FROM quizzes WHERE id = p_quiz_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quiz % does not exist', p_quiz_id;
+  END IF;
+
+  SELECT
+    count(*),
+    count(*) FILTER (WHERE lower(p_answers ->> q.id::text) = lower(q.correct_answer))
+  INTO v_total, v_correct
+  FROM quiz_questions q
+  WHERE q.quiz_id = p_quiz_id;
+
+  IF v_total = 0 THEN
+    RAISE EXCEPTION 'Quiz % has no questions', p_quiz_id;
+  END IF;
+
+  v_score := round(v_correct * 100.0 / v_total);
+
+  INSERT INTO quiz_submissions (user_id, quiz_id, score, time_taken, answers, correct_count, total_questions)
+  VALUES (
+    v_user_id,
+    p_quiz_id,
+    v_score,
+    -- The client reports elapsed time, but it can never exceed the quiz's limit
+    greatest(0, least(coalesce(p_time_taken, 0), v_time_limit * 60)),
+    coalesce(p_answers, '{}'::jsonb),
+    v_correct,
+    v_total
+  )
+  RETURNING id INTO v_submission_id;
+
+  RETURN jsonb_build_object(
+    'submission_id', v_submission_id,
+    'score', v_score,
+    'correct', v_correct,
+    'total', v_total
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.submit_quiz(UUID, JSONB, INTEGER) TO authenticated;
+
+COMMENT ON FUNCTION public.submit_quiz(UUID, JSONB, INTEGER) IS 'Grades answers against quiz_questions and records the submission for the calling user.';
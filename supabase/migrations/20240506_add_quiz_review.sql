@@ -0,0 +1,139 @@
+-- Per-question review of submissions, and retrying only the missed questions
+
+-- Shown after submitting; like correct_answer it is not selectable by clients
+ALTER TABLE public.quiz_questions
+ADD COLUMN IF NOT EXISTS explanation TEXT;
+
+-- The questions a submission covered; NULL means every question in the quiz
+ALTER TABLE public.quiz_submissions
+ADD COLUMN IF NOT EXISTS question_ids UUID[];
+
+-- Replace submit_quiz with a version that can grade a subset of the questions
+DROP FUNCTION IF EXISTS public.submit_quiz(UUID, JSONB, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.submit_quiz(
+  p_quiz_id UUID,
+  p_answers JSONB,
+  p_time_taken INTEGER,
+  p_question_ids UUID[] DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER -- Needs to read correct_answer, which callers cannot select
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_time_limit INTEGER;
+  v_total INTEGER;
+  v_correct INTEGER;
+  v_score INTEGER;
+  v_submission_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to submit a quiz';
+  END IF;
+
+  SELECT time_limit INTO v_time_limit FROM quizzes WHERE id = p_quiz_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quiz % does not exist', p_quiz_id;
+  END IF;
+
+  SELECT
+    count(*),
+    count(*) FILTER (WHERE lower(p_answers ->> q.id::text) = lower(q.correct_answer))
+  INTO v_total, v_correct
+  FROM quiz_questions q
+  WHERE q.quiz_id = p_quiz_id
+  AND (p_question_ids IS NULL OR q.id = ANY (p_question_ids));
+
+  IF v_total = 0 THEN
+    RAISE EXCEPTION 'Quiz % has no questions', p_quiz_id;
+  END IF;
+
+  v_score := round(v_correct * 100.0 / v_total);
+
+  INSERT INTO quiz_submissions (
+    user_id, quiz_id, score, time_taken, answers, correct_count, total_questions, question_ids
+  )
+  VALUES (
+    v_user_id,
+    p_quiz_id,
+    v_score,
+    -- The client reports elapsed time, but it can never exceed the quiz's limit
+    greatest(0, least(coalesce(p_time_taken, 0), v_time_limit * 60)),
+    coalesce(p_answers, '{}'::jsonb),
+    v_correct,
+    v_total,
+    p_question_ids
+  )
+  RETURNING id INTO v_submission_id;
+
+  RETURN jsonb_build_object(
+    'submission_id', v_submission_id,
+    'score', v_score,
+    'correct', v_correct,
+    'total', v_total
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.submit_quiz(UUID, JSONB, INTEGER, UUID[]) TO authenticated;
+
+COMMENT ON FUNCTION public.submit_quiz(UUID, JSONB, INTEGER, UUID[]) IS 'Grades answers against quiz_questions (optionally a subset) and records the submission for the calling user.';
+
+-- Every question in one of the caller's submissions, with their answer and the answer key
+CREATE OR REPLACE FUNCTION public.get_submission_review(p_submission_id UUID)
+RETURNS TABLE (
+  question_id UUID,
+  question_text TEXT,
+  option_a TEXT,
+  option_b TEXT,
+  option_c TEXT,
+  option_d TEXT,
+  selected_answer TEXT,
+  correct_answer TEXT,
+  is_correct BOOLEAN,
+  explanation TEXT,
+  "order" INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER -- The answer key is only revealed for the caller's own submissions
+SET search_path = public
+AS $$
+DECLARE
+  v_submission quiz_submissions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_submission
+  FROM quiz_submissions
+  WHERE id = p_submission_id AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Submission % not found', p_submission_id;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    q.id,
+    q.question_text,
+    q.option_a,
+    q.option_b,
+    q.option_c,
+    q.option_d,
+    v_submission.answers ->> q.id::text,
+    q.correct_answer,
+    coalesce(lower(v_submission.answers ->> q.id::text) = lower(q.correct_answer), FALSE),
+    q.explanation,
+    q."order"
+  FROM quiz_questions q
+  WHERE q.quiz_id = v_submission.quiz_id
+  AND (v_submission.question_ids IS NULL OR q.id = ANY (v_submission.question_ids))
+  ORDER BY q."order";
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_submission_review(UUID) TO authenticated;
+
+COMMENT ON FUNCTION public.get_submission_review(UUID) IS 'Returns each question of a submission owned by the caller with the chosen and correct answers.';
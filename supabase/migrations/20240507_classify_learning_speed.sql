@@ -0,0 +1,164 @@
+-- Learning speed classification, recomputed after every quiz submission
+
+-- Classifications table, created here if it was set up by hand before migrations existed
+CREATE TABLE IF NOT EXISTS public.classifications (
+    id UUID PRIMARY KEY DEFAULT extensions.uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    classification TEXT NOT NULL CHECK (classification IN ('Slow', 'Moderate', 'Fast')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+-- One current classification per user
+CREATE UNIQUE INDEX IF NOT EXISTS classifications_user_id_key ON public.classifications(user_id);
+
+ALTER TABLE public.classifications ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own classification" ON public.classifications;
+CREATE POLICY "Users can view their own classification"
+ON public.classifications
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Every change of classification, with the inputs that produced it
+CREATE TABLE IF NOT EXISTS public.classification_history (
+    id UUID PRIMARY KEY DEFAULT extensions.uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    classification TEXT NOT NULL CHECK (classification IN ('Slow', 'Moderate', 'Fast')),
+    previous_classification TEXT CHECK (previous_classification IN ('Slow', 'Moderate', 'Fast')),
+    average_score NUMERIC(5, 2) NOT NULL,
+    average_time_ratio NUMERIC(5, 2) NOT NULL,
+    score_trend NUMERIC(6, 2) NOT NULL,
+    submission_ids UUID[] NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS classification_history_user_id_idx
+ON public.classification_history(user_id, created_at);
+
+ALTER TABLE public.classification_history ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own classification history" ON public.classification_history;
+CREATE POLICY "Users can view their own classification history"
+ON public.classification_history
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Classify a user from their most recent submissions:
+--   average score, time used relative to each quiz's limit, and whether scores are trending up or down.
+CREATE OR REPLACE FUNCTION public.classify_user(p_user_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  -- How many recent submissions feed into the classification
+  c_window CONSTANT INTEGER := 10;
+  -- How many of those count as "recent" when measuring the trend
+  c_recent CONSTANT INTEGER := 3;
+  v_average_score NUMERIC;
+  v_average_time_ratio NUMERIC;
+  v_score_trend NUMERIC := 0;
+  v_submission_ids UUID[];
+  v_count INTEGER;
+  v_classification TEXT;
+  v_previous TEXT;
+BEGIN
+  WITH recent AS (
+    SELECT
+      s.id,
+      s.score,
+      -- Share of the time limit used; 1.0 means the whole limit
+      s.time_taken::NUMERIC / nullif(q.time_limit * 60, 0) AS time_ratio,
+      row_number() OVER (ORDER BY s.created_at DESC) AS position
+    FROM quiz_submissions s
+    JOIN quizzes q ON q.id = s.quiz_id
+    WHERE s.user_id = p_user_id
+    ORDER BY s.created_at DESC
+    LIMIT c_window
+  )
+  SELECT
+    count(*),
+    avg(score),
+    coalesce(avg(least(time_ratio, 1)), 1),
+    array_agg(id ORDER BY position),
+    CASE
+      WHEN count(*) > c_recent THEN
+        avg(score) FILTER (WHERE position <= c_recent) - avg(score) FILTER (WHERE position > c_recent)
+      ELSE 0
+    END
+  INTO v_count, v_average_score, v_average_time_ratio, v_submission_ids, v_score_trend
+  FROM recent;
+
+  IF v_count = 0 THEN
+    RETURN NULL;
+  END IF;
+
+  v_classification := CASE
+    -- High scores with time to spare, or strong scores that keep improving
+    WHEN v_average_score >= 80 AND v_average_time_ratio <= 0.6 THEN 'Fast'
+    WHEN v_average_score >= 75 AND v_average_time_ratio <= 0.75 AND v_score_trend >= 10 THEN 'Fast'
+    -- Low scores, or middling scores that need almost the whole time limit
+    WHEN v_average_score < 50 THEN 'Slow'
+    WHEN v_average_score < 65 AND v_average_time_ratio >= 0.9 THEN 'Slow'
+    WHEN v_average_score < 65 AND v_score_trend <= -15 THEN 'Slow'
+    ELSE 'Moderate'
+  END;
+
+  SELECT classification INTO v_previous FROM classifications WHERE user_id = p_user_id;
+
+  INSERT INTO classifications (user_id, classification, updated_at)
+  VALUES (p_user_id, v_classification, now())
+  ON CONFLICT (user_id)
+  DO UPDATE SET classification = EXCLUDED.classification, updated_at = now();
+
+  IF v_previous IS DISTINCT FROM v_classification THEN
+    INSERT INTO classification_history (
+      user_id, classification, previous_classification,
+      average_score, average_time_ratio, score_trend, submission_ids
+    )
+    VALUES (
+      p_user_id, v_classification, v_previous,
+      round(v_average_score, 2), round(v_average_time_ratio, 2), round(v_score_trend, 2), v_submission_ids
+    );
+  END IF;
+
+  RETURN v_classification;
+END;
+$$;
+
+-- Only the trigger below should reclassify users
+REVOKE EXECUTE ON FUNCTION public.classify_user(UUID) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION public.classify_user(UUID) IS 'Recomputes a user''s learning speed classification from their recent quiz submissions.';
+
+-- Reclassify the student whenever a submission is recorded
+CREATE OR REPLACE FUNCTION public.classify_after_submission()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM classify_user(NEW.user_id);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS classify_after_submission ON public.quiz_submissions;
+CREATE TRIGGER classify_after_submission
+AFTER INSERT ON public.quiz_submissions
+FOR EACH ROW
+EXECUTE FUNCTION public.classify_after_submission();
+
+-- Classify everyone who already has submissions
+DO $$
+DECLARE
+  v_user_id UUID;
+BEGIN
+  FOR v_user_id IN SELECT DISTINCT user_id FROM public.quiz_submissions LOOP
+    PERFORM public.classify_user(v_user_id);
+  END LOOP;
+END
+$$;
@@ -0,0 +1,202 @@
+-- Per-user recommendations that point at real slides
+
+-- Recommendations table, created here if it was set up by hand before migrations existed
+CREATE TABLE IF NOT EXISTS public.recommendations (
+    id UUID PRIMARY KEY DEFAULT extensions.uuid_generate_v4(),
+    title TEXT NOT NULL,
+    description TEXT,
+    classification TEXT CHECK (classification IN ('Slow', 'Moderate', 'Fast')),
+    content_id UUID,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+ALTER TABLE public.recommendations
+ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+ADD COLUMN IF NOT EXISTS score NUMERIC(6, 2) NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS reason TEXT;
+
+-- Hand-written rows were shared by classification and often pointed at nothing; they are
+-- replaced by generated per-user rows, so drop any that don't reference an existing slide
+DELETE FROM public.recommendations
+WHERE content_id IS NULL
+OR content_id::text !~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+OR content_id::text NOT IN (SELECT id::text FROM public.slides);
+
+ALTER TABLE public.recommendations
+ALTER COLUMN content_id TYPE UUID USING content_id::text::uuid;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'recommendations_content_id_fkey'
+  ) THEN
+    ALTER TABLE public.recommendations
+    ADD CONSTRAINT recommendations_content_id_fkey
+    FOREIGN KEY (content_id) REFERENCES public.slides(id) ON DELETE CASCADE;
+  END IF;
+END
+$$;
+
+CREATE INDEX IF NOT EXISTS recommendations_user_id_idx ON public.recommendations(user_id, score DESC);
+
+ALTER TABLE public.recommendations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own recommendations" ON public.recommendations;
+CREATE POLICY "Users can view their own recommendations"
+ON public.recommendations
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Rank slides for a user and replace their recommendations with the best few.
+--   * unread slides, and slides started but not finished
+--   * slides behind quizzes the user scored poorly on, and other slides in those courses
+--   * slides in courses the user is already working through
+-- The classification shifts the weights: Slow learners are steered towards review,
+-- Fast learners towards new material.
+CREATE OR REPLACE FUNCTION public.generate_recommendations(p_user_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  c_limit CONSTANT INTEGER := 5;
+  -- Quiz scores below this mark the quiz's slide as a weak topic
+  c_weak_score CONSTANT INTEGER := 70;
+  v_classification TEXT;
+  v_review_weight NUMERIC;
+  v_new_weight NUMERIC;
+  v_count INTEGER;
+BEGIN
+  SELECT classification INTO v_classification FROM classifications WHERE user_id = p_user_id;
+  v_classification := coalesce(v_classification, 'Moderate');
+
+  v_review_weight := CASE v_classification WHEN 'Slow' THEN 1.5 WHEN 'Fast' THEN 0.75 ELSE 1 END;
+  v_new_weight := CASE v_classification WHEN 'Slow' THEN 0.75 WHEN 'Fast' THEN 1.5 ELSE 1 END;
+
+  DELETE FROM recommendations WHERE user_id = p_user_id;
+
+  WITH weak_slides AS (
+    -- Best score per generated quiz, so a later pass clears the weakness
+    SELECT q.slide_id, max(s.score) AS best_score
+    FROM quiz_submissions s
+    JOIN quizzes q ON q.id = s.quiz_id
+    WHERE s.user_id = p_user_id AND q.slide_id IS NOT NULL
+    GROUP BY q.slide_id
+    HAVING max(s.score) < c_weak_score
+  ),
+  weak_courses AS (
+    SELECT DISTINCT sl.course_id
+    FROM weak_slides w
+    JOIN slides sl ON sl.id = w.slide_id
+  ),
+  active_courses AS (
+    SELECT DISTINCT sl.course_id
+    FROM content_progress p
+    JOIN slides sl ON sl.id = p.slide_id
+    WHERE p.user_id = p_user_id
+  ),
+  scored AS (
+    SELECT
+      sl.id,
+      sl.title,
+      p.completed,
+      w.best_score,
+      (
+        CASE
+          WHEN p.id IS NULL THEN 3 * v_new_weight
+          WHEN NOT p.completed THEN 2 * v_review_weight
+          ELSE 0
+        END
+        + CASE WHEN w.slide_id IS NOT NULL THEN 4 * v_review_weight ELSE 0 END
+        + CASE WHEN wc.course_id IS NOT NULL AND w.slide_id IS NULL THEN 1 * v_review_weight ELSE 0 END
+        + CASE WHEN ac.course_id IS NOT NULL THEN 1 ELSE 0 END
+        -- Newer material wins ties
+        + 0.5 / (1 + extract(epoch FROM now() - sl.created_at) / 604800)
+      ) AS score,
+      CASE
+        WHEN w.slide_id IS NOT NULL THEN format('Review this: you scored %s%% on its quiz', w.best_score)
+        WHEN p.id IS NOT NULL AND NOT p.completed THEN format('Pick up where you left off on page %s', p.last_position)
+        WHEN wc.course_id IS NOT NULL THEN 'Related to a topic you found difficult'
+        WHEN ac.course_id IS NOT NULL THEN 'Next up in a course you are studying'
+        ELSE 'New material you haven''t opened yet'
+      END AS reason
+    FROM slides sl
+    LEFT JOIN content_progress p ON p.slide_id = sl.id AND p.user_id = p_user_id
+    LEFT JOIN weak_slides w ON w.slide_id = sl.id
+    LEFT JOIN weak_courses wc ON wc.course_id = sl.course_id
+    LEFT JOIN active_courses ac ON ac.course_id = sl.course_id
+  )
+  INSERT INTO recommendations (user_id, content_id, title, description, reason, classification, score)
+  SELECT p_user_id, id, title, reason, reason, v_classification, round(score, 2)
+  FROM scored
+  -- Finished slides only come back when a quiz shows they need reviewing
+  WHERE NOT (coalesce(completed, FALSE) AND best_score IS NULL)
+  ORDER BY score DESC, title
+  LIMIT c_limit;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.generate_recommendations(UUID) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION public.generate_recommendations(UUID) IS 'Ranks slides for a user and replaces their recommendations.';
+
+-- Let signed-in users refresh their own recommendations on demand
+CREATE OR REPLACE FUNCTION public.refresh_recommendations()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to refresh recommendations';
+  END IF;
+
+  RETURN generate_recommendations(auth.uid());
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.refresh_recommendations() TO authenticated;
+
+-- Quiz results change both the classification and the weak topics
+CREATE OR REPLACE FUNCTION public.classify_after_submission()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM classify_user(NEW.user_id);
+  PERFORM generate_recommendations(NEW.user_id);
+  RETURN NEW;
+END;
+$$;
+
+-- Finishing a slide removes it from the recommendations
+CREATE OR REPLACE FUNCTION public.recommend_after_progress()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- The viewer re-saves completed = true on every page turn; only react to the first time
+  IF TG_OP = 'UPDATE' AND OLD.completed THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM generate_recommendations(NEW.user_id);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS recommend_after_progress ON public.content_progress;
+CREATE TRIGGER recommend_after_progress
+AFTER INSERT OR UPDATE OF completed ON public.content_progress
+FOR EACH ROW
+WHEN (NEW.completed)
+EXECUTE FUNCTION public.recommend_after_progress();
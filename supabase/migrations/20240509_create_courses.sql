@@ -0,0 +1,77 @@
+-- Courses as a real entity instead of free-text course IDs on each slide
+
+CREATE TABLE IF NOT EXISTS public.courses (
+    id UUID PRIMARY KEY DEFAULT extensions.uuid_generate_v4(),
+    code TEXT NOT NULL UNIQUE,
+    name TEXT NOT NULL,
+    description TEXT,
+    owner_id UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+    term TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+ALTER TABLE public.courses ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view courses" ON public.courses;
+CREATE POLICY "Authenticated users can view courses"
+ON public.courses
+FOR SELECT
+USING (auth.role() = 'authenticated');
+
+DROP POLICY IF EXISTS "Authenticated users can create courses" ON public.courses;
+CREATE POLICY "Authenticated users can create courses"
+ON public.courses
+FOR INSERT
+WITH CHECK (auth.role() = 'authenticated' AND owner_id = auth.uid());
+
+DROP POLICY IF EXISTS "Owners can update their courses" ON public.courses;
+CREATE POLICY "Owners can update their courses"
+ON public.courses
+FOR UPDATE
+USING (auth.uid() = owner_id)
+WITH CHECK (auth.uid() = owner_id);
+
+DROP POLICY IF EXISTS "Owners can delete their courses" ON public.courses;
+CREATE POLICY "Owners can delete their courses"
+ON public.courses
+FOR DELETE
+USING (auth.uid() = owner_id);
+
+-- Turn every distinct free-text course ID into a course row. The original string
+-- becomes the course code and, until someone renames it, the course name.
+-- Slides with a blank course ID are collected under a GENERAL course.
+INSERT INTO public.courses (code, name, owner_id)
+SELECT DISTINCT
+  coalesce(nullif(trim(course_id), ''), 'GENERAL'),
+  coalesce(nullif(trim(course_id), ''), 'General'),
+  NULL::UUID
+FROM public.slides
+ON CONFLICT (code) DO NOTHING;
+
+-- Point slides at course rows instead of strings
+ALTER TABLE public.slides
+ADD COLUMN course_ref UUID REFERENCES public.courses(id) ON DELETE RESTRICT;
+
+UPDATE public.slides s
+SET course_ref = c.id
+FROM public.courses c
+WHERE c.code = coalesce(nullif(trim(s.course_id), ''), 'GENERAL');
+
+ALTER TABLE public.slides DROP COLUMN course_id;
+ALTER TABLE public.slides RENAME COLUMN course_ref TO course_id;
+
+ALTER TABLE public.slides ALTER COLUMN course_id SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS slides_course_id_idx ON public.slides(course_id);
+
+-- Quizzes belong to a course too; generated ones inherit it from their slide
+ALTER TABLE public.quizzes
+ADD COLUMN IF NOT EXISTS course_id UUID REFERENCES public.courses(id) ON DELETE SET NULL;
+
+UPDATE public.quizzes q
+SET course_id = s.course_id
+FROM public.slides s
+WHERE q.slide_id = s.id AND q.course_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS quizzes_course_id_idx ON public.quizzes(course_id);
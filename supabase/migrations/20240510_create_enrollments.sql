@@ -0,0 +1,220 @@
+-- Students enrol in courses; progress, recommendations and quiz lists only cover enrolled courses
+
+CREATE TABLE IF NOT EXISTS public.enrollments (
+    id UUID PRIMARY KEY DEFAULT extensions.uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid(),
+    course_id UUID NOT NULL REFERENCES public.courses(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    UNIQUE (user_id, course_id)
+);
+
+CREATE INDEX IF NOT EXISTS enrollments_course_id_idx ON public.enrollments(course_id);
+
+ALTER TABLE public.enrollments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own enrollments" ON public.enrollments;
+CREATE POLICY "Users can view their own enrollments"
+ON public.enrollments
+FOR SELECT
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can enroll themselves" ON public.enrollments;
+CREATE POLICY "Users can enroll themselves"
+ON public.enrollments
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can leave their courses" ON public.enrollments;
+CREATE POLICY "Users can leave their courses"
+ON public.enrollments
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Enrol existing students in every course they have already read or been quizzed on,
+-- so their history doesn't disappear from the scoped views
+INSERT INTO public.enrollments (user_id, course_id)
+SELECT p.user_id, s.course_id
+FROM public.content_progress p
+JOIN public.slides s ON s.id = p.slide_id
+UNION
+SELECT sub.user_id, q.course_id
+FROM public.quiz_submissions sub
+JOIN public.quizzes q ON q.id = sub.quiz_id
+WHERE q.course_id IS NOT NULL
+ON CONFLICT (user_id, course_id) DO NOTHING;
+
+-- Same ranking as before, limited to slides in courses the user is enrolled in.
+--   * unread slides, and slides started but not finished
+--   * slides behind quizzes the user scored poorly on, and other slides in those courses
+--   * slides in courses the user is already working through
+-- The classification shifts the weights: Slow learners are steered towards review,
+-- Fast learners towards new material.
+CREATE OR REPLACE FUNCTION public.generate_recommendations(p_user_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  c_limit CONSTANT INTEGER := 5;
+  -- Quiz scores below this mark the quiz's slide as a weak topic
+  c_weak_score CONSTANT INTEGER := 70;
+  v_classification TEXT;
+  v_review_weight NUMERIC;
+  v_new_weight NUMERIC;
+  v_count INTEGER;
+BEGIN
+  SELECT classification INTO v_classification FROM classifications WHERE user_id = p_user_id;
+  v_classification := coalesce(v_classification, 'Moderate');
+
+  v_review_weight := CASE v_classification WHEN 'Slow' THEN 1.5 WHEN 'Fast' THEN 0.75 ELSE 1 END;
+  v_new_weight := CASE v_classification WHEN 'Slow' THEN 0.75 WHEN 'Fast' THEN 1.5 ELSE 1 END;
+
+  DELETE FROM recommendations WHERE user_id = p_user_id;
+
+  WITH weak_slides AS (
+    -- Best score per generated quiz, so a later pass clears the weakness
+    SELECT q.slide_id, max(s.score) AS best_score
+    FROM quiz_submissions s
+    JOIN quizzes q ON q.id = s.quiz_id
+    WHERE s.user_id = p_user_id AND q.slide_id IS NOT NULL
+    GROUP BY q.slide_id
+    HAVING max(s.score) < c_weak_score
+  ),
+  enrolled_courses AS (
+    SELECT course_id FROM enrollments WHERE user_id = p_user_id
+  ),
+  weak_courses AS (
+    SELECT DISTINCT sl.course_id
+    FROM weak_slides w
+    JOIN slides sl ON sl.id = w.slide_id
+  ),
+  active_courses AS (
+    SELECT DISTINCT sl.course_id
+    FROM content_progress p
+    JOIN slides sl ON sl.id = p.slide_id
+    WHERE p.user_id = p_user_id
+  ),
+  scored AS (
+    SELECT
+      sl.id,
+      sl.title,
+      p.completed,
+      w.best_score,
+      (
+        CASE
+          WHEN p.id IS NULL THEN 3 * v_new_weight
+          WHEN NOT p.completed THEN 2 * v_review_weight
+          ELSE 0
+        END
+        + CASE WHEN w.slide_id IS NOT NULL THEN 4 * v_review_weight ELSE 0 END
+        + CASE WHEN wc.course_id IS NOT NULL AND w.slide_id IS NULL THEN 1 * v_review_weight ELSE 0 END
+        + CASE WHEN ac.course_id IS NOT NULL THEN 1 ELSE 0 END
+        -- Newer material wins ties
+        + 0.5 / (1 + extract(epoch FROM now() - sl.created_at) / 604800)
+      ) AS score,
+      CASE
+        WHEN w.slide_id IS NOT NULL THEN format('Review this: you scored %s%% on its quiz', w.best_score)
+        WHEN p.id IS NOT NULL AND NOT p.completed THEN format('Pick up where you left off on page %s', p.last_position)
+        WHEN wc.course_id IS NOT NULL THEN 'Related to a topic you found difficult'
+        WHEN ac.course_id IS NOT NULL THEN 'Next up in a course you are studying'
+        ELSE 'New material you haven''t opened yet'
+      END AS reason
+    FROM slides sl
+    JOIN enrolled_courses ec ON ec.course_id = sl.course_id
+    LEFT JOIN content_progress p ON p.slide_id = sl.id AND p.user_id = p_user_id
+    LEFT JOIN weak_slides w ON w.slide_id = sl.id
+    LEFT JOIN weak_courses wc ON wc.course_id = sl.course_id
+    LEFT JOIN active_courses ac ON ac.course_id = sl.course_id
+  )
+  INSERT INTO recommendations (user_id, content_id, title, description, reason, classification, score)
+  SELECT p_user_id, id, title, reason, reason, v_classification, round(score, 2)
+  FROM scored
+  -- Finished slides only come back when a quiz shows they need reviewing
+  WHERE NOT (coalesce(completed, FALSE) AND best_score IS NULL)
+  ORDER BY score DESC, title
+  LIMIT c_limit;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.generate_recommendations(UUID) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION public.generate_recommendations(UUID) IS 'Ranks slides for a user and replaces their recommendations.';
+
+-- Joining or leaving a course changes which slides can be recommended
+CREATE OR REPLACE FUNCTION public.recommend_after_enrollment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Enrollments are also removed when the account itself is deleted
+  IF TG_OP = 'DELETE' AND NOT EXISTS (SELECT 1 FROM auth.users WHERE id = OLD.user_id) THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM generate_recommendations(coalesce(NEW.user_id, OLD.user_id));
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS recommend_after_enrollment ON public.enrollments;
+CREATE TRIGGER recommend_after_enrollment
+AFTER INSERT OR DELETE ON public.enrollments
+FOR EACH ROW
+EXECUTE FUNCTION public.recommend_after_enrollment();
+
+-- Progress through each course the caller is enrolled in. Slides count once they are
+-- read to the end, quizzes once they have been attempted.
+CREATE OR REPLACE FUNCTION public.get_course_progress()
+RETURNS TABLE (
+  course_id UUID,
+  code TEXT,
+  name TEXT,
+  total_slides INTEGER,
+  completed_slides INTEGER,
+  total_quizzes INTEGER,
+  attempted_quizzes INTEGER,
+  average_score NUMERIC
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    c.id,
+    c.code,
+    c.name,
+    (SELECT count(*)::INTEGER FROM slides s WHERE s.course_id = c.id),
+    (
+      SELECT count(*)::INTEGER
+      FROM content_progress p
+      JOIN slides s ON s.id = p.slide_id
+      WHERE s.course_id = c.id AND p.user_id = auth.uid() AND p.completed
+    ),
+    (SELECT count(*)::INTEGER FROM quizzes q WHERE q.course_id = c.id),
+    (
+      SELECT count(DISTINCT sub.quiz_id)::INTEGER
+      FROM quiz_submissions sub
+      JOIN quizzes q ON q.id = sub.quiz_id
+      WHERE q.course_id = c.id AND sub.user_id = auth.uid()
+    ),
+    (
+      SELECT round(avg(sub.score), 1)
+      FROM quiz_submissions sub
+      JOIN quizzes q ON q.id = sub.quiz_id
+      WHERE q.course_id = c.id AND sub.user_id = auth.uid()
+    )
+  FROM enrollments e
+  JOIN courses c ON c.id = e.course_id
+  WHERE e.user_id = auth.uid()
+  ORDER BY c.code;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_course_progress() TO authenticated;
+
+COMMENT ON FUNCTION public.get_course_progress() IS 'Returns slide and quiz completion for each course the caller is enrolled in.';
@@ -0,0 +1,204 @@
+-- Roles on profiles: students read and take quizzes, instructors author content, admins manage everything.
+-- Promote the first admin from the SQL editor, where no user JWT is present:
+--   UPDATE public.profiles SET role = 'admin' WHERE email = 'someone@example.com';
+
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS role TEXT NOT NULL DEFAULT 'student'
+CHECK (role IN ('student', 'instructor', 'admin'));
+
+-- Role of the calling user. SECURITY DEFINER so policies can use it without
+-- depending on the RLS policies of profiles itself.
+CREATE OR REPLACE FUNCTION public.current_user_role()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce((SELECT role FROM profiles WHERE user_id = auth.uid()), 'student');
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_instructor()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT current_user_role() IN ('instructor', 'admin');
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_admin()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT current_user_role() = 'admin';
+$$;
+
+GRANT EXECUTE ON FUNCTION public.current_user_role() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.is_instructor() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.is_admin() TO authenticated;
+
+-- Users may edit their own profile, but only admins may change anyone's role.
+-- Requests without a user JWT (SQL editor, service role) are trusted.
+CREATE OR REPLACE FUNCTION public.protect_profile_role()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT is_admin() THEN
+    NEW.role := CASE TG_OP WHEN 'UPDATE' THEN OLD.role ELSE 'student' END;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_profile_role ON public.profiles;
+CREATE TRIGGER protect_profile_role
+BEFORE INSERT OR UPDATE ON public.profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_profile_role();
+
+-- Lets admins assign roles from the admin page
+CREATE OR REPLACE FUNCTION public.set_user_role(p_email TEXT, p_role TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can change roles';
+  END IF;
+
+  IF p_role NOT IN ('student', 'instructor', 'admin') THEN
+    RAISE EXCEPTION 'Unknown role %', p_role;
+  END IF;
+
+  UPDATE profiles SET role = p_role, updated_at = now() WHERE lower(email) = lower(trim(p_email));
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No user with the email %', p_email;
+  END IF;
+
+  RETURN TRUE;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_user_role(TEXT, TEXT) TO authenticated;
+
+COMMENT ON FUNCTION public.set_user_role(TEXT, TEXT) IS 'Changes the role of the user with the given email. Admins only.';
+
+-- Slides: everyone signed in can read, only instructors can author
+DROP POLICY IF EXISTS "Authenticated users can insert their own slides" ON public.slides;
+DROP POLICY IF EXISTS "Authenticated users can update slides" ON public.slides;
+DROP POLICY IF EXISTS "Authenticated users can delete slides" ON public.slides;
+
+DROP POLICY IF EXISTS "Instructors can insert slides" ON public.slides;
+CREATE POLICY "Instructors can insert slides"
+ON public.slides
+FOR INSERT
+WITH CHECK (public.is_instructor());
+
+DROP POLICY IF EXISTS "Instructors can update slides" ON public.slides;
+CREATE POLICY "Instructors can update slides"
+ON public.slides
+FOR UPDATE
+USING (public.is_instructor())
+WITH CHECK (public.is_instructor());
+
+DROP POLICY IF EXISTS "Instructors can delete slides" ON public.slides;
+CREATE POLICY "Instructors can delete slides"
+ON public.slides
+FOR DELETE
+USING (public.is_instructor());
+
+-- Quizzes and their questions
+DROP POLICY IF EXISTS "Instructors can manage quizzes" ON public.quizzes;
+CREATE POLICY "Instructors can manage quizzes"
+ON public.quizzes
+FOR ALL
+USING (public.is_instructor())
+WITH CHECK (public.is_instructor());
+
+DROP POLICY IF EXISTS "Instructors can manage quiz questions" ON public.quiz_questions;
+CREATE POLICY "Instructors can manage quiz questions"
+ON public.quiz_questions
+FOR ALL
+USING (public.is_instructor())
+WITH CHECK (public.is_instructor());
+
+-- Courses: instructors create them; owners and admins maintain them
+DROP POLICY IF EXISTS "Authenticated users can create courses" ON public.courses;
+DROP POLICY IF EXISTS "Instructors can create courses" ON public.courses;
+CREATE POLICY "Instructors can create courses"
+ON public.courses
+FOR INSERT
+WITH CHECK (public.is_instructor() AND owner_id = auth.uid());
+
+DROP POLICY IF EXISTS "Owners can update their courses" ON public.courses;
+CREATE POLICY "Owners can update their courses"
+ON public.courses
+FOR UPDATE
+USING (auth.uid() = owner_id OR public.is_admin())
+WITH CHECK (auth.uid() = owner_id OR public.is_admin());
+
+DROP POLICY IF EXISTS "Owners can delete their courses" ON public.courses;
+CREATE POLICY "Owners can delete their courses"
+ON public.courses
+FOR DELETE
+USING (auth.uid() = owner_id OR public.is_admin());
+
+-- Storage: replace any write policy on the content bucket with an instructor-only one.
+-- Policies were created by hand in the dashboard, so their names aren't known here.
+DO $$
+DECLARE
+  policy RECORD;
+BEGIN
+  FOR policy IN
+    SELECT policyname FROM pg_policies
+    WHERE schemaname = 'storage' AND tablename = 'objects'
+    AND cmd IN ('INSERT', 'UPDATE', 'DELETE', 'ALL')
+    AND (coalesce(qual, '') || coalesce(with_check, '')) LIKE '%''content''%'
+  LOOP
+    EXECUTE format('DROP POLICY %I ON storage.objects', policy.policyname);
+  END LOOP;
+END
+$$;
+
+CREATE POLICY "Instructors can upload content"
+ON storage.objects
+FOR INSERT
+WITH CHECK (bucket_id = 'content' AND public.is_instructor());
+
+CREATE POLICY "Instructors can update content"
+ON storage.objects
+FOR UPDATE
+USING (bucket_id = 'content' AND public.is_instructor());
+
+CREATE POLICY "Instructors can delete content"
+ON storage.objects
+FOR DELETE
+USING (bucket_id = 'content' AND public.is_instructor());
+
+-- delete_slide bypasses RLS, so it has to check the role itself
+CREATE OR REPLACE FUNCTION public.delete_slide(slide_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_instructor() THEN
+    RAISE EXCEPTION 'Only instructors can delete slides';
+  END IF;
+
+  DELETE FROM public.slides WHERE id = delete_slide.slide_id;
+
+  RETURN FOUND;
+END;
+$$;
+
+COMMENT ON FUNCTION public.delete_slide(UUID) IS 'Deletes a slide by ID. Runs with security definer privileges to bypass RLS, instructors and admins only.';
@@ -0,0 +1,76 @@
+-- Record who uploaded each slide, and let only them (or an admin) change or delete it
+
+-- References profiles rather than auth.users so the uploader's name can be embedded
+-- with select("*, uploader:profiles(name)")
+ALTER TABLE public.slides
+ADD COLUMN IF NOT EXISTS uploaded_by UUID DEFAULT auth.uid()
+REFERENCES public.profiles(user_id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS slides_uploaded_by_idx ON public.slides(uploaded_by);
+
+-- Existing slides were uploaded anonymously; they stay unowned and only admins can change them
+
+-- Students see who teaches them, but never other students' profiles
+DROP POLICY IF EXISTS "Authenticated users can view instructor profiles" ON public.profiles;
+CREATE POLICY "Authenticated users can view instructor profiles"
+ON public.profiles
+FOR SELECT
+USING (auth.role() = 'authenticated' AND role IN ('instructor', 'admin'));
+
+DROP POLICY IF EXISTS "Instructors can insert slides" ON public.slides;
+CREATE POLICY "Instructors can insert slides"
+ON public.slides
+FOR INSERT
+WITH CHECK (public.is_instructor() AND uploaded_by = auth.uid());
+
+DROP POLICY IF EXISTS "Instructors can update slides" ON public.slides;
+DROP POLICY IF EXISTS "Owners can update their slides" ON public.slides;
+CREATE POLICY "Owners can update their slides"
+ON public.slides
+FOR UPDATE
+USING (uploaded_by = auth.uid() OR public.is_admin())
+WITH CHECK (uploaded_by = auth.uid() OR public.is_admin());
+
+DROP POLICY IF EXISTS "Instructors can delete slides" ON public.slides;
+DROP POLICY IF EXISTS "Owners can delete their slides" ON public.slides;
+CREATE POLICY "Owners can delete their slides"
+ON public.slides
+FOR DELETE
+USING (uploaded_by = auth.uid() OR public.is_admin());
+
+-- Files follow the same rule; storage records the uploading user as the object owner
+DROP POLICY IF EXISTS "Instructors can update content" ON storage.objects;
+CREATE POLICY "Instructors can update content"
+ON storage.objects
+FOR UPDATE
+USING (bucket_id = 'content' AND (owner = auth.uid() OR public.is_admin()));
+
+DROP POLICY IF EXISTS "Instructors can delete content" ON storage.objects;
+CREATE POLICY "Instructors can delete content"
+ON storage.objects
+FOR DELETE
+USING (bucket_id = 'content' AND (owner = auth.uid() OR public.is_admin()));
+
+-- delete_slide bypasses RLS, so it repeats the ownership check
+CREATE OR REPLACE FUNCTION public.delete_slide(slide_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.slides s
+    WHERE s.id = delete_slide.slide_id
+    AND (s.uploaded_by = auth.uid() OR is_admin())
+  ) THEN
+    RAISE EXCEPTION 'Only the uploader or an admin can delete this slide';
+  END IF;
+
+  DELETE FROM public.slides WHERE id = delete_slide.slide_id;
+
+  RETURN FOUND;
+END;
+$$;
+
+COMMENT ON FUNCTION public.delete_slide(UUID) IS 'Deletes a slide by ID. Runs with security definer privileges to bypass RLS, uploader or admin only.';
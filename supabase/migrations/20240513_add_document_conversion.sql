@@ -0,0 +1,33 @@
+-- PowerPoint and Word uploads are converted to PDF on the server (POST /api/content/process).
+-- file_path/file_url/file_type keep describing the uploaded original, which stays available
+-- for download; the converted PDF and its page thumbnails are stored alongside it.
+
+ALTER TABLE public.slides
+ADD COLUMN IF NOT EXISTS preview_path TEXT,
+ADD COLUMN IF NOT EXISTS preview_url TEXT,
+ADD COLUMN IF NOT EXISTS page_count INTEGER,
+-- Storage paths of one PNG per page of the preview, in page order
+ADD COLUMN IF NOT EXISTS page_thumbnails TEXT[] NOT NULL DEFAULT '{}',
+-- NULL when the original can be viewed as is (PDFs and images)
+ADD COLUMN IF NOT EXISTS conversion_status TEXT
+CHECK (conversion_status IN ('pending', 'processing', 'ready', 'failed')),
+ADD COLUMN IF NOT EXISTS conversion_error TEXT;
+
+-- The API writes previews and thumbnails with the service role, so storage records
+-- no owner for them. Let the slide's uploader delete them along with the original.
+DROP POLICY IF EXISTS "Instructors can delete content" ON storage.objects;
+CREATE POLICY "Instructors can delete content"
+ON storage.objects
+FOR DELETE
+USING (
+  bucket_id = 'content'
+  AND (
+    owner = auth.uid()
+    OR public.is_admin()
+    OR EXISTS (
+      SELECT 1 FROM public.slides s
+      WHERE s.uploaded_by = auth.uid()
+      AND (storage.objects.name = s.preview_path OR storage.objects.name = ANY (s.page_thumbnails))
+    )
+  )
+);
@@ -0,0 +1,34 @@
+-- First-page thumbnail shown on slide cards. Rendered by the API (POST /api/content/process)
+-- after upload and stored in the content bucket under thumbnails/<slide id>/.
+-- NULL for images, which are their own thumbnail, and for slides not processed yet.
+
+ALTER TABLE public.slides
+ADD COLUMN IF NOT EXISTS thumbnail_path TEXT;
+
+-- Converted documents already have a thumbnail of every page
+UPDATE public.slides
+SET thumbnail_path = page_thumbnails[1]
+WHERE thumbnail_path IS NULL AND cardinality(page_thumbnails) > 0;
+
+-- Thumbnails are written with the service role, like previews, so the uploader
+-- needs the same exception to delete them
+DROP POLICY IF EXISTS "Instructors can delete content" ON storage.objects;
+CREATE POLICY "Instructors can delete content"
+ON storage.objects
+FOR DELETE
+USING (
+  bucket_id = 'content'
+  AND (
+    owner = auth.uid()
+    OR public.is_admin()
+    OR EXISTS (
+      SELECT 1 FROM public.slides s
+      WHERE s.uploaded_by = auth.uid()
+      AND (
+        storage.objects.name = s.preview_path
+        OR storage.objects.name = s.thumbnail_path
+        OR storage.objects.name = ANY (s.page_thumbnails)
+      )
+    )
+  )
+);
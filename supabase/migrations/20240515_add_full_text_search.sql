@@ -0,0 +1,82 @@
+-- Full-text search over slide titles, descriptions and the text of every page.
+-- Page text is extracted by the API (POST /api/content/process) after upload.
+
+CREATE TABLE IF NOT EXISTS public.slide_pages (
+  slide_id UUID NOT NULL REFERENCES public.slides(id) ON DELETE CASCADE,
+  page_number INTEGER NOT NULL CHECK (page_number > 0),
+  content TEXT NOT NULL DEFAULT '',
+  search TSVECTOR GENERATED ALWAYS AS (to_tsvector('english', content)) STORED,
+  PRIMARY KEY (slide_id, page_number)
+);
+
+CREATE INDEX IF NOT EXISTS slide_pages_search_idx ON public.slide_pages USING GIN (search);
+
+ALTER TABLE public.slide_pages ENABLE ROW LEVEL SECURITY;
+
+-- Readable like the slides themselves; only the API (service role) writes pages
+DROP POLICY IF EXISTS "Authenticated users can view slide pages" ON public.slide_pages;
+CREATE POLICY "Authenticated users can view slide pages"
+ON public.slide_pages
+FOR SELECT
+USING (auth.role() = 'authenticated');
+
+-- Title matches rank above description matches
+ALTER TABLE public.slides
+ADD COLUMN IF NOT EXISTS search TSVECTOR GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+  setweight(to_tsvector('english', coalesce(description, '')), 'B')
+) STORED;
+
+CREATE INDEX IF NOT EXISTS slides_search_idx ON public.slides USING GIN (search);
+
+-- Slides matching a search, best first, with the best matching page and a snippet
+-- of it. Matches are wrapped in <mark></mark>; the text itself is not HTML-escaped.
+-- Titles also match on substrings, so partly typed words still find something.
+-- Runs as the caller, so RLS on slides and slide_pages applies.
+CREATE OR REPLACE FUNCTION public.search_slides(p_query TEXT)
+RETURNS TABLE (
+  slide_id UUID,
+  rank REAL,
+  page_number INTEGER,
+  snippet TEXT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH query AS (
+    SELECT websearch_to_tsquery('english', p_query) AS q
+  ),
+  best_pages AS (
+    SELECT DISTINCT ON (p.slide_id)
+      p.slide_id,
+      p.page_number,
+      p.content,
+      ts_rank(p.search, query.q) AS rank
+    FROM slide_pages p, query
+    WHERE p.search @@ query.q
+    ORDER BY p.slide_id, ts_rank(p.search, query.q) DESC, p.page_number
+  )
+  SELECT
+    s.id,
+    (ts_rank(s.search, query.q) * 2 + coalesce(bp.rank, 0))::REAL AS rank,
+    bp.page_number,
+    ts_headline(
+      'english',
+      coalesce(bp.content, concat_ws(' — ', s.title, s.description)),
+      query.q,
+      'StartSel=<mark>, StopSel=</mark>, MinWords=10, MaxWords=30, MaxFragments=2, FragmentDelimiter=" ... "'
+    )
+  FROM slides s
+  CROSS JOIN query
+  LEFT JOIN best_pages bp ON bp.slide_id = s.id
+  WHERE s.search @@ query.q
+  OR bp.slide_id IS NOT NULL
+  OR s.title ILIKE '%' || trim(p_query) || '%'
+  ORDER BY rank DESC, s.created_at DESC
+  LIMIT 100;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_slides(TEXT) TO authenticated;
+
+COMMENT ON FUNCTION public.search_slides(TEXT) IS 'Ranked full-text search over slide titles, descriptions and page text, with the best matching page and a highlighted snippet.';
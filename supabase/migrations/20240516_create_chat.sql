@@ -0,0 +1,52 @@
+-- Conversations with a slide deck, one per user and slide.
+-- Messages are written by the API (POST /api/chat), which answers from the
+-- slide's extracted text; users can read and clear their own conversations.
+
+CREATE TABLE IF NOT EXISTS public.chat_conversations (
+    id UUID PRIMARY KEY DEFAULT extensions.uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    slide_id UUID NOT NULL REFERENCES public.slides(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    UNIQUE (user_id, slide_id)
+);
+
+CREATE TABLE IF NOT EXISTS public.chat_messages (
+    id UUID PRIMARY KEY DEFAULT extensions.uuid_generate_v4(),
+    conversation_id UUID NOT NULL REFERENCES public.chat_conversations(id) ON DELETE CASCADE,
+    role TEXT NOT NULL CHECK (role IN ('user', 'assistant')),
+    content TEXT NOT NULL,
+    -- Pages an answer was grounded in: [{"page_number": 3, "excerpt": "..."}]
+    citations JSONB NOT NULL DEFAULT '[]'::jsonb,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT clock_timestamp()
+);
+
+CREATE INDEX IF NOT EXISTS chat_conversations_slide_id_idx ON public.chat_conversations(slide_id);
+CREATE INDEX IF NOT EXISTS chat_messages_conversation_id_idx ON public.chat_messages(conversation_id, created_at);
+
+ALTER TABLE public.chat_conversations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.chat_messages ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own conversations" ON public.chat_conversations;
+CREATE POLICY "Users can view their own conversations"
+ON public.chat_conversations
+FOR SELECT
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete their own conversations" ON public.chat_conversations;
+CREATE POLICY "Users can delete their own conversations"
+ON public.chat_conversations
+FOR DELETE
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can view their own chat messages" ON public.chat_messages;
+CREATE POLICY "Users can view their own chat messages"
+ON public.chat_messages
+FOR SELECT
+USING (
+    EXISTS (
+        SELECT 1 FROM public.chat_conversations c
+        WHERE c.id = chat_messages.conversation_id
+        AND c.user_id = auth.uid()
+    )
+);
@@ -0,0 +1,47 @@
+-- The schema is now applied by the migration runner (python -m api.migrations), which
+-- connects to the database directly. Remove the RPCs that let clients run arbitrary SQL.
+
+-- Applied migrations. The runner creates this before its first run; it is repeated here
+-- so databases migrated another way (e.g. supabase start) have the same schema.
+-- Only the service role (the API and the runner) can read or write it.
+CREATE TABLE IF NOT EXISTS public.schema_migrations (
+    version TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    checksum TEXT NOT NULL,
+    applied_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.schema_migrations ENABLE ROW LEVEL SECURITY;
+
+-- Used by the old "Create Database Tables" button on the admin page; dropped with every overload
+DO $$
+DECLARE
+  v_function REGPROCEDURE;
+BEGIN
+  FOR v_function IN
+    SELECT p.oid::regprocedure
+    FROM pg_proc p
+    JOIN pg_namespace n ON n.oid = p.pronamespace
+    WHERE n.nspname = 'public' AND p.proname IN ('run_sql_query', 'create_uuid_extension')
+  LOOP
+    EXECUTE format('DROP FUNCTION %s', v_function);
+  END LOOP;
+END
+$$;
+
+-- The scripts in lib/supabase still call exec_sql with the service role key;
+-- nobody else may
+DO $$
+DECLARE
+  v_function REGPROCEDURE;
+BEGIN
+  FOR v_function IN
+    SELECT p.oid::regprocedure
+    FROM pg_proc p
+    JOIN pg_namespace n ON n.oid = p.pronamespace
+    WHERE n.nspname = 'public' AND p.proname = 'exec_sql'
+  LOOP
+    EXECUTE format('REVOKE EXECUTE ON FUNCTION %s FROM PUBLIC, anon, authenticated', v_function);
+  END LOOP;
+END
+$$;
@@ -0,0 +1,249 @@
+-- Quiz authoring: instructors write quizzes as drafts and publish them when ready
+
+-- Existing quizzes were all visible, so they start out published; new ones start as drafts
+ALTER TABLE public.quizzes
+ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'published'
+CHECK (status IN ('draft', 'published'));
+
+ALTER TABLE public.quizzes ALTER COLUMN status SET DEFAULT 'draft';
+
+-- Students only see published quizzes; instructors see drafts too
+DROP POLICY IF EXISTS "Authenticated users can view quizzes" ON public.quizzes;
+CREATE POLICY "Authenticated users can view quizzes"
+ON public.quizzes
+FOR SELECT
+USING (status = 'published' OR public.is_instructor());
+
+DROP POLICY IF EXISTS "Authenticated users can view quiz questions" ON public.quiz_questions;
+CREATE POLICY "Authenticated users can view quiz questions"
+ON public.quiz_questions
+FOR SELECT
+USING (
+  public.is_instructor()
+  OR EXISTS (
+    SELECT 1 FROM public.quizzes q
+    WHERE q.id = quiz_id AND q.status = 'published'
+  )
+);
+
+-- Keep quizzes.question_count in step with the questions, however they are written
+CREATE OR REPLACE FUNCTION public.update_question_count()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER -- Counts every question, whatever the caller can see
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    UPDATE quizzes
+    SET question_count = (SELECT count(*) FROM quiz_questions WHERE quiz_id = NEW.quiz_id)
+    WHERE id = NEW.quiz_id;
+  END IF;
+
+  IF TG_OP = 'DELETE' OR (TG_OP = 'UPDATE' AND OLD.quiz_id IS DISTINCT FROM NEW.quiz_id) THEN
+    UPDATE quizzes
+    SET question_count = (SELECT count(*) FROM quiz_questions WHERE quiz_id = OLD.quiz_id)
+    WHERE id = OLD.quiz_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS update_question_count ON public.quiz_questions;
+CREATE TRIGGER update_question_count
+AFTER INSERT OR DELETE OR UPDATE OF quiz_id ON public.quiz_questions
+FOR EACH ROW
+EXECUTE FUNCTION public.update_question_count();
+
+UPDATE public.quizzes q
+SET question_count = (SELECT count(*) FROM public.quiz_questions WHERE quiz_id = q.id);
+
+-- A quiz with its questions and answer key, for the editor. Instructors only.
+CREATE OR REPLACE FUNCTION public.get_quiz_for_editing(p_quiz_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER -- Reads correct_answer, which callers cannot select
+SET search_path = public
+AS $$
+DECLARE
+  v_quiz JSONB;
+BEGIN
+  IF NOT is_instructor() THEN
+    RAISE EXCEPTION 'Only instructors can edit quizzes';
+  END IF;
+
+  SELECT to_jsonb(q) INTO v_quiz FROM quizzes q WHERE q.id = p_quiz_id;
+
+  IF v_quiz IS NULL THEN
+    RAISE EXCEPTION 'Quiz % not found', p_quiz_id;
+  END IF;
+
+  RETURN v_quiz || jsonb_build_object(
+    'questions',
+    coalesce((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'id', qq.id,
+          'question_text', qq.question_text,
+          'option_a', qq.option_a,
+          'option_b', qq.option_b,
+          'option_c', qq.option_c,
+          'option_d', qq.option_d,
+          'correct_answer', qq.correct_answer,
+          'explanation', qq.explanation
+        )
+        ORDER BY qq."order"
+      )
+      FROM quiz_questions qq
+      WHERE qq.quiz_id = p_quiz_id
+    ), '[]'::jsonb)
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_quiz_for_editing(UUID) TO authenticated;
+
+COMMENT ON FUNCTION public.get_quiz_for_editing(UUID) IS 'Returns a quiz with its questions and answer key for the quiz editor. Instructors only.';
+
+-- Create (no p_quiz_id) or update a quiz and replace its questions in one transaction.
+--   p_quiz:      { title, description, time_limit, status, course_id, slide_id }
+--   p_questions: [{ id?, question_text, option_a..option_d, correct_answer, explanation }]
+-- Questions are ordered as given. Existing questions keep their id, so submissions still
+-- refer to them; questions left out of p_questions are deleted.
+CREATE OR REPLACE FUNCTION public.save_quiz(p_quiz JSONB, p_questions JSONB, p_quiz_id UUID DEFAULT NULL)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER -- Writes correct_answer, which callers cannot select
+SET search_path = public
+AS $$
+DECLARE
+  v_quiz_id UUID := p_quiz_id;
+  v_title TEXT := trim(coalesce(p_quiz ->> 'title', ''));
+  v_status TEXT := coalesce(p_quiz ->> 'status', 'draft');
+  v_time_limit INTEGER := (p_quiz ->> 'time_limit')::INTEGER;
+  v_question JSONB;
+  v_position INTEGER;
+  v_kept UUID[] := '{}';
+  v_question_id UUID;
+BEGIN
+  IF NOT is_instructor() THEN
+    RAISE EXCEPTION 'Only instructors can edit quizzes';
+  END IF;
+
+  IF v_title = '' THEN
+    RAISE EXCEPTION 'A quiz needs a title';
+  END IF;
+
+  IF v_time_limit IS NULL OR v_time_limit < 1 THEN
+    RAISE EXCEPTION 'The time limit must be at least one minute';
+  END IF;
+
+  IF v_status NOT IN ('draft', 'published') THEN
+    RAISE EXCEPTION 'Unknown status %', v_status;
+  END IF;
+
+  IF jsonb_typeof(p_questions) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'Questions must be a list';
+  END IF;
+
+  IF v_status = 'published' AND jsonb_array_length(p_questions) = 0 THEN
+    RAISE EXCEPTION 'Add at least one question before publishing';
+  END IF;
+
+  IF v_quiz_id IS NULL THEN
+    INSERT INTO quizzes (title, description, time_limit, status, course_id, slide_id)
+    VALUES (
+      v_title,
+      nullif(trim(p_quiz ->> 'description'), ''),
+      v_time_limit,
+      v_status,
+      (p_quiz ->> 'course_id')::UUID,
+      (p_quiz ->> 'slide_id')::UUID
+    )
+    RETURNING id INTO v_quiz_id;
+  ELSE
+    UPDATE quizzes
+    SET
+      title = v_title,
+      description = nullif(trim(p_quiz ->> 'description'), ''),
+      time_limit = v_time_limit,
+      status = v_status,
+      course_id = (p_quiz ->> 'course_id')::UUID,
+      slide_id = (p_quiz ->> 'slide_id')::UUID,
+      updated_at = now()
+    WHERE id = v_quiz_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Quiz % not found', v_quiz_id;
+    END IF;
+  END IF;
+
+  FOR v_question, v_position IN
+    SELECT value, ordinality FROM jsonb_array_elements(p_questions) WITH ORDINALITY
+  LOOP
+    IF trim(coalesce(v_question ->> 'question_text', '')) = '' THEN
+      RAISE EXCEPTION 'Question % has no text', v_position;
+    END IF;
+
+    IF trim(coalesce(v_question ->> 'option_a', '')) = ''
+      OR trim(coalesce(v_question ->> 'option_b', '')) = ''
+      OR trim(coalesce(v_question ->> 'option_c', '')) = ''
+      OR trim(coalesce(v_question ->> 'option_d', '')) = '' THEN
+      RAISE EXCEPTION 'Question % needs all four options', v_position;
+    END IF;
+
+    IF lower(coalesce(v_question ->> 'correct_answer', '')) NOT IN ('a', 'b', 'c', 'd') THEN
+      RAISE EXCEPTION 'Question % has no correct answer', v_position;
+    END IF;
+
+    v_question_id := NULL;
+    IF v_question ? 'id' THEN
+      UPDATE quiz_questions
+      SET
+        question_text = trim(v_question ->> 'question_text'),
+        option_a = trim(v_question ->> 'option_a'),
+        option_b = trim(v_question ->> 'option_b'),
+        option_c = trim(v_question ->> 'option_c'),
+        option_d = trim(v_question ->> 'option_d'),
+        correct_answer = lower(v_question ->> 'correct_answer'),
+        explanation = nullif(trim(v_question ->> 'explanation'), ''),
+        "order" = v_position
+      WHERE id = (v_question ->> 'id')::UUID AND quiz_id = v_quiz_id
+      RETURNING id INTO v_question_id;
+    END IF;
+
+    -- New questions, and ids that don't belong to this quiz, are inserted
+    IF v_question_id IS NULL THEN
+      INSERT INTO quiz_questions (
+        quiz_id, question_text, option_a, option_b, option_c, option_d,
+        correct_answer, explanation, "order"
+      )
+      VALUES (
+        v_quiz_id,
+        trim(v_question ->> 'question_text'),
+        trim(v_question ->> 'option_a'),
+        trim(v_question ->> 'option_b'),
+        trim(v_question ->> 'option_c'),
+        trim(v_question ->> 'option_d'),
+        lower(v_question ->> 'correct_answer'),
+        nullif(trim(v_question ->> 'explanation'), ''),
+        v_position
+      )
+      RETURNING id INTO v_question_id;
+    END IF;
+
+    v_kept := v_kept || v_question_id;
+  END LOOP;
+
+  DELETE FROM quiz_questions
+  WHERE quiz_id = v_quiz_id AND NOT (id = ANY (v_kept));
+
+  RETURN v_quiz_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.save_quiz(JSONB, JSONB, UUID) TO authenticated;
+
+COMMENT ON FUNCTION public.save_quiz(JSONB, JSONB, UUID) IS 'Creates or updates a quiz and replaces its questions in order. Instructors only.';
@@ -0,0 +1,572 @@
+-- Question types beyond four-option multiple choice. Each question has a type, the
+-- content students see (options, items to order) and an answer key they never see:
+--
+--   type             content              answer_key                                answer
+--   multiple_choice  { options: [..] }    { correct: 0 }                            0
+--   true_false       {}                   { correct: true }                         true
+--   multi_select     { options: [..] }    { correct: [0, 2] }                       [2, 0]
+--   short_answer     {}                   { accepted: [..], case_sensitive: false } "text"
+--   numeric          {}                   { value: 9.81, tolerance: 0.01 }          9.8
+--   ordering         { items: [..] }      { order: [2, 0, 1] }                      [2, 0, 1]
+--
+-- Options and items are referred to by their index in content. Ordering items are stored
+-- shuffled, and answer_key.order lists their indexes in the correct order.
+
+ALTER TABLE public.quiz_questions
+ADD COLUMN IF NOT EXISTS type TEXT NOT NULL DEFAULT 'multiple_choice'
+CHECK (type IN ('multiple_choice', 'true_false', 'multi_select', 'short_answer', 'numeric', 'ordering')),
+ADD COLUMN IF NOT EXISTS content JSONB NOT NULL DEFAULT '{}'::jsonb,
+ADD COLUMN IF NOT EXISTS answer_key JSONB;
+
+-- Move the four options and the answer letter into the new columns
+UPDATE public.quiz_questions
+SET
+  content = jsonb_build_object('options', jsonb_build_array(option_a, option_b, option_c, option_d)),
+  answer_key = jsonb_build_object('correct', position(lower(correct_answer) IN 'abcd') - 1)
+WHERE answer_key IS NULL;
+
+ALTER TABLE public.quiz_questions ALTER COLUMN answer_key SET NOT NULL;
+
+-- Answers in past submissions were letters; they are now option indexes
+UPDATE public.quiz_submissions s
+SET answers = (
+  SELECT coalesce(jsonb_object_agg(
+    a.key,
+    CASE
+      WHEN jsonb_typeof(a.value) = 'string' AND lower(a.value #>> '{}') IN ('a', 'b', 'c', 'd')
+      THEN to_jsonb(position(lower(a.value #>> '{}') IN 'abcd') - 1)
+      ELSE a.value
+    END
+  ), '{}'::jsonb)
+  FROM jsonb_each(s.answers) a
+)
+WHERE jsonb_typeof(s.answers) = 'object';
+
+ALTER TABLE public.quiz_questions
+DROP COLUMN IF EXISTS option_a,
+DROP COLUMN IF EXISTS option_b,
+DROP COLUMN IF EXISTS option_c,
+DROP COLUMN IF EXISTS option_d,
+DROP COLUMN IF EXISTS correct_answer;
+
+-- Like correct_answer before it, answer_key is not selectable by clients
+GRANT SELECT (type, content) ON public.quiz_questions TO authenticated;
+
+-- Per-type graders. Each compares an answer with the answer key and is false for
+-- answers of the wrong shape, so a malformed submission is simply marked wrong.
+CREATE OR REPLACE FUNCTION public.grade_multiple_choice(p_answer_key JSONB, p_answer JSONB)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT jsonb_typeof(p_answer) = 'number' AND p_answer = p_answer_key -> 'correct';
+$$;
+
+CREATE OR REPLACE FUNCTION public.grade_true_false(p_answer_key JSONB, p_answer JSONB)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT jsonb_typeof(p_answer) = 'boolean' AND p_answer = p_answer_key -> 'correct';
+$$;
+
+-- Every correct option and nothing else, in any order
+CREATE OR REPLACE FUNCTION public.grade_multi_select(p_answer_key JSONB, p_answer JSONB)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN jsonb_typeof(p_answer) = 'array' THEN
+      (SELECT coalesce(array_agg(DISTINCT v ORDER BY v), '{}') FROM jsonb_array_elements_text(p_answer) v)
+      = (SELECT coalesce(array_agg(DISTINCT v ORDER BY v), '{}') FROM jsonb_array_elements_text(p_answer_key -> 'correct') v)
+    ELSE FALSE
+  END;
+$$;
+
+-- Matches any accepted variant, ignoring surrounding and repeated whitespace, and case
+-- unless the key says otherwise
+CREATE OR REPLACE FUNCTION public.grade_short_answer(p_answer_key JSONB, p_answer JSONB)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN jsonb_typeof(p_answer) = 'string' THEN EXISTS (
+      SELECT 1
+      FROM jsonb_array_elements_text(p_answer_key -> 'accepted') accepted
+      WHERE trim(accepted) <> ''
+      AND CASE
+        WHEN coalesce((p_answer_key ->> 'case_sensitive')::BOOLEAN, FALSE)
+        THEN regexp_replace(trim(accepted), '\s+', ' ', 'g') = regexp_replace(trim(p_answer #>> '{}'), '\s+', ' ', 'g')
+        ELSE lower(regexp_replace(trim(accepted), '\s+', ' ', 'g')) = lower(regexp_replace(trim(p_answer #>> '{}'), '\s+', ' ', 'g'))
+      END
+    )
+    ELSE FALSE
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.grade_numeric(p_answer_key JSONB, p_answer JSONB)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN jsonb_typeof(p_answer) = 'number' THEN
+      abs((p_answer #>> '{}')::NUMERIC - (p_answer_key ->> 'value')::NUMERIC)
+      <= coalesce((p_answer_key ->> 'tolerance')::NUMERIC, 0)
+    ELSE FALSE
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.grade_ordering(p_answer_key JSONB, p_answer JSONB)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT jsonb_typeof(p_answer) = 'array' AND p_answer = p_answer_key -> 'order';
+$$;
+
+CREATE OR REPLACE FUNCTION public.grade_answer(p_type TEXT, p_answer_key JSONB, p_answer JSONB)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT coalesce(CASE p_type
+    WHEN 'multiple_choice' THEN public.grade_multiple_choice(p_answer_key, p_answer)
+    WHEN 'true_false' THEN public.grade_true_false(p_answer_key, p_answer)
+    WHEN 'multi_select' THEN public.grade_multi_select(p_answer_key, p_answer)
+    WHEN 'short_answer' THEN public.grade_short_answer(p_answer_key, p_answer)
+    WHEN 'numeric' THEN public.grade_numeric(p_answer_key, p_answer)
+    WHEN 'ordering' THEN public.grade_ordering(p_answer_key, p_answer)
+  END, FALSE);
+$$;
+
+COMMENT ON FUNCTION public.grade_answer(TEXT, JSONB, JSONB) IS 'Grades one answer with the grader for the question type. Missing and malformed answers are wrong.';
+
+-- Why a question can't be saved, or NULL when it's valid. Mirrors questionError() in the editor.
+CREATE OR REPLACE FUNCTION public.question_error(p_type TEXT, p_content JSONB, p_answer_key JSONB)
+RETURNS TEXT
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_list JSONB := CASE WHEN p_type = 'ordering' THEN p_content -> 'items' ELSE p_content -> 'options' END;
+  v_count INTEGER;
+  v_correct JSONB := p_answer_key -> 'correct';
+BEGIN
+  IF p_type IN ('multiple_choice', 'multi_select', 'ordering') THEN
+    IF jsonb_typeof(v_list) IS DISTINCT FROM 'array' OR jsonb_array_length(v_list) < 2 THEN
+      RETURN CASE WHEN p_type = 'ordering' THEN 'needs at least two items' ELSE 'needs at least two options' END;
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM jsonb_array_elements(v_list) o
+      WHERE jsonb_typeof(o) <> 'string' OR trim(o #>> '{}') = ''
+    ) THEN
+      RETURN CASE WHEN p_type = 'ordering' THEN 'has an empty item' ELSE 'has an empty option' END;
+    END IF;
+
+    v_count := jsonb_array_length(v_list);
+  END IF;
+
+  CASE p_type
+    WHEN 'multiple_choice' THEN
+      IF jsonb_typeof(v_correct) IS DISTINCT FROM 'number'
+        OR (v_correct #>> '{}')::NUMERIC NOT IN (SELECT generate_series(0, v_count - 1)) THEN
+        RETURN 'has no correct answer';
+      END IF;
+
+    WHEN 'true_false' THEN
+      IF jsonb_typeof(v_correct) IS DISTINCT FROM 'boolean' THEN
+        RETURN 'has no correct answer';
+      END IF;
+
+    WHEN 'multi_select' THEN
+      IF jsonb_typeof(v_correct) IS DISTINCT FROM 'array' OR jsonb_array_length(v_correct) = 0 THEN
+        RETURN 'has no correct answers';
+      END IF;
+
+      IF EXISTS (
+        SELECT 1 FROM jsonb_array_elements(v_correct) c
+        WHERE jsonb_typeof(c) <> 'number'
+        OR (c #>> '{}')::NUMERIC NOT IN (SELECT generate_series(0, v_count - 1))
+      ) THEN
+        RETURN 'has a correct answer that is not one of its options';
+      END IF;
+
+    WHEN 'short_answer' THEN
+      IF jsonb_typeof(p_answer_key -> 'accepted') IS DISTINCT FROM 'array' OR NOT EXISTS (
+        SELECT 1 FROM jsonb_array_elements(p_answer_key -> 'accepted') a
+        WHERE jsonb_typeof(a) = 'string' AND trim(a #>> '{}') <> ''
+      ) THEN
+        RETURN 'needs at least one accepted answer';
+      END IF;
+
+    WHEN 'numeric' THEN
+      IF jsonb_typeof(p_answer_key -> 'value') IS DISTINCT FROM 'number' THEN
+        RETURN 'has no correct value';
+      END IF;
+
+      IF p_answer_key ? 'tolerance' AND (
+        jsonb_typeof(p_answer_key -> 'tolerance') <> 'number' OR (p_answer_key ->> 'tolerance')::NUMERIC < 0
+      ) THEN
+        RETURN 'has a negative tolerance';
+      END IF;
+
+    WHEN 'ordering' THEN
+      -- The order must use every item exactly once
+      IF jsonb_typeof(p_answer_key -> 'order') IS DISTINCT FROM 'array'
+        OR (
+          SELECT coalesce(array_agg(o ORDER BY o), '{}')
+          FROM jsonb_array_elements_text(p_answer_key -> 'order') o
+        ) IS DISTINCT FROM (
+          SELECT array_agg(i::TEXT ORDER BY i::TEXT) FROM generate_series(0, v_count - 1) i
+        ) THEN
+        RETURN 'has no correct order';
+      END IF;
+
+    ELSE
+      RETURN format('has an unknown type %s', p_type);
+  END CASE;
+
+  RETURN NULL;
+END;
+$$;
+
+-- The items of an ordering question in their correct order
+CREATE OR REPLACE FUNCTION public.ordering_sequence(p_content JSONB, p_answer_key JSONB)
+RETURNS JSONB
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT coalesce(jsonb_agg(p_content -> 'items' -> (o.idx::INTEGER) ORDER BY o.pos), '[]'::jsonb)
+  FROM jsonb_array_elements_text(p_answer_key -> 'order') WITH ORDINALITY AS o(idx, pos);
+$$;
+
+-- Grade each answer with the grader for its question's type
+CREATE OR REPLACE FUNCTION public.submit_quiz(
+  p_quiz_id UUID,
+  p_answers JSONB,
+  p_time_taken INTEGER,
+  p_question_ids UUID[] DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER -- Needs to read answer_key, which callers cannot select
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_time_limit INTEGER;
+  v_total INTEGER;
+  v_correct INTEGER;
+  v_score INTEGER;
+  v_submission_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to submit a quiz';
+  END IF;
+
+  SELECT time_limit INTO v_time_limit FROM quizzes WHERE id = p_quiz_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quiz % does not exist', p_quiz_id;
+  END IF;
+
+  SELECT
+    count(*),
+    count(*) FILTER (WHERE grade_answer(q.type, q.answer_key, p_answers -> q.id::text))
+  INTO v_total, v_correct
+  FROM quiz_questions q
+  WHERE q.quiz_id = p_quiz_id
+  AND (p_question_ids IS NULL OR q.id = ANY (p_question_ids));
+
+  IF v_total = 0 THEN
+    RAISE EXCEPTION 'Quiz % has no questions', p_quiz_id;
+  END IF;
+
+  v_score := round(v_correct * 100.0 / v_total);
+
+  INSERT INTO quiz_submissions (
+    user_id, quiz_id, score, time_taken, answers, correct_count, total_questions, question_ids
+  )
+  VALUES (
+    v_user_id,
+    p_quiz_id,
+    v_score,
+    -- The client reports elapsed time, but it can never exceed the quiz's limit
+    greatest(0, least(coalesce(p_time_taken, 0), v_time_limit * 60)),
+    coalesce(p_answers, '{}'::jsonb),
+    v_correct,
+    v_total,
+    p_question_ids
+  )
+  RETURNING id INTO v_submission_id;
+
+  RETURN jsonb_build_object(
+    'submission_id', v_submission_id,
+    'score', v_score,
+    'correct', v_correct,
+    'total', v_total
+  );
+END;
+$$;
+
+-- The review now returns each question's type, content and answer key instead of four options
+DROP FUNCTION IF EXISTS public.get_submission_review(UUID);
+
+CREATE OR REPLACE FUNCTION public.get_submission_review(p_submission_id UUID)
+RETURNS TABLE (
+  question_id UUID,
+  question_text TEXT,
+  type TEXT,
+  content JSONB,
+  selected_answer JSONB,
+  answer_key JSONB,
+  is_correct BOOLEAN,
+  explanation TEXT,
+  "order" INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER -- The answer key is only revealed for the caller's own submissions
+SET search_path = public
+AS $$
+DECLARE
+  v_submission quiz_submissions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_submission
+  FROM quiz_submissions
+  WHERE id = p_submission_id AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Submission % not found', p_submission_id;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    q.id,
+    q.question_text,
+    q.type,
+    q.content,
+    v_submission.answers -> q.id::text,
+    q.answer_key,
+    grade_answer(q.type, q.answer_key, v_submission.answers -> q.id::text),
+    q.explanation,
+    q."order"
+  FROM quiz_questions q
+  WHERE q.quiz_id = v_submission.quiz_id
+  AND (v_submission.question_ids IS NULL OR q.id = ANY (v_submission.question_ids))
+  ORDER BY q."order";
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_submission_review(UUID) TO authenticated;
+
+COMMENT ON FUNCTION public.get_submission_review(UUID) IS 'Returns each question of a submission owned by the caller with the given answer and the answer key.';
+
+CREATE OR REPLACE FUNCTION public.get_quiz_for_editing(p_quiz_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER -- Reads answer_key, which callers cannot select
+SET search_path = public
+AS $$
+DECLARE
+  v_quiz JSONB;
+BEGIN
+  IF NOT is_instructor() THEN
+    RAISE EXCEPTION 'Only instructors can edit quizzes';
+  END IF;
+
+  SELECT to_jsonb(q) INTO v_quiz FROM quizzes q WHERE q.id = p_quiz_id;
+
+  IF v_quiz IS NULL THEN
+    RAISE EXCEPTION 'Quiz % not found', p_quiz_id;
+  END IF;
+
+  RETURN v_quiz || jsonb_build_object(
+    'questions',
+    coalesce((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'id', qq.id,
+          'type', qq.type,
+          'question_text', qq.question_text,
+          'content', qq.content,
+          'answer_key', qq.answer_key,
+          'explanation', qq.explanation
+        )
+        ORDER BY qq."order"
+      )
+      FROM quiz_questions qq
+      WHERE qq.quiz_id = p_quiz_id
+    ), '[]'::jsonb)
+  );
+END;
+$$;
+
+-- Create (no p_quiz_id) or update a quiz and replace its questions in one transaction.
+--   p_quiz:      { title, description, time_limit, status, course_id, slide_id }
+--   p_questions: [{ id?, type, question_text, content, answer_key, explanation }]
+-- Questions are ordered as given. Existing questions keep their id, so submissions still
+-- refer to them; questions left out of p_questions are deleted.
+CREATE OR REPLACE FUNCTION public.save_quiz(p_quiz JSONB, p_questions JSONB, p_quiz_id UUID DEFAULT NULL)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER -- Writes answer_key, which callers cannot select
+SET search_path = public
+AS $$
+DECLARE
+  v_quiz_id UUID := p_quiz_id;
+  v_title TEXT := trim(coalesce(p_quiz ->> 'title', ''));
+  v_status TEXT := coalesce(p_quiz ->> 'status', 'draft');
+  v_time_limit INTEGER := (p_quiz ->> 'time_limit')::INTEGER;
+  v_question JSONB;
+  v_position INTEGER;
+  v_type TEXT;
+  v_content JSONB;
+  v_answer_key JSONB;
+  v_existing quiz_questions%ROWTYPE;
+  v_error TEXT;
+  v_kept UUID[] := '{}';
+  v_question_id UUID;
+BEGIN
+  IF NOT is_instructor() THEN
+    RAISE EXCEPTION 'Only instructors can edit quizzes';
+  END IF;
+
+  IF v_title = '' THEN
+    RAISE EXCEPTION 'A quiz needs a title';
+  END IF;
+
+  IF v_time_limit IS NULL OR v_time_limit < 1 THEN
+    RAISE EXCEPTION 'The time limit must be at least one minute';
+  END IF;
+
+  IF v_status NOT IN ('draft', 'published') THEN
+    RAISE EXCEPTION 'Unknown status %', v_status;
+  END IF;
+
+  IF jsonb_typeof(p_questions) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'Questions must be a list';
+  END IF;
+
+  IF v_status = 'published' AND jsonb_array_length(p_questions) = 0 THEN
+    RAISE EXCEPTION 'Add at least one question before publishing';
+  END IF;
+
+  IF v_quiz_id IS NULL THEN
+    INSERT INTO quizzes (title, description, time_limit, status, course_id, slide_id)
+    VALUES (
+      v_title,
+      nullif(trim(p_quiz ->> 'description'), ''),
+      v_time_limit,
+      v_status,
+      (p_quiz ->> 'course_id')::UUID,
+      (p_quiz ->> 'slide_id')::UUID
+    )
+    RETURNING id INTO v_quiz_id;
+  ELSE
+    UPDATE quizzes
+    SET
+      title = v_title,
+      description = nullif(trim(p_quiz ->> 'description'), ''),
+      time_limit = v_time_limit,
+      status = v_status,
+      course_id = (p_quiz ->> 'course_id')::UUID,
+      slide_id = (p_quiz ->> 'slide_id')::UUID,
+      updated_at = now()
+    WHERE id = v_quiz_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Quiz % not found', v_quiz_id;
+    END IF;
+  END IF;
+
+  FOR v_question, v_position IN
+    SELECT value, ordinality FROM jsonb_array_elements(p_questions) WITH ORDINALITY
+  LOOP
+    v_type := coalesce(v_question ->> 'type', 'multiple_choice');
+    v_content := coalesce(v_question -> 'content', '{}'::jsonb);
+    v_answer_key := coalesce(v_question -> 'answer_key', '{}'::jsonb);
+
+    IF trim(coalesce(v_question ->> 'question_text', '')) = '' THEN
+      RAISE EXCEPTION 'Question % has no text', v_position;
+    END IF;
+
+    v_error := question_error(v_type, v_content, v_answer_key);
+    IF v_error IS NOT NULL THEN
+      RAISE EXCEPTION 'Question % %', v_position, v_error;
+    END IF;
+
+    v_existing := NULL;
+    IF v_question ? 'id' THEN
+      SELECT * INTO v_existing
+      FROM quiz_questions
+      WHERE id = (v_question ->> 'id')::UUID AND quiz_id = v_quiz_id;
+    END IF;
+
+    -- Ordering items are stored shuffled so the order students see doesn't give the
+    -- answer away. Unchanged items keep their stored order, so past answers still match.
+    IF v_type = 'ordering' THEN
+      IF v_existing.type = 'ordering'
+        AND ordering_sequence(v_existing.content, v_existing.answer_key) = ordering_sequence(v_content, v_answer_key) THEN
+        v_content := v_existing.content;
+        v_answer_key := v_existing.answer_key;
+      ELSE
+        WITH correct AS (
+          SELECT o.pos, v_content -> 'items' -> (o.idx::INTEGER) AS item
+          FROM jsonb_array_elements_text(v_answer_key -> 'order') WITH ORDINALITY AS o(idx, pos)
+        ),
+        shuffled AS (
+          SELECT pos, item, row_number() OVER (ORDER BY random()) - 1 AS display_index
+          FROM correct
+        )
+        SELECT
+          jsonb_build_object('items', jsonb_agg(item ORDER BY display_index)),
+          jsonb_build_object('order', jsonb_agg(display_index ORDER BY pos))
+        INTO v_content, v_answer_key
+        FROM shuffled;
+      END IF;
+    END IF;
+
+    v_question_id := NULL;
+    IF v_existing.id IS NOT NULL THEN
+      UPDATE quiz_questions
+      SET
+        type = v_type,
+        question_text = trim(v_question ->> 'question_text'),
+        content = v_content,
+        answer_key = v_answer_key,
+        explanation = nullif(trim(v_question ->> 'explanation'), ''),
+        "order" = v_position
+      WHERE id = v_existing.id
+      RETURNING id INTO v_question_id;
+    END IF;
+
+    -- New questions, and ids that don't belong to this quiz, are inserted
+    IF v_question_id IS NULL THEN
+      INSERT INTO quiz_questions (quiz_id, type, question_text, content, answer_key, explanation, "order")
+      VALUES (
+        v_quiz_id,
+        v_type,
+        trim(v_question ->> 'question_text'),
+        v_content,
+        v_answer_key,
+        nullif(trim(v_question ->> 'explanation'), ''),
+        v_position
+      )
+      RETURNING id INTO v_question_id;
+    END IF;
+
+    v_kept := v_kept || v_question_id;
+  END LOOP;
+
+  DELETE FROM quiz_questions
+  WHERE quiz_id = v_quiz_id AND NOT (id = ANY (v_kept));
+
+  RETURN v_quiz_id;
+END;
+$$;
@@ -0,0 +1,246 @@
+-- Resumable quiz attempts. Starting a quiz creates an attempt with a deadline fixed by the
+-- server; answers are autosaved to it, so a reload or crash resumes where the student left
+-- off with the same time remaining. Submitting grades the attempt's answers.
+
+CREATE TABLE IF NOT EXISTS public.quiz_attempts (
+    id UUID PRIMARY KEY DEFAULT extensions.uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    quiz_id UUID NOT NULL REFERENCES public.quizzes(id) ON DELETE CASCADE,
+    -- The questions asked; NULL means every question in the quiz
+    question_ids UUID[],
+    answers JSONB NOT NULL DEFAULT '{}'::jsonb,
+    current_question INTEGER NOT NULL DEFAULT 0,
+    started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    deadline TIMESTAMP WITH TIME ZONE NOT NULL,
+    submitted_at TIMESTAMP WITH TIME ZONE,
+    submission_id UUID REFERENCES public.quiz_submissions(id) ON DELETE SET NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+-- A student has at most one attempt in progress per quiz
+CREATE UNIQUE INDEX IF NOT EXISTS quiz_attempts_in_progress_idx
+ON public.quiz_attempts(user_id, quiz_id)
+WHERE submitted_at IS NULL;
+
+ALTER TABLE public.quiz_attempts ENABLE ROW LEVEL SECURITY;
+
+-- Attempts are written only by the functions below
+DROP POLICY IF EXISTS "Users can view their own attempts" ON public.quiz_attempts;
+CREATE POLICY "Users can view their own attempts"
+ON public.quiz_attempts
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- The attempt as the quiz page needs it, with the seconds left computed by the server
+CREATE OR REPLACE FUNCTION public.attempt_state(p_attempt_id UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT jsonb_build_object(
+    'id', a.id,
+    'quiz_id', a.quiz_id,
+    'question_ids', to_jsonb(a.question_ids),
+    'answers', a.answers,
+    'current_question', a.current_question,
+    'started_at', a.started_at,
+    'deadline', a.deadline,
+    'seconds_left', greatest(0, ceil(extract(EPOCH FROM a.deadline - now())))::INTEGER
+  )
+  FROM public.quiz_attempts a
+  WHERE a.id = p_attempt_id;
+$$;
+
+-- Resume the caller's attempt at a quiz, or start one. p_question_ids limits a new attempt
+-- to some of the questions, e.g. when retrying missed ones; an attempt in progress is
+-- resumed as it was started.
+CREATE OR REPLACE FUNCTION public.start_quiz_attempt(p_quiz_id UUID, p_question_ids UUID[] DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_time_limit INTEGER;
+  v_attempt quiz_attempts%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to take a quiz';
+  END IF;
+
+  -- Drafts can only be tried out by instructors
+  SELECT time_limit INTO v_time_limit
+  FROM quizzes
+  WHERE id = p_quiz_id AND (status = 'published' OR is_instructor());
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quiz % does not exist', p_quiz_id;
+  END IF;
+
+  SELECT * INTO v_attempt
+  FROM quiz_attempts
+  WHERE user_id = v_user_id AND quiz_id = p_quiz_id AND submitted_at IS NULL;
+
+  IF NOT FOUND THEN
+    INSERT INTO quiz_attempts (user_id, quiz_id, question_ids, deadline)
+    VALUES (v_user_id, p_quiz_id, p_question_ids, now() + make_interval(mins => v_time_limit))
+    RETURNING * INTO v_attempt;
+  END IF;
+
+  RETURN attempt_state(v_attempt.id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.start_quiz_attempt(UUID, UUID[]) TO authenticated;
+
+COMMENT ON FUNCTION public.start_quiz_attempt(UUID, UUID[]) IS 'Resumes the caller''s in-progress attempt at a quiz, or starts one with a deadline from the quiz''s time limit.';
+
+-- Autosave the answers and position of one of the caller's attempts
+CREATE OR REPLACE FUNCTION public.save_quiz_attempt(
+  p_attempt_id UUID,
+  p_answers JSONB,
+  p_current_question INTEGER
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_attempt quiz_attempts%ROWTYPE;
+BEGIN
+  SELECT * INTO v_attempt
+  FROM quiz_attempts
+  WHERE id = p_attempt_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Attempt % not found', p_attempt_id;
+  END IF;
+
+  IF v_attempt.submitted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This attempt has already been submitted';
+  END IF;
+
+  -- A few seconds' grace for a save that was in flight when the timer ran out
+  IF now() > v_attempt.deadline + INTERVAL '10 seconds' THEN
+    RAISE EXCEPTION 'Time is up for this attempt';
+  END IF;
+
+  IF jsonb_typeof(p_answers) IS DISTINCT FROM 'object' THEN
+    RAISE EXCEPTION 'Answers must be an object keyed by question id';
+  END IF;
+
+  UPDATE quiz_attempts
+  SET
+    answers = p_answers,
+    current_question = greatest(0, coalesce(p_current_question, current_question)),
+    updated_at = now()
+  WHERE id = p_attempt_id;
+
+  RETURN TRUE;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.save_quiz_attempt(UUID, JSONB, INTEGER) TO authenticated;
+
+COMMENT ON FUNCTION public.save_quiz_attempt(UUID, JSONB, INTEGER) IS 'Autosaves the answers of the caller''s attempt while it is in progress.';
+
+-- Grade one of the caller's attempts and record the submission. p_answers, when given and
+-- in time, replaces the saved answers; after the deadline the saved answers are graded.
+-- Time taken is measured by the server from the attempt's start.
+CREATE OR REPLACE FUNCTION public.submit_quiz_attempt(p_attempt_id UUID, p_answers JSONB DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER -- Needs to read answer_key, which callers cannot select
+SET search_path = public
+AS $$
+DECLARE
+  v_attempt quiz_attempts%ROWTYPE;
+  v_total INTEGER;
+  v_correct INTEGER;
+  v_score INTEGER;
+  v_submission_id UUID;
+BEGIN
+  SELECT * INTO v_attempt
+  FROM quiz_attempts
+  WHERE id = p_attempt_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Attempt % not found', p_attempt_id;
+  END IF;
+
+  -- Submitting twice (e.g. the timer and the button at once) returns the first result
+  IF v_attempt.submitted_at IS NOT NULL THEN
+    RETURN (
+      SELECT jsonb_build_object(
+        'submission_id', s.id,
+        'score', s.score,
+        'correct', s.correct_count,
+        'total', s.total_questions
+      )
+      FROM quiz_submissions s
+      WHERE s.id = v_attempt.submission_id
+    );
+  END IF;
+
+  -- With the same grace as save_quiz_attempt
+  IF p_answers IS NOT NULL AND jsonb_typeof(p_answers) = 'object'
+    AND now() <= v_attempt.deadline + INTERVAL '10 seconds' THEN
+    v_attempt.answers := p_answers;
+  END IF;
+
+  SELECT
+    count(*),
+    count(*) FILTER (WHERE grade_answer(q.type, q.answer_key, v_attempt.answers -> q.id::text))
+  INTO v_total, v_correct
+  FROM quiz_questions q
+  WHERE q.quiz_id = v_attempt.quiz_id
+  AND (v_attempt.question_ids IS NULL OR q.id = ANY (v_attempt.question_ids));
+
+  IF v_total = 0 THEN
+    RAISE EXCEPTION 'Quiz % has no questions', v_attempt.quiz_id;
+  END IF;
+
+  v_score := round(v_correct * 100.0 / v_total);
+
+  INSERT INTO quiz_submissions (
+    user_id, quiz_id, score, time_taken, answers, correct_count, total_questions, question_ids
+  )
+  VALUES (
+    v_attempt.user_id,
+    v_attempt.quiz_id,
+    v_score,
+    greatest(0, extract(EPOCH FROM least(now(), v_attempt.deadline) - v_attempt.started_at))::INTEGER,
+    v_attempt.answers,
+    v_correct,
+    v_total,
+    v_attempt.question_ids
+  )
+  RETURNING id INTO v_submission_id;
+
+  UPDATE quiz_attempts
+  SET
+    answers = v_attempt.answers,
+    submitted_at = now(),
+    submission_id = v_submission_id,
+    updated_at = now()
+  WHERE id = p_attempt_id;
+
+  RETURN jsonb_build_object(
+    'submission_id', v_submission_id,
+    'score', v_score,
+    'correct', v_correct,
+    'total', v_total
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.submit_quiz_attempt(UUID, JSONB) TO authenticated;
+
+COMMENT ON FUNCTION public.submit_quiz_attempt(UUID, JSONB) IS 'Grades the caller''s attempt and records the submission, timed by the server from the attempt''s start.';
+
+-- Submissions now go through an attempt, so the browser can no longer report its own time
+DROP FUNCTION IF EXISTS public.submit_quiz(UUID, JSONB, INTEGER, UUID[]);
@@ -0,0 +1,317 @@
+-- Per-quiz shuffling. A quiz can ask its questions in a random order, show the options of
+-- each question in a random order, and ask a random subset of its questions. Each attempt
+-- gets its own seed, and everything random about the attempt is derived from it, so a
+-- resumed attempt and its review show the same layout the student saw.
+--
+-- Answers are always recorded against the stored option and item indexes, whatever order
+-- they were shown in, so grading doesn't depend on the layout.
+
+ALTER TABLE public.quizzes
+ADD COLUMN IF NOT EXISTS shuffle_questions BOOLEAN NOT NULL DEFAULT FALSE,
+ADD COLUMN IF NOT EXISTS shuffle_options BOOLEAN NOT NULL DEFAULT FALSE,
+-- NULL asks every question
+ADD COLUMN IF NOT EXISTS questions_per_attempt INTEGER CHECK (questions_per_attempt > 0);
+
+-- Settings are copied from the quiz when the attempt starts, so editing the quiz doesn't
+-- rearrange attempts in progress or ones already reviewed
+ALTER TABLE public.quiz_attempts
+ADD COLUMN IF NOT EXISTS seed INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS shuffle_questions BOOLEAN NOT NULL DEFAULT FALSE,
+ADD COLUMN IF NOT EXISTS shuffle_options BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- A sort key that is random-looking but fixed for a seed and value
+CREATE OR REPLACE FUNCTION public.shuffle_rank(p_seed INTEGER, p_value TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT md5(p_seed::TEXT || ':' || p_value);
+$$;
+
+-- Adds the attempt's layout to its state:
+--   question_order: the attempt's question ids in the order they are asked
+--   option_orders:  { question id: [stored option or item indexes in the order shown] },
+--                   for questions whose options are shuffled
+CREATE OR REPLACE FUNCTION public.attempt_state(p_attempt_id UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT jsonb_build_object(
+    'id', a.id,
+    'quiz_id', a.quiz_id,
+    'question_ids', to_jsonb(a.question_ids),
+    'answers', a.answers,
+    'current_question', a.current_question,
+    'started_at', a.started_at,
+    'deadline', a.deadline,
+    'seconds_left', greatest(0, ceil(extract(EPOCH FROM a.deadline - now())))::INTEGER,
+    'question_order', coalesce((
+      SELECT jsonb_agg(
+        q.id
+        ORDER BY CASE WHEN a.shuffle_questions THEN public.shuffle_rank(a.seed, q.id::TEXT) END, q."order"
+      )
+      FROM public.quiz_questions q
+      WHERE q.quiz_id = a.quiz_id
+      AND (a.question_ids IS NULL OR q.id = ANY (a.question_ids))
+    ), '[]'::jsonb),
+    'option_orders', coalesce((
+      SELECT jsonb_object_agg(
+        q.id,
+        (
+          SELECT coalesce(jsonb_agg(i ORDER BY public.shuffle_rank(a.seed, q.id::TEXT || ':' || i)), '[]'::jsonb)
+          FROM generate_series(0, jsonb_array_length(coalesce(q.content -> 'options', q.content -> 'items')) - 1) AS i
+        )
+      )
+      FROM public.quiz_questions q
+      WHERE a.shuffle_options
+      AND q.quiz_id = a.quiz_id
+      AND q.type IN ('multiple_choice', 'multi_select', 'ordering')
+      AND (a.question_ids IS NULL OR q.id = ANY (a.question_ids))
+    ), '{}'::jsonb)
+  )
+  FROM public.quiz_attempts a
+  WHERE a.id = p_attempt_id;
+$$;
+
+-- A new attempt takes the quiz's shuffle settings and a fresh seed, and draws its questions
+-- when the quiz asks only some of them. Retries (p_question_ids) ask exactly the questions given.
+CREATE OR REPLACE FUNCTION public.start_quiz_attempt(p_quiz_id UUID, p_question_ids UUID[] DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_quiz quizzes%ROWTYPE;
+  v_seed INTEGER := floor(random() * 2147483647)::INTEGER;
+  v_question_ids UUID[] := p_question_ids;
+  v_attempt quiz_attempts%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to take a quiz';
+  END IF;
+
+  -- Drafts can only be tried out by instructors
+  SELECT * INTO v_quiz
+  FROM quizzes
+  WHERE id = p_quiz_id AND (status = 'published' OR is_instructor());
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quiz % does not exist', p_quiz_id;
+  END IF;
+
+  SELECT * INTO v_attempt
+  FROM quiz_attempts
+  WHERE user_id = v_user_id AND quiz_id = p_quiz_id AND submitted_at IS NULL;
+
+  IF NOT FOUND THEN
+    IF v_question_ids IS NULL AND v_quiz.questions_per_attempt IS NOT NULL THEN
+      SELECT array_agg(drawn.id) INTO v_question_ids
+      FROM (
+        SELECT id
+        FROM quiz_questions
+        WHERE quiz_id = p_quiz_id
+        ORDER BY shuffle_rank(v_seed, 'draw:' || id::TEXT)
+        LIMIT v_quiz.questions_per_attempt
+      ) AS drawn;
+    END IF;
+
+    INSERT INTO quiz_attempts (
+      user_id, quiz_id, question_ids, deadline, seed, shuffle_questions, shuffle_options
+    )
+    VALUES (
+      v_user_id,
+      p_quiz_id,
+      v_question_ids,
+      now() + make_interval(mins => v_quiz.time_limit),
+      v_seed,
+      v_quiz.shuffle_questions,
+      v_quiz.shuffle_options
+    )
+    RETURNING * INTO v_attempt;
+  END IF;
+
+  RETURN attempt_state(v_attempt.id);
+END;
+$$;
+
+-- Create (no p_quiz_id) or update a quiz and replace its questions in one transaction.
+--   p_quiz:      { title, description, time_limit, status, shuffle_questions, shuffle_options,
+--                  questions_per_attempt, course_id, slide_id }
+--   p_questions: [{ id?, type, question_text, content, answer_key, explanation }]
+-- Questions are ordered as given. Existing questions keep their id, so submissions still
+-- refer to them; questions left out of p_questions are deleted.
+CREATE OR REPLACE FUNCTION public.save_quiz(p_quiz JSONB, p_questions JSONB, p_quiz_id UUID DEFAULT NULL)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER -- Writes answer_key, which callers cannot select
+SET search_path = public
+AS $$
+DECLARE
+  v_quiz_id UUID := p_quiz_id;
+  v_title TEXT := trim(coalesce(p_quiz ->> 'title', ''));
+  v_status TEXT := coalesce(p_quiz ->> 'status', 'draft');
+  v_time_limit INTEGER := (p_quiz ->> 'time_limit')::INTEGER;
+  v_per_attempt INTEGER := (p_quiz ->> 'questions_per_attempt')::INTEGER;
+  v_question JSONB;
+  v_position INTEGER;
+  v_type TEXT;
+  v_content JSONB;
+  v_answer_key JSONB;
+  v_existing quiz_questions%ROWTYPE;
+  v_error TEXT;
+  v_kept UUID[] := '{}';
+  v_question_id UUID;
+BEGIN
+  IF NOT is_instructor() THEN
+    RAISE EXCEPTION 'Only instructors can edit quizzes';
+  END IF;
+
+  IF v_title = '' THEN
+    RAISE EXCEPTION 'A quiz needs a title';
+  END IF;
+
+  IF v_time_limit IS NULL OR v_time_limit < 1 THEN
+    RAISE EXCEPTION 'The time limit must be at least one minute';
+  END IF;
+
+  IF v_per_attempt IS NOT NULL AND v_per_attempt < 1 THEN
+    RAISE EXCEPTION 'Each attempt must ask at least one question';
+  END IF;
+
+  IF v_status NOT IN ('draft', 'published') THEN
+    RAISE EXCEPTION 'Unknown status %', v_status;
+  END IF;
+
+  IF jsonb_typeof(p_questions) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'Questions must be a list';
+  END IF;
+
+  IF v_status = 'published' AND jsonb_array_length(p_questions) = 0 THEN
+    RAISE EXCEPTION 'Add at least one question before publishing';
+  END IF;
+
+  IF v_quiz_id IS NULL THEN
+    INSERT INTO quizzes (
+      title, description, time_limit, status,
+      shuffle_questions, shuffle_options, questions_per_attempt, course_id, slide_id
+    )
+    VALUES (
+      v_title,
+      nullif(trim(p_quiz ->> 'description'), ''),
+      v_time_limit,
+      v_status,
+      coalesce((p_quiz ->> 'shuffle_questions')::BOOLEAN, FALSE),
+      coalesce((p_quiz ->> 'shuffle_options')::BOOLEAN, FALSE),
+      v_per_attempt,
+      (p_quiz ->> 'course_id')::UUID,
+      (p_quiz ->> 'slide_id')::UUID
+    )
+    RETURNING id INTO v_quiz_id;
+  ELSE
+    UPDATE quizzes
+    SET
+      title = v_title,
+      description = nullif(trim(p_quiz ->> 'description'), ''),
+      time_limit = v_time_limit,
+      status = v_status,
+      shuffle_questions = coalesce((p_quiz ->> 'shuffle_questions')::BOOLEAN, FALSE),
+      shuffle_options = coalesce((p_quiz ->> 'shuffle_options')::BOOLEAN, FALSE),
+      questions_per_attempt = v_per_attempt,
+      course_id = (p_quiz ->> 'course_id')::UUID,
+      slide_id = (p_quiz ->> 'slide_id')::UUID,
+      updated_at = now()
+    WHERE id = v_quiz_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Quiz % not found', v_quiz_id;
+    END IF;
+  END IF;
+
+  FOR v_question, v_position IN
+    SELECT value, ordinality FROM jsonb_array_elements(p_questions) WITH ORDINALITY
+  LOOP
+    v_type := coalesce(v_question ->> 'type', 'multiple_choice');
+    v_content := coalesce(v_question -> 'content', '{}'::jsonb);
+    v_answer_key := coalesce(v_question -> 'answer_key', '{}'::jsonb);
+
+    IF trim(coalesce(v_question ->> 'question_text', '')) = '' THEN
+      RAISE EXCEPTION 'Question % has no text', v_position;
+    END IF;
+
+    v_error := question_error(v_type, v_content, v_answer_key);
+    IF v_error IS NOT NULL THEN
+      RAISE EXCEPTION 'Question % %', v_position, v_error;
+    END IF;
+
+    v_existing := NULL;
+    IF v_question ? 'id' THEN
+      SELECT * INTO v_existing
+      FROM quiz_questions
+      WHERE id = (v_question ->> 'id')::UUID AND quiz_id = v_quiz_id;
+    END IF;
+
+    -- Ordering items are stored shuffled so the order students see doesn't give the
+    -- answer away. Unchanged items keep their stored order, so past answers still match.
+    IF v_type = 'ordering' THEN
+      IF v_existing.type = 'ordering'
+        AND ordering_sequence(v_existing.content, v_existing.answer_key) = ordering_sequence(v_content, v_answer_key) THEN
+        v_content := v_existing.content;
+        v_answer_key := v_existing.answer_key;
+      ELSE
+        WITH correct AS (
+          SELECT o.pos, v_content -> 'items' -> (o.idx::INTEGER) AS item
+          FROM jsonb_array_elements_text(v_answer_key -> 'order') WITH ORDINALITY AS o(idx, pos)
+        ),
+        shuffled AS (
+          SELECT pos, item, row_number() OVER (ORDER BY random()) - 1 AS display_index
+          FROM correct
+        )
+        SELECT
+          jsonb_build_object('items', jsonb_agg(item ORDER BY display_index)),
+          jsonb_build_object('order', jsonb_agg(display_index ORDER BY pos))
+        INTO v_content, v_answer_key
+        FROM shuffled;
+      END IF;
+    END IF;
+
+    v_question_id := NULL;
+    IF v_existing.id IS NOT NULL THEN
+      UPDATE quiz_questions
+      SET
+        type = v_type,
+        question_text = trim(v_question ->> 'question_text'),
+        content = v_content,
+        answer_key = v_answer_key,
+        explanation = nullif(trim(v_question ->> 'explanation'), ''),
+        "order" = v_position
+      WHERE id = v_existing.id
+      RETURNING id INTO v_question_id;
+    END IF;
+
+    -- New questions, and ids that don't belong to this quiz, are inserted
+    IF v_question_id IS NULL THEN
+      INSERT INTO quiz_questions (quiz_id, type, question_text, content, answer_key, explanation, "order")
+      VALUES (
+        v_quiz_id,
+        v_type,
+        trim(v_question ->> 'question_text'),
+        v_content,
+        v_answer_key,
+        nullif(trim(v_question ->> 'explanation'), ''),
+        v_position
+      )
+      RETURNING id INTO v_question_id;
+    END IF;
+
+    v_kept := v_kept || v_question_id;
+  END LOOP;
+
+  DELETE FROM quiz_questions
+  WHERE quiz_id = v_quiz_id AND NOT (id = ANY (v_kept));
+
+  RETURN v_quiz_id;
+END;
+$$;
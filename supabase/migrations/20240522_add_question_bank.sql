@@ -0,0 +1,702 @@
+-- Question bank. Questions move out of quiz_questions into public.questions, where they
+-- carry topic tags, a difficulty and the slide they were written from, and can be asked
+-- by any number of quizzes. quiz_questions becomes the list of questions each quiz asks,
+-- in order. Editing a question changes it in every quiz that asks it.
+--
+-- Questions keep their ids, so the answers in past submissions and attempts, which are
+-- keyed by question id, still refer to them.
+
+CREATE TABLE IF NOT EXISTS public.questions (
+    id UUID PRIMARY KEY DEFAULT extensions.uuid_generate_v4(),
+    question_text TEXT NOT NULL,
+    type TEXT NOT NULL DEFAULT 'multiple_choice'
+    CHECK (type IN ('multiple_choice', 'true_false', 'multi_select', 'short_answer', 'numeric', 'ordering')),
+    content JSONB NOT NULL DEFAULT '{}'::jsonb,
+    answer_key JSONB NOT NULL,
+    explanation TEXT,
+    -- Lowercase topic tags, e.g. {recursion, big-o}
+    tags TEXT[] NOT NULL DEFAULT '{}',
+    difficulty TEXT CHECK (difficulty IN ('easy', 'medium', 'hard')),
+    course_id UUID REFERENCES public.courses(id) ON DELETE SET NULL,
+    -- Where the question comes from: a slide and, optionally, a page of it
+    slide_id UUID REFERENCES public.slides(id) ON DELETE SET NULL,
+    slide_page INTEGER CHECK (slide_page > 0),
+    created_by UUID DEFAULT auth.uid() REFERENCES public.profiles(user_id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS questions_tags_idx ON public.questions USING GIN (tags);
+CREATE INDEX IF NOT EXISTS questions_course_id_idx ON public.questions(course_id);
+
+-- Existing questions join the bank with their quiz's course and slide
+INSERT INTO public.questions (
+  id, question_text, type, content, answer_key, explanation, course_id, slide_id, created_by, created_at
+)
+SELECT qq.id, qq.question_text, qq.type, qq.content, qq.answer_key, qq.explanation, q.course_id, q.slide_id, NULL, qq.created_at
+FROM public.quiz_questions qq
+JOIN public.quizzes q ON q.id = qq.quiz_id
+ON CONFLICT (id) DO NOTHING;
+
+-- quiz_questions keeps only the link and its position in the quiz
+ALTER TABLE public.quiz_questions
+ADD COLUMN IF NOT EXISTS question_id UUID REFERENCES public.questions(id) ON DELETE CASCADE;
+
+UPDATE public.quiz_questions SET question_id = id WHERE question_id IS NULL;
+
+ALTER TABLE public.quiz_questions ALTER COLUMN question_id SET NOT NULL;
+
+ALTER TABLE public.quiz_questions DROP CONSTRAINT IF EXISTS quiz_questions_pkey;
+
+ALTER TABLE public.quiz_questions
+DROP COLUMN IF EXISTS id,
+DROP COLUMN IF EXISTS question_text,
+DROP COLUMN IF EXISTS type,
+DROP COLUMN IF EXISTS content,
+DROP COLUMN IF EXISTS answer_key,
+DROP COLUMN IF EXISTS explanation;
+
+ALTER TABLE public.quiz_questions ADD PRIMARY KEY (quiz_id, question_id);
+
+CREATE INDEX IF NOT EXISTS quiz_questions_question_id_idx ON public.quiz_questions(question_id);
+
+GRANT SELECT (question_id) ON public.quiz_questions TO authenticated;
+
+-- As before, the answer key and explanation are not selectable by clients
+REVOKE SELECT ON public.questions FROM anon, authenticated;
+GRANT SELECT (
+  id, question_text, type, content, tags, difficulty, course_id, slide_id, slide_page, created_at, updated_at
+)
+ON public.questions TO authenticated;
+
+ALTER TABLE public.questions ENABLE ROW LEVEL SECURITY;
+
+-- Students see the questions of published quizzes; instructors see the whole bank
+DROP POLICY IF EXISTS "Authenticated users can view questions" ON public.questions;
+CREATE POLICY "Authenticated users can view questions"
+ON public.questions
+FOR SELECT
+USING (
+  public.is_instructor()
+  OR EXISTS (
+    SELECT 1
+    FROM public.quiz_questions qq
+    JOIN public.quizzes q ON q.id = qq.quiz_id
+    WHERE qq.question_id = questions.id AND q.status = 'published'
+  )
+);
+
+DROP POLICY IF EXISTS "Instructors can manage questions" ON public.questions;
+CREATE POLICY "Instructors can manage questions"
+ON public.questions
+FOR ALL
+USING (public.is_instructor())
+WITH CHECK (public.is_instructor());
+
+-- Bank questions matching every filter given, most recently changed first, with their
+-- answer keys so they can be added to a quiz in the editor. p_tags matches questions
+-- with all of the tags; p_query matches the question text.
+CREATE OR REPLACE FUNCTION public.search_question_bank(
+  p_query TEXT DEFAULT NULL,
+  p_tags TEXT[] DEFAULT NULL,
+  p_difficulty TEXT DEFAULT NULL,
+  p_type TEXT DEFAULT NULL,
+  p_course_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  question_text TEXT,
+  type TEXT,
+  content JSONB,
+  answer_key JSONB,
+  explanation TEXT,
+  tags TEXT[],
+  difficulty TEXT,
+  course_id UUID,
+  slide_id UUID,
+  slide_page INTEGER,
+  quiz_count INTEGER,
+  updated_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER -- Reads answer_key, which callers cannot select
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_instructor() THEN
+    RAISE EXCEPTION 'Only instructors can browse the question bank';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    q.id,
+    q.question_text,
+    q.type,
+    q.content,
+    q.answer_key,
+    q.explanation,
+    q.tags,
+    q.difficulty,
+    q.course_id,
+    q.slide_id,
+    q.slide_page,
+    (SELECT count(*) FROM quiz_questions qq WHERE qq.question_id = q.id)::INTEGER,
+    q.updated_at
+  FROM questions q
+  WHERE (nullif(trim(p_query), '') IS NULL OR q.question_text ILIKE '%' || trim(p_query) || '%')
+  AND (p_tags IS NULL OR q.tags @> p_tags)
+  AND (p_difficulty IS NULL OR q.difficulty = p_difficulty)
+  AND (p_type IS NULL OR q.type = p_type)
+  AND (p_course_id IS NULL OR q.course_id = p_course_id)
+  ORDER BY q.updated_at DESC NULLS LAST, q.created_at DESC
+  LIMIT 100;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_question_bank(TEXT, TEXT[], TEXT, TEXT, UUID) TO authenticated;
+
+COMMENT ON FUNCTION public.search_question_bank(TEXT, TEXT[], TEXT, TEXT, UUID) IS 'Returns bank questions matching the given filters, with their answer keys, for instructors assembling quizzes.';
+
+-- Every tag in the bank with the number of questions carrying it, for filtering
+CREATE OR REPLACE FUNCTION public.question_tags()
+RETURNS TABLE (
+  tag TEXT,
+  question_count INTEGER
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT t.tag, count(*)::INTEGER
+  FROM questions q
+  CROSS JOIN LATERAL unnest(q.tags) AS t(tag)
+  GROUP BY t.tag
+  ORDER BY t.tag;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.question_tags() TO authenticated;
+
+-- The functions below are as before, reading questions through quiz_questions
+
+CREATE OR REPLACE FUNCTION public.attempt_state(p_attempt_id UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT jsonb_build_object(
+    'id', a.id,
+    'quiz_id', a.quiz_id,
+    'question_ids', to_jsonb(a.question_ids),
+    'answers', a.answers,
+    'current_question', a.current_question,
+    'started_at', a.started_at,
+    'deadline', a.deadline,
+    'seconds_left', greatest(0, ceil(extract(EPOCH FROM a.deadline - now())))::INTEGER,
+    'question_order', coalesce((
+      SELECT jsonb_agg(
+        qq.question_id
+        ORDER BY CASE WHEN a.shuffle_questions THEN public.shuffle_rank(a.seed, qq.question_id::TEXT) END, qq."order"
+      )
+      FROM public.quiz_questions qq
+      WHERE qq.quiz_id = a.quiz_id
+      AND (a.question_ids IS NULL OR qq.question_id = ANY (a.question_ids))
+    ), '[]'::jsonb),
+    'option_orders', coalesce((
+      SELECT jsonb_object_agg(
+        q.id,
+        (
+          SELECT coalesce(jsonb_agg(i ORDER BY public.shuffle_rank(a.seed, q.id::TEXT || ':' || i)), '[]'::jsonb)
+          FROM generate_series(0, jsonb_array_length(coalesce(q.content -> 'options', q.content -> 'items')) - 1) AS i
+        )
+      )
+      FROM public.quiz_questions qq
+      JOIN public.questions q ON q.id = qq.question_id
+      WHERE a.shuffle_options
+      AND qq.quiz_id = a.quiz_id
+      AND q.type IN ('multiple_choice', 'multi_select', 'ordering')
+      AND (a.question_ids IS NULL OR q.id = ANY (a.question_ids))
+    ), '{}'::jsonb)
+  )
+  FROM public.quiz_attempts a
+  WHERE a.id = p_attempt_id;
+$$;
+
+CREATE OR REPLACE FUNCTION public.start_quiz_attempt(p_quiz_id UUID, p_question_ids UUID[] DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_quiz quizzes%ROWTYPE;
+  v_seed INTEGER := floor(random() * 2147483647)::INTEGER;
+  v_question_ids UUID[] := p_question_ids;
+  v_attempt quiz_attempts%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to take a quiz';
+  END IF;
+
+  -- Drafts can only be tried out by instructors
+  SELECT * INTO v_quiz
+  FROM quizzes
+  WHERE id = p_quiz_id AND (status = 'published' OR is_instructor());
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quiz % does not exist', p_quiz_id;
+  END IF;
+
+  SELECT * INTO v_attempt
+  FROM quiz_attempts
+  WHERE user_id = v_user_id AND quiz_id = p_quiz_id AND submitted_at IS NULL;
+
+  IF NOT FOUND THEN
+    IF v_question_ids IS NULL AND v_quiz.questions_per_attempt IS NOT NULL THEN
+      SELECT array_agg(drawn.question_id) INTO v_question_ids
+      FROM (
+        SELECT question_id
+        FROM quiz_questions
+        WHERE quiz_id = p_quiz_id
+        ORDER BY shuffle_rank(v_seed, 'draw:' || question_id::TEXT)
+        LIMIT v_quiz.questions_per_attempt
+      ) AS drawn;
+    END IF;
+
+    INSERT INTO quiz_attempts (
+      user_id, quiz_id, question_ids, deadline, seed, shuffle_questions, shuffle_options
+    )
+    VALUES (
+      v_user_id,
+      p_quiz_id,
+      v_question_ids,
+      now() + make_interval(mins => v_quiz.time_limit),
+      v_seed,
+      v_quiz.shuffle_questions,
+      v_quiz.shuffle_options
+    )
+    RETURNING * INTO v_attempt;
+  END IF;
+
+  RETURN attempt_state(v_attempt.id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.submit_quiz_attempt(p_attempt_id UUID, p_answers JSONB DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER -- Needs to read answer_key, which callers cannot select
+SET search_path = public
+AS $$
+DECLARE
+  v_attempt quiz_attempts%ROWTYPE;
+  v_total INTEGER;
+  v_correct INTEGER;
+  v_score INTEGER;
+  v_submission_id UUID;
+BEGIN
+  SELECT * INTO v_attempt
+  FROM quiz_attempts
+  WHERE id = p_attempt_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Attempt % not found', p_attempt_id;
+  END IF;
+
+  -- Submitting twice (e.g. the timer and the button at once) returns the first result
+  IF v_attempt.submitted_at IS NOT NULL THEN
+    RETURN (
+      SELECT jsonb_build_object(
+        'submission_id', s.id,
+        'score', s.score,
+        'correct', s.correct_count,
+        'total', s.total_questions
+      )
+      FROM quiz_submissions s
+      WHERE s.id = v_attempt.submission_id
+    );
+  END IF;
+
+  -- With the same grace as save_quiz_attempt
+  IF p_answers IS NOT NULL AND jsonb_typeof(p_answers) = 'object'
+    AND now() <= v_attempt.deadline + INTERVAL '10 seconds' THEN
+    v_attempt.answers := p_answers;
+  END IF;
+
+  SELECT
+    count(*),
+    count(*) FILTER (WHERE grade_answer(q.type, q.answer_key, v_attempt.answers -> q.id::text))
+  INTO v_total, v_correct
+  FROM quiz_questions qq
+  JOIN questions q ON q.id = qq.question_id
+  WHERE qq.quiz_id = v_attempt.quiz_id
+  AND (v_attempt.question_ids IS NULL OR q.id = ANY (v_attempt.question_ids));
+
+  IF v_total = 0 THEN
+    RAISE EXCEPTION 'Quiz % has no questions', v_attempt.quiz_id;
+  END IF;
+
+  v_score := round(v_correct * 100.0 / v_total);
+
+  INSERT INTO quiz_submissions (
+    user_id, quiz_id, score, time_taken, answers, correct_count, total_questions, question_ids
+  )
+  VALUES (
+    v_attempt.user_id,
+    v_attempt.quiz_id,
+    v_score,
+    greatest(0, extract(EPOCH FROM least(now(), v_attempt.deadline) - v_attempt.started_at))::INTEGER,
+    v_attempt.answers,
+    v_correct,
+    v_total,
+    v_attempt.question_ids
+  )
+  RETURNING id INTO v_submission_id;
+
+  UPDATE quiz_attempts
+  SET
+    answers = v_attempt.answers,
+    submitted_at = now(),
+    submission_id = v_submission_id,
+    updated_at = now()
+  WHERE id = p_attempt_id;
+
+  RETURN jsonb_build_object(
+    'submission_id', v_submission_id,
+    'score', v_score,
+    'correct', v_correct,
+    'total', v_total
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_submission_review(p_submission_id UUID)
+RETURNS TABLE (
+  question_id UUID,
+  question_text TEXT,
+  type TEXT,
+  content JSONB,
+  selected_answer JSONB,
+  answer_key JSONB,
+  is_correct BOOLEAN,
+  explanation TEXT,
+  "order" INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER -- The answer key is only revealed for the caller's own submissions
+SET search_path = public
+AS $$
+DECLARE
+  v_submission quiz_submissions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_submission
+  FROM quiz_submissions
+  WHERE id = p_submission_id AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Submission % not found', p_submission_id;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    q.id,
+    q.question_text,
+    q.type,
+    q.content,
+    v_submission.answers -> q.id::text,
+    q.answer_key,
+    grade_answer(q.type, q.answer_key, v_submission.answers -> q.id::text),
+    q.explanation,
+    qq."order"
+  FROM quiz_questions qq
+  JOIN questions q ON q.id = qq.question_id
+  WHERE qq.quiz_id = v_submission.quiz_id
+  AND (v_submission.question_ids IS NULL OR q.id = ANY (v_submission.question_ids))
+  ORDER BY qq."order";
+END;
+$$;
+
+-- Each question also says how many other quizzes ask it, so the editor can warn that
+-- changes to a shared question apply to them too
+CREATE OR REPLACE FUNCTION public.get_quiz_for_editing(p_quiz_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER -- Reads answer_key, which callers cannot select
+SET search_path = public
+AS $$
+DECLARE
+  v_quiz JSONB;
+BEGIN
+  IF NOT is_instructor() THEN
+    RAISE EXCEPTION 'Only instructors can edit quizzes';
+  END IF;
+
+  SELECT to_jsonb(q) INTO v_quiz FROM quizzes q WHERE q.id = p_quiz_id;
+
+  IF v_quiz IS NULL THEN
+    RAISE EXCEPTION 'Quiz % not found', p_quiz_id;
+  END IF;
+
+  RETURN v_quiz || jsonb_build_object(
+    'questions',
+    coalesce((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'id', q.id,
+          'type', q.type,
+          'question_text', q.question_text,
+          'content', q.content,
+          'answer_key', q.answer_key,
+          'explanation', q.explanation,
+          'tags', to_jsonb(q.tags),
+          'difficulty', q.difficulty,
+          'slide_id', q.slide_id,
+          'slide_page', q.slide_page,
+          'other_quiz_count', (
+            SELECT count(*)
+            FROM quiz_questions other
+            WHERE other.question_id = q.id AND other.quiz_id <> p_quiz_id
+          )
+        )
+        ORDER BY qq."order"
+      )
+      FROM quiz_questions qq
+      JOIN questions q ON q.id = qq.question_id
+      WHERE qq.quiz_id = p_quiz_id
+    ), '[]'::jsonb)
+  );
+END;
+$$;
+
+-- Create (no p_quiz_id) or update a quiz and replace the list of questions it asks, in
+-- one transaction.
+--   p_quiz:      { title, description, time_limit, status, shuffle_questions, shuffle_options,
+--                  questions_per_attempt, course_id, slide_id }
+--   p_questions: [{ id?, type, question_text, content, answer_key, explanation,
+--                   tags, difficulty, slide_id, slide_page }]
+-- Questions are asked in the order given. A question with the id of a bank question is
+-- that question, updated with what is given; others are added to the bank, under the
+-- quiz's course and, unless they name one, its slide. Questions left out are removed from
+-- the quiz but stay in the bank.
+CREATE OR REPLACE FUNCTION public.save_quiz(p_quiz JSONB, p_questions JSONB, p_quiz_id UUID DEFAULT NULL)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER -- Writes answer_key, which callers cannot select
+SET search_path = public
+AS $$
+DECLARE
+  v_quiz_id UUID := p_quiz_id;
+  v_title TEXT := trim(coalesce(p_quiz ->> 'title', ''));
+  v_status TEXT := coalesce(p_quiz ->> 'status', 'draft');
+  v_time_limit INTEGER := (p_quiz ->> 'time_limit')::INTEGER;
+  v_per_attempt INTEGER := (p_quiz ->> 'questions_per_attempt')::INTEGER;
+  v_question JSONB;
+  v_position INTEGER;
+  v_type TEXT;
+  v_content JSONB;
+  v_answer_key JSONB;
+  v_tags TEXT[];
+  v_difficulty TEXT;
+  v_existing questions%ROWTYPE;
+  v_error TEXT;
+  v_kept UUID[] := '{}';
+  v_question_id UUID;
+BEGIN
+  IF NOT is_instructor() THEN
+    RAISE EXCEPTION 'Only instructors can edit quizzes';
+  END IF;
+
+  IF v_title = '' THEN
+    RAISE EXCEPTION 'A quiz needs a title';
+  END IF;
+
+  IF v_time_limit IS NULL OR v_time_limit < 1 THEN
+    RAISE EXCEPTION 'The time limit must be at least one minute';
+  END IF;
+
+  IF v_per_attempt IS NOT NULL AND v_per_attempt < 1 THEN
+    RAISE EXCEPTION 'Each attempt must ask at least one question';
+  END IF;
+
+  IF v_status NOT IN ('draft', 'published') THEN
+    RAISE EXCEPTION 'Unknown status %', v_status;
+  END IF;
+
+  IF jsonb_typeof(p_questions) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'Questions must be a list';
+  END IF;
+
+  IF v_status = 'published' AND jsonb_array_length(p_questions) = 0 THEN
+    RAISE EXCEPTION 'Add at least one question before publishing';
+  END IF;
+
+  IF v_quiz_id IS NULL THEN
+    INSERT INTO quizzes (
+      title, description, time_limit, status,
+      shuffle_questions, shuffle_options, questions_per_attempt, course_id, slide_id
+    )
+    VALUES (
+      v_title,
+      nullif(trim(p_quiz ->> 'description'), ''),
+      v_time_limit,
+      v_status,
+      coalesce((p_quiz ->> 'shuffle_questions')::BOOLEAN, FALSE),
+      coalesce((p_quiz ->> 'shuffle_options')::BOOLEAN, FALSE),
+      v_per_attempt,
+      (p_quiz ->> 'course_id')::UUID,
+      (p_quiz ->> 'slide_id')::UUID
+    )
+    RETURNING id INTO v_quiz_id;
+  ELSE
+    UPDATE quizzes
+    SET
+      title = v_title,
+      description = nullif(trim(p_quiz ->> 'description'), ''),
+      time_limit = v_time_limit,
+      status = v_status,
+      shuffle_questions = coalesce((p_quiz ->> 'shuffle_questions')::BOOLEAN, FALSE),
+      shuffle_options = coalesce((p_quiz ->> 'shuffle_options')::BOOLEAN, FALSE),
+      questions_per_attempt = v_per_attempt,
+      course_id = (p_quiz ->> 'course_id')::UUID,
+      slide_id = (p_quiz ->> 'slide_id')::UUID,
+      updated_at = now()
+    WHERE id = v_quiz_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Quiz % not found', v_quiz_id;
+    END IF;
+  END IF;
+
+  FOR v_question, v_position IN
+    SELECT value, ordinality FROM jsonb_array_elements(p_questions) WITH ORDINALITY
+  LOOP
+    v_type := coalesce(v_question ->> 'type', 'multiple_choice');
+    v_content := coalesce(v_question -> 'content', '{}'::jsonb);
+    v_answer_key := coalesce(v_question -> 'answer_key', '{}'::jsonb);
+    v_difficulty := nullif(v_question ->> 'difficulty', '');
+
+    IF trim(coalesce(v_question ->> 'question_text', '')) = '' THEN
+      RAISE EXCEPTION 'Question % has no text', v_position;
+    END IF;
+
+    v_error := question_error(v_type, v_content, v_answer_key);
+    IF v_error IS NOT NULL THEN
+      RAISE EXCEPTION 'Question % %', v_position, v_error;
+    END IF;
+
+    IF jsonb_typeof(coalesce(v_question -> 'tags', '[]'::jsonb)) <> 'array' THEN
+      RAISE EXCEPTION 'Question % has tags that aren''t a list', v_position;
+    END IF;
+
+    IF v_difficulty NOT IN ('easy', 'medium', 'hard') THEN
+      RAISE EXCEPTION 'Question % has an unknown difficulty %', v_position, v_difficulty;
+    END IF;
+
+    -- Stored lowercase and without repeats, so a tag filter finds every question with it
+    v_tags := ARRAY(
+      SELECT DISTINCT lower(trim(tag))
+      FROM jsonb_array_elements_text(coalesce(v_question -> 'tags', '[]'::jsonb)) AS tag
+      WHERE trim(tag) <> ''
+      ORDER BY 1
+    );
+
+    v_existing := NULL;
+    IF v_question ? 'id' THEN
+      SELECT * INTO v_existing
+      FROM questions
+      WHERE id = (v_question ->> 'id')::UUID;
+    END IF;
+
+    -- Ordering items are stored shuffled so the order students see doesn't give the
+    -- answer away. Unchanged items keep their stored order, so past answers still match.
+    IF v_type = 'ordering' THEN
+      IF v_existing.type = 'ordering'
+        AND ordering_sequence(v_existing.content, v_existing.answer_key) = ordering_sequence(v_content, v_answer_key) THEN
+        v_content := v_existing.content;
+        v_answer_key := v_existing.answer_key;
+      ELSE
+        WITH correct AS (
+          SELECT o.pos, v_content -> 'items' -> (o.idx::INTEGER) AS item
+          FROM jsonb_array_elements_text(v_answer_key -> 'order') WITH ORDINALITY AS o(idx, pos)
+        ),
+        shuffled AS (
+          SELECT pos, item, row_number() OVER (ORDER BY random()) - 1 AS display_index
+          FROM correct
+        )
+        SELECT
+          jsonb_build_object('items', jsonb_agg(item ORDER BY display_index)),
+          jsonb_build_object('order', jsonb_agg(display_index ORDER BY pos))
+        INTO v_content, v_answer_key
+        FROM shuffled;
+      END IF;
+    END IF;
+
+    IF v_existing.id IS NOT NULL THEN
+      v_question_id := v_existing.id;
+
+      -- Only touched when something changed, so updated_at tells when the question did
+      UPDATE questions
+      SET
+        type = v_type,
+        question_text = trim(v_question ->> 'question_text'),
+        content = v_content,
+        answer_key = v_answer_key,
+        explanation = nullif(trim(v_question ->> 'explanation'), ''),
+        tags = v_tags,
+        difficulty = v_difficulty,
+        slide_id = (v_question ->> 'slide_id')::UUID,
+        slide_page = (v_question ->> 'slide_page')::INTEGER,
+        updated_at = now()
+      WHERE id = v_question_id
+      AND (type, question_text, content, answer_key, explanation, tags, difficulty, slide_id, slide_page)
+        IS DISTINCT FROM (
+          v_type,
+          trim(v_question ->> 'question_text'),
+          v_content,
+          v_answer_key,
+          nullif(trim(v_question ->> 'explanation'), ''),
+          v_tags,
+          v_difficulty,
+          (v_question ->> 'slide_id')::UUID,
+          (v_question ->> 'slide_page')::INTEGER
+        );
+    ELSE
+      INSERT INTO questions (
+        type, question_text, content, answer_key, explanation, tags, difficulty, course_id, slide_id, slide_page
+      )
+      VALUES (
+        v_type,
+        trim(v_question ->> 'question_text'),
+        v_content,
+        v_answer_key,
+        nullif(trim(v_question ->> 'explanation'), ''),
+        v_tags,
+        v_difficulty,
+        (p_quiz ->> 'course_id')::UUID,
+        coalesce((v_question ->> 'slide_id')::UUID, (p_quiz ->> 'slide_id')::UUID),
+        (v_question ->> 'slide_page')::INTEGER
+      )
+      RETURNING id INTO v_question_id;
+    END IF;
+
+    IF v_question_id = ANY (v_kept) THEN
+      RAISE EXCEPTION 'Question % is already in this quiz', v_position;
+    END IF;
+
+    INSERT INTO quiz_questions (quiz_id, question_id, "order")
+    VALUES (v_quiz_id, v_question_id, v_position)
+    ON CONFLICT (quiz_id, question_id) DO UPDATE SET "order" = EXCLUDED."order";
+
+    v_kept := v_kept || v_question_id;
+  END LOOP;
+
+  DELETE FROM quiz_questions
+  WHERE quiz_id = v_quiz_id AND NOT (question_id = ANY (v_kept));
+
+  RETURN v_quiz_id;
+END;
+$$;
@@ -0,0 +1,350 @@
+-- Grade each submission once and keep what it was graded against. Reviews used to
+-- regrade past submissions against the bank as it is now, so editing or unlinking a
+-- question changed old reviews until they no longer matched the stored score. Each
+-- submission now records, per question, what was asked, the key it was graded with and
+-- whether the answer was right.
+--
+-- Bank questions also get an owner: only the instructor who wrote a question, or an
+-- admin, can change it. Others can still ask it in their quizzes as it is, or copy it.
+
+ALTER TABLE public.quiz_submissions
+ADD COLUMN IF NOT EXISTS results JSONB;
+
+-- The questions of a quiz (or the given subset of them) graded against the given
+-- answers, in quiz order:
+--   [{ question_id, question_text, type, content, answer_key, explanation, is_correct, order }]
+CREATE OR REPLACE FUNCTION public.graded_questions(p_quiz_id UUID, p_question_ids UUID[], p_answers JSONB)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT coalesce(jsonb_agg(
+    jsonb_build_object(
+      'question_id', q.id,
+      'question_text', q.question_text,
+      'type', q.type,
+      'content', q.content,
+      'answer_key', q.answer_key,
+      'explanation', q.explanation,
+      'is_correct', grade_answer(q.type, q.answer_key, p_answers -> q.id::text),
+      'order', qq."order"
+    )
+    ORDER BY qq."order"
+  ), '[]'::jsonb)
+  FROM quiz_questions qq
+  JOIN questions q ON q.id = qq.question_id
+  WHERE qq.quiz_id = p_quiz_id
+  AND (p_question_ids IS NULL OR q.id = ANY (p_question_ids));
+$$;
+
+-- Past submissions are graded once more against the bank as it is now, the closest
+-- record there is of what they were graded against
+UPDATE public.quiz_submissions
+SET results = public.graded_questions(quiz_id, question_ids, answers)
+WHERE results IS NULL;
+
+ALTER TABLE public.quiz_submissions ALTER COLUMN results SET NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.submit_quiz_attempt(p_attempt_id UUID, p_answers JSONB DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER -- Needs to read answer_key, which callers cannot select
+SET search_path = public
+AS $$
+DECLARE
+  v_attempt quiz_attempts%ROWTYPE;
+  v_results JSONB;
+  v_total INTEGER;
+  v_correct INTEGER;
+  v_score INTEGER;
+  v_submission_id UUID;
+BEGIN
+  SELECT * INTO v_attempt
+  FROM quiz_attempts
+  WHERE id = p_attempt_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Attempt % not found', p_attempt_id;
+  END IF;
+
+  -- Submitting twice (e.g. the timer and the button at once) returns the first result
+  IF v_attempt.submitted_at IS NOT NULL THEN
+    RETURN (
+      SELECT jsonb_build_object(
+        'submission_id', s.id,
+        'score', s.score,
+        'correct', s.correct_count,
+        'total', s.total_questions
+      )
+      FROM quiz_submissions s
+      WHERE s.id = v_attempt.submission_id
+    );
+  END IF;
+
+  -- With the same grace as save_quiz_attempt
+  IF p_answers IS NOT NULL AND jsonb_typeof(p_answers) = 'object'
+    AND now() <= v_attempt.deadline + INTERVAL '10 seconds' THEN
+    v_attempt.answers := p_answers;
+  END IF;
+
+  v_results := graded_questions(v_attempt.quiz_id, v_attempt.question_ids, v_attempt.answers);
+
+  SELECT
+    count(*),
+    count(*) FILTER (WHERE (result ->> 'is_correct')::BOOLEAN)
+  INTO v_total, v_correct
+  FROM jsonb_array_elements(v_results) AS result;
+
+  IF v_total = 0 THEN
+    RAISE EXCEPTION 'Quiz % has no questions', v_attempt.quiz_id;
+  END IF;
+
+  v_score := round(v_correct * 100.0 / v_total);
+
+  INSERT INTO quiz_submissions (
+    user_id, quiz_id, score, time_taken, answers, correct_count, total_questions, question_ids, results
+  )
+  VALUES (
+    v_attempt.user_id,
+    v_attempt.quiz_id,
+    v_score,
+    greatest(0, extract(EPOCH FROM least(now(), v_attempt.deadline) - v_attempt.started_at))::INTEGER,
+    v_attempt.answers,
+    v_correct,
+    v_total,
+    v_attempt.question_ids,
+    v_results
+  )
+  RETURNING id INTO v_submission_id;
+
+  UPDATE quiz_attempts
+  SET
+    answers = v_attempt.answers,
+    submitted_at = now(),
+    submission_id = v_submission_id,
+    updated_at = now()
+  WHERE id = p_attempt_id;
+
+  RETURN jsonb_build_object(
+    'submission_id', v_submission_id,
+    'score', v_score,
+    'correct', v_correct,
+    'total', v_total
+  );
+END;
+$$;
+
+-- Reads the questions as they were graded, whatever has happened to them in the bank since
+CREATE OR REPLACE FUNCTION public.get_submission_review(p_submission_id UUID)
+RETURNS TABLE (
+  question_id UUID,
+  question_text TEXT,
+  type TEXT,
+  content JSONB,
+  selected_answer JSONB,
+  answer_key JSONB,
+  is_correct BOOLEAN,
+  explanation TEXT,
+  "order" INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER -- The answer key is only revealed for the caller's own submissions
+SET search_path = public
+AS $$
+DECLARE
+  v_submission quiz_submissions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_submission
+  FROM quiz_submissions
+  WHERE id = p_submission_id AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Submission % not found', p_submission_id;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    (result ->> 'question_id')::UUID,
+    result ->> 'question_text',
+    result ->> 'type',
+    result -> 'content',
+    v_submission.answers -> (result ->> 'question_id'),
+    result -> 'answer_key',
+    (result ->> 'is_correct')::BOOLEAN,
+    result ->> 'explanation',
+    (result ->> 'order')::INTEGER
+  FROM jsonb_array_elements(v_submission.results) AS result
+  ORDER BY (result ->> 'order')::INTEGER;
+END;
+$$;
+
+-- Ownership follows slides: instructors add questions as themselves, and only the author
+-- or an admin can change or delete them. Existing questions were written before authors
+-- were recorded; they stay unowned and only admins can change them.
+DROP POLICY IF EXISTS "Instructors can manage questions" ON public.questions;
+
+DROP POLICY IF EXISTS "Instructors can insert questions" ON public.questions;
+CREATE POLICY "Instructors can insert questions"
+ON public.questions
+FOR INSERT
+WITH CHECK (public.is_instructor() AND created_by = auth.uid());
+
+DROP POLICY IF EXISTS "Authors can update their questions" ON public.questions;
+CREATE POLICY "Authors can update their questions"
+ON public.questions
+FOR UPDATE
+USING (created_by = auth.uid() OR public.is_admin())
+WITH CHECK (created_by = auth.uid() OR public.is_admin());
+
+DROP POLICY IF EXISTS "Authors can delete their questions" ON public.questions;
+CREATE POLICY "Authors can delete their questions"
+ON public.questions
+FOR DELETE
+USING (created_by = auth.uid() OR public.is_admin());
+
+-- save_quiz bypasses RLS, so this repeats the ownership check for the questions it
+-- changes. It only watches the question itself: deleting a slide or course sets
+-- slide_id or course_id to null on questions whoever wrote them. Requests without a user
+-- JWT (SQL editor, service role) are trusted.
+CREATE OR REPLACE FUNCTION public.protect_question_owner()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT is_admin() AND OLD.created_by IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the instructor who wrote "%" can change it; copy it to make changes', OLD.question_text;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_question_owner ON public.questions;
+CREATE TRIGGER protect_question_owner
+BEFORE UPDATE OF type, question_text, content, answer_key, explanation, tags, difficulty, slide_page
+ON public.questions
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_question_owner();
+
+-- As before, with can_edit saying whether the caller may change each question. The
+-- return type changes, so the function is dropped first.
+DROP FUNCTION IF EXISTS public.search_question_bank(TEXT, TEXT[], TEXT, TEXT, UUID);
+
+CREATE OR REPLACE FUNCTION public.search_question_bank(
+  p_query TEXT DEFAULT NULL,
+  p_tags TEXT[] DEFAULT NULL,
+  p_difficulty TEXT DEFAULT NULL,
+  p_type TEXT DEFAULT NULL,
+  p_course_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  question_text TEXT,
+  type TEXT,
+  content JSONB,
+  answer_key JSONB,
+  explanation TEXT,
+  tags TEXT[],
+  difficulty TEXT,
+  course_id UUID,
+  slide_id UUID,
+  slide_page INTEGER,
+  quiz_count INTEGER,
+  can_edit BOOLEAN,
+  updated_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER -- Reads answer_key, which callers cannot select
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_instructor() THEN
+    RAISE EXCEPTION 'Only instructors can browse the question bank';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    q.id,
+    q.question_text,
+    q.type,
+    q.content,
+    q.answer_key,
+    q.explanation,
+    q.tags,
+    q.difficulty,
+    q.course_id,
+    q.slide_id,
+    q.slide_page,
+    (SELECT count(*) FROM quiz_questions qq WHERE qq.question_id = q.id)::INTEGER,
+    coalesce(q.created_by = auth.uid(), FALSE) OR is_admin(),
+    q.updated_at
+  FROM questions q
+  WHERE (nullif(trim(p_query), '') IS NULL OR q.question_text ILIKE '%' || trim(p_query) || '%')
+  AND (p_tags IS NULL OR q.tags @> p_tags)
+  AND (p_difficulty IS NULL OR q.difficulty = p_difficulty)
+  AND (p_type IS NULL OR q.type = p_type)
+  AND (p_course_id IS NULL OR q.course_id = p_course_id)
+  ORDER BY q.updated_at DESC NULLS LAST, q.created_at DESC
+  LIMIT 100;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_question_bank(TEXT, TEXT[], TEXT, TEXT, UUID) TO authenticated;
+
+COMMENT ON FUNCTION public.search_question_bank(TEXT, TEXT[], TEXT, TEXT, UUID) IS 'Returns bank questions matching the given filters, with their answer keys, for instructors assembling quizzes.';
+
+CREATE OR REPLACE FUNCTION public.get_quiz_for_editing(p_quiz_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER -- Reads answer_key, which callers cannot select
+SET search_path = public
+AS $$
+DECLARE
+  v_quiz JSONB;
+BEGIN
+  IF NOT is_instructor() THEN
+    RAISE EXCEPTION 'Only instructors can edit quizzes';
+  END IF;
+
+  SELECT to_jsonb(q) INTO v_quiz FROM quizzes q WHERE q.id = p_quiz_id;
+
+  IF v_quiz IS NULL THEN
+    RAISE EXCEPTION 'Quiz % not found', p_quiz_id;
+  END IF;
+
+  RETURN v_quiz || jsonb_build_object(
+    'questions',
+    coalesce((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'id', q.id,
+          'type', q.type,
+          'question_text', q.question_text,
+          'content', q.content,
+          'answer_key', q.answer_key,
+          'explanation', q.explanation,
+          'tags', to_jsonb(q.tags),
+          'difficulty', q.difficulty,
+          'slide_id', q.slide_id,
+          'slide_page', q.slide_page,
+          'other_quiz_count', (
+            SELECT count(*)
+            FROM quiz_questions other
+            WHERE other.question_id = q.id AND other.quiz_id <> p_quiz_id
+          ),
+          'can_edit', coalesce(q.created_by = auth.uid(), FALSE) OR is_admin()
+        )
+        ORDER BY qq."order"
+      )
+      FROM quiz_questions qq
+      JOIN questions q ON q.id = qq.question_id
+      WHERE qq.quiz_id = p_quiz_id
+    ), '[]'::jsonb)
+  );
+END;
+$$;
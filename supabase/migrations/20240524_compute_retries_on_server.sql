@@ -0,0 +1,44 @@
+-- Retrying the questions a submission missed. Which questions those are used to come
+-- from the browser, which also has the answer key from the review, so a retry could be
+-- narrowed to questions the student already knew the answers to. They are now worked
+-- out here from a submission the caller owns.
+
+-- The questions the caller's submission got wrong that the quiz still asks, in quiz order
+CREATE OR REPLACE FUNCTION public.retry_question_ids(p_submission_id UUID, p_quiz_id UUID)
+RETURNS UUID[]
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER -- Reads the graded results of the submission
+SET search_path = public
+AS $$
+DECLARE
+  v_submission quiz_submissions%ROWTYPE;
+  v_question_ids UUID[];
+BEGIN
+  SELECT * INTO v_submission
+  FROM quiz_submissions
+  WHERE id = p_submission_id AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Submission % not found', p_submission_id;
+  END IF;
+
+  IF v_submission.quiz_id <> p_quiz_id THEN
+    RAISE EXCEPTION 'Submission % is for another quiz', p_submission_id;
+  END IF;
+
+  SELECT array_agg(qq.question_id ORDER BY qq."order") INTO v_question_ids
+  FROM jsonb_array_elements(v_submission.results) AS result
+  JOIN quiz_questions qq
+    ON qq.quiz_id = p_quiz_id AND qq.question_id = (result ->> 'question_id')::UUID
+  WHERE NOT (result ->> 'is_correct')::BOOLEAN;
+
+  IF v_question_ids IS NULL THEN
+    RAISE EXCEPTION 'There are no missed questions to retry';
+  END IF;
+
+  RETURN v_question_ids;
+END;
+$$;
+
+COMMENT ON FUNCTION public.retry_question_ids(UUID, UUID) IS 'Returns the questions of the given quiz that the caller''s submission got wrong. Owner only.';
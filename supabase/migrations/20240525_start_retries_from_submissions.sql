@@ -0,0 +1,192 @@
+-- Retries start from a submission instead of a list of question ids. start_quiz_attempt
+-- used to take the ids to ask from the browser and submit_quiz_attempt graded only those,
+-- so a student could start an attempt with just the questions they knew and score 100%.
+-- The caller now names their own earlier submission and the database works out what it
+-- missed. Attempts and submissions record the submission they retry.
+
+ALTER TABLE public.quiz_attempts
+ADD COLUMN IF NOT EXISTS retry_of UUID REFERENCES public.quiz_submissions(id) ON DELETE SET NULL;
+
+ALTER TABLE public.quiz_submissions
+ADD COLUMN IF NOT EXISTS retry_of UUID REFERENCES public.quiz_submissions(id) ON DELETE SET NULL;
+
+-- Before this, a submission of only some of the questions of a quiz that doesn't draw
+-- them was a retry, of the user's submission before it
+UPDATE public.quiz_submissions s
+SET retry_of = (
+  SELECT prev.id
+  FROM public.quiz_submissions prev
+  WHERE prev.user_id = s.user_id AND prev.quiz_id = s.quiz_id AND prev.created_at < s.created_at
+  ORDER BY prev.created_at DESC
+  LIMIT 1
+)
+FROM public.quizzes q
+WHERE q.id = s.quiz_id
+AND q.questions_per_attempt IS NULL
+AND s.question_ids IS NOT NULL
+AND s.retry_of IS NULL;
+
+DROP FUNCTION IF EXISTS public.start_quiz_attempt(UUID, UUID[]);
+
+CREATE OR REPLACE FUNCTION public.start_quiz_attempt(p_quiz_id UUID, p_retry_submission_id UUID DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_quiz quizzes%ROWTYPE;
+  v_seed INTEGER := floor(random() * 2147483647)::INTEGER;
+  v_question_ids UUID[];
+  v_attempt quiz_attempts%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to take a quiz';
+  END IF;
+
+  -- Drafts can only be tried out by instructors
+  SELECT * INTO v_quiz
+  FROM quizzes
+  WHERE id = p_quiz_id AND (status = 'published' OR is_instructor());
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quiz % does not exist', p_quiz_id;
+  END IF;
+
+  SELECT * INTO v_attempt
+  FROM quiz_attempts
+  WHERE user_id = v_user_id AND quiz_id = p_quiz_id AND submitted_at IS NULL;
+
+  IF NOT FOUND THEN
+    -- Checks that the submission is the caller's and for this quiz
+    IF p_retry_submission_id IS NOT NULL THEN
+      v_question_ids := retry_question_ids(p_retry_submission_id, p_quiz_id);
+    END IF;
+
+    IF v_question_ids IS NULL AND v_quiz.questions_per_attempt IS NOT NULL THEN
+      SELECT array_agg(drawn.question_id) INTO v_question_ids
+      FROM (
+        SELECT question_id
+        FROM quiz_questions
+        WHERE quiz_id = p_quiz_id
+        ORDER BY shuffle_rank(v_seed, 'draw:' || question_id::TEXT)
+        LIMIT v_quiz.questions_per_attempt
+      ) AS drawn;
+    END IF;
+
+    INSERT INTO quiz_attempts (
+      user_id, quiz_id, question_ids, retry_of, deadline, seed, shuffle_questions, shuffle_options
+    )
+    VALUES (
+      v_user_id,
+      p_quiz_id,
+      v_question_ids,
+      p_retry_submission_id,
+      now() + make_interval(mins => v_quiz.time_limit),
+      v_seed,
+      v_quiz.shuffle_questions,
+      v_quiz.shuffle_options
+    )
+    RETURNING * INTO v_attempt;
+  END IF;
+
+  RETURN attempt_state(v_attempt.id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.start_quiz_attempt(UUID, UUID) TO authenticated;
+
+COMMENT ON FUNCTION public.start_quiz_attempt(UUID, UUID) IS 'Resumes the caller''s in-progress attempt at a quiz, or starts one with a deadline from the quiz''s time limit, optionally retrying what one of the caller''s submissions missed.';
+
+-- As before, passing the attempt's retry_of on to the submission
+CREATE OR REPLACE FUNCTION public.submit_quiz_attempt(p_attempt_id UUID, p_answers JSONB DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER -- Needs to read answer_key, which callers cannot select
+SET search_path = public
+AS $$
+DECLARE
+  v_attempt quiz_attempts%ROWTYPE;
+  v_results JSONB;
+  v_total INTEGER;
+  v_correct INTEGER;
+  v_score INTEGER;
+  v_submission_id UUID;
+BEGIN
+  SELECT * INTO v_attempt
+  FROM quiz_attempts
+  WHERE id = p_attempt_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Attempt % not found', p_attempt_id;
+  END IF;
+
+  -- Submitting twice (e.g. the timer and the button at once) returns the first result
+  IF v_attempt.submitted_at IS NOT NULL THEN
+    RETURN (
+      SELECT jsonb_build_object(
+        'submission_id', s.id,
+        'score', s.score,
+        'correct', s.correct_count,
+        'total', s.total_questions
+      )
+      FROM quiz_submissions s
+      WHERE s.id = v_attempt.submission_id
+    );
+  END IF;
+
+  -- With the same grace as save_quiz_attempt
+  IF p_answers IS NOT NULL AND jsonb_typeof(p_answers) = 'object'
+    AND now() <= v_attempt.deadline + INTERVAL '10 seconds' THEN
+    v_attempt.answers := p_answers;
+  END IF;
+
+  v_results := graded_questions(v_attempt.quiz_id, v_attempt.question_ids, v_attempt.answers);
+
+  SELECT
+    count(*),
+    count(*) FILTER (WHERE (result ->> 'is_correct')::BOOLEAN)
+  INTO v_total, v_correct
+  FROM jsonb_array_elements(v_results) AS result;
+
+  IF v_total = 0 THEN
+    RAISE EXCEPTION 'Quiz % has no questions', v_attempt.quiz_id;
+  END IF;
+
+  v_score := round(v_correct * 100.0 / v_total);
+
+  INSERT INTO quiz_submissions (
+    user_id, quiz_id, score, time_taken, answers, correct_count, total_questions, question_ids, results, retry_of
+  )
+  VALUES (
+    v_attempt.user_id,
+    v_attempt.quiz_id,
+    v_score,
+    greatest(0, extract(EPOCH FROM least(now(), v_attempt.deadline) - v_attempt.started_at))::INTEGER,
+    v_attempt.answers,
+    v_correct,
+    v_total,
+    v_attempt.question_ids,
+    v_results,
+    v_attempt.retry_of
+  )
+  RETURNING id INTO v_submission_id;
+
+  UPDATE quiz_attempts
+  SET
+    answers = v_attempt.answers,
+    submitted_at = now(),
+    submission_id = v_submission_id,
+    updated_at = now()
+  WHERE id = p_attempt_id;
+
+  RETURN jsonb_build_object(
+    'submission_id', v_submission_id,
+    'score', v_score,
+    'correct', v_correct,
+    'total', v_total
+  );
+END;
+$$;
@@ -0,0 +1,72 @@
+-- Every attempt at a quiz that draws questions asks at most questions_per_attempt of
+-- them. The draw used to be skipped whenever question ids were given, so retries, and
+-- before 20240525 any ids the browser sent, got around it.
+
+CREATE OR REPLACE FUNCTION public.start_quiz_attempt(p_quiz_id UUID, p_retry_submission_id UUID DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_quiz quizzes%ROWTYPE;
+  v_seed INTEGER := floor(random() * 2147483647)::INTEGER;
+  v_question_ids UUID[];
+  v_attempt quiz_attempts%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to take a quiz';
+  END IF;
+
+  -- Drafts can only be tried out by instructors
+  SELECT * INTO v_quiz
+  FROM quizzes
+  WHERE id = p_quiz_id AND (status = 'published' OR is_instructor());
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quiz % does not exist', p_quiz_id;
+  END IF;
+
+  SELECT * INTO v_attempt
+  FROM quiz_attempts
+  WHERE user_id = v_user_id AND quiz_id = p_quiz_id AND submitted_at IS NULL;
+
+  IF NOT FOUND THEN
+    -- Checks that the submission is the caller's and for this quiz
+    IF p_retry_submission_id IS NOT NULL THEN
+      v_question_ids := retry_question_ids(p_retry_submission_id, p_quiz_id);
+    END IF;
+
+    -- Never more than questions_per_attempt, drawn from the missed questions when retrying
+    IF v_quiz.questions_per_attempt IS NOT NULL THEN
+      SELECT array_agg(drawn.question_id) INTO v_question_ids
+      FROM (
+        SELECT question_id
+        FROM quiz_questions
+        WHERE quiz_id = p_quiz_id
+        AND (v_question_ids IS NULL OR question_id = ANY (v_question_ids))
+        ORDER BY shuffle_rank(v_seed, 'draw:' || question_id::TEXT)
+        LIMIT v_quiz.questions_per_attempt
+      ) AS drawn;
+    END IF;
+
+    INSERT INTO quiz_attempts (
+      user_id, quiz_id, question_ids, retry_of, deadline, seed, shuffle_questions, shuffle_options
+    )
+    VALUES (
+      v_user_id,
+      p_quiz_id,
+      v_question_ids,
+      p_retry_submission_id,
+      now() + make_interval(mins => v_quiz.time_limit),
+      v_seed,
+      v_quiz.shuffle_questions,
+      v_quiz.shuffle_options
+    )
+    RETURNING * INTO v_attempt;
+  END IF;
+
+  RETURN attempt_state(v_attempt.id);
+END;
+$$;
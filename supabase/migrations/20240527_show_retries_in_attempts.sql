@@ -0,0 +1,46 @@
+-- The attempt says which submission it retries, if any, so a resumed retry is shown as
+-- one whatever the URL it was opened from
+
+CREATE OR REPLACE FUNCTION public.attempt_state(p_attempt_id UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT jsonb_build_object(
+    'id', a.id,
+    'quiz_id', a.quiz_id,
+    'question_ids', to_jsonb(a.question_ids),
+    'retry_of', a.retry_of,
+    'answers', a.answers,
+    'current_question', a.current_question,
+    'started_at', a.started_at,
+    'deadline', a.deadline,
+    'seconds_left', greatest(0, ceil(extract(EPOCH FROM a.deadline - now())))::INTEGER,
+    'question_order', coalesce((
+      SELECT jsonb_agg(
+        qq.question_id
+        ORDER BY CASE WHEN a.shuffle_questions THEN public.shuffle_rank(a.seed, qq.question_id::TEXT) END, qq."order"
+      )
+      FROM public.quiz_questions qq
+      WHERE qq.quiz_id = a.quiz_id
+      AND (a.question_ids IS NULL OR qq.question_id = ANY (a.question_ids))
+    ), '[]'::jsonb),
+    'option_orders', coalesce((
+      SELECT jsonb_object_agg(
+        q.id,
+        (
+          SELECT coalesce(jsonb_agg(i ORDER BY public.shuffle_rank(a.seed, q.id::TEXT || ':' || i)), '[]'::jsonb)
+          FROM generate_series(0, jsonb_array_length(coalesce(q.content -> 'options', q.content -> 'items')) - 1) AS i
+        )
+      )
+      FROM public.quiz_questions qq
+      JOIN public.questions q ON q.id = qq.question_id
+      WHERE a.shuffle_options
+      AND qq.quiz_id = a.quiz_id
+      AND q.type IN ('multiple_choice', 'multi_select', 'ordering')
+      AND (a.question_ids IS NULL OR q.id = ANY (a.question_ids))
+    ), '{}'::jsonb)
+  )
+  FROM public.quiz_attempts a
+  WHERE a.id = p_attempt_id;
+$$;
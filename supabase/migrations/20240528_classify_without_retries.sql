@@ -0,0 +1,98 @@
+-- Retries no longer count towards learning speed. A retry asks only the questions a
+-- submission missed, with the quiz's whole time limit, so it was counted as a full score
+-- taken in a fraction of the time. Attempts that draw questions_per_attempt questions
+-- still count: the time limit is the one the student had.
+
+CREATE OR REPLACE FUNCTION public.classify_user(p_user_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  -- How many recent submissions feed into the classification
+  c_window CONSTANT INTEGER := 10;
+  -- How many of those count as "recent" when measuring the trend
+  c_recent CONSTANT INTEGER := 3;
+  v_average_score NUMERIC;
+  v_average_time_ratio NUMERIC;
+  v_score_trend NUMERIC := 0;
+  v_submission_ids UUID[];
+  v_count INTEGER;
+  v_classification TEXT;
+  v_previous TEXT;
+BEGIN
+  WITH recent AS (
+    SELECT
+      s.id,
+      s.score,
+      -- Share of the time limit used; 1.0 means the whole limit
+      s.time_taken::NUMERIC / nullif(q.time_limit * 60, 0) AS time_ratio,
+      row_number() OVER (ORDER BY s.created_at DESC) AS position
+    FROM quiz_submissions s
+    JOIN quizzes q ON q.id = s.quiz_id
+    WHERE s.user_id = p_user_id
+    AND s.retry_of IS NULL
+    ORDER BY s.created_at DESC
+    LIMIT c_window
+  )
+  SELECT
+    count(*),
+    avg(score),
+    coalesce(avg(least(time_ratio, 1)), 1),
+    array_agg(id ORDER BY position),
+    CASE
+      WHEN count(*) > c_recent THEN
+        avg(score) FILTER (WHERE position <= c_recent) - avg(score) FILTER (WHERE position > c_recent)
+      ELSE 0
+    END
+  INTO v_count, v_average_score, v_average_time_ratio, v_submission_ids, v_score_trend
+  FROM recent;
+
+  IF v_count = 0 THEN
+    RETURN NULL;
+  END IF;
+
+  v_classification := CASE
+    -- High scores with time to spare, or strong scores that keep improving
+    WHEN v_average_score >= 80 AND v_average_time_ratio <= 0.6 THEN 'Fast'
+    WHEN v_average_score >= 75 AND v_average_time_ratio <= 0.75 AND v_score_trend >= 10 THEN 'Fast'
+    -- Low scores, or middling scores that need almost the whole time limit
+    WHEN v_average_score < 50 THEN 'Slow'
+    WHEN v_average_score < 65 AND v_average_time_ratio >= 0.9 THEN 'Slow'
+    WHEN v_average_score < 65 AND v_score_trend <= -15 THEN 'Slow'
+    ELSE 'Moderate'
+  END;
+
+  SELECT classification INTO v_previous FROM classifications WHERE user_id = p_user_id;
+
+  INSERT INTO classifications (user_id, classification, updated_at)
+  VALUES (p_user_id, v_classification, now())
+  ON CONFLICT (user_id)
+  DO UPDATE SET classification = EXCLUDED.classification, updated_at = now();
+
+  IF v_previous IS DISTINCT FROM v_classification THEN
+    INSERT INTO classification_history (
+      user_id, classification, previous_classification,
+      average_score, average_time_ratio, score_trend, submission_ids
+    )
+    VALUES (
+      p_user_id, v_classification, v_previous,
+      round(v_average_score, 2), round(v_average_time_ratio, 2), round(v_score_trend, 2), v_submission_ids
+    );
+  END IF;
+
+  RETURN v_classification;
+END;
+$$;
+
+-- Reclassify everyone who has submissions without their retries
+DO $$
+DECLARE
+  v_user_id UUID;
+BEGIN
+  FOR v_user_id IN SELECT DISTINCT user_id FROM public.quiz_submissions LOOP
+    PERFORM public.classify_user(v_user_id);
+  END LOOP;
+END
+$$;
@@ -0,0 +1,69 @@
+-- Slide title search treats the query as text. Its %, _ and \ were read as LIKE
+-- wildcards, so searching for "100%" or "a_b" matched titles without them.
+--
+-- Slides also record when their page text was last indexed. Slides uploaded before
+-- search existed have no slide_pages rows; admins index them from the admin page
+-- (POST /api/content/index-pages), which works through the slides without a date.
+
+ALTER TABLE public.slides
+ADD COLUMN IF NOT EXISTS pages_indexed_at TIMESTAMP WITH TIME ZONE;
+
+UPDATE public.slides s
+SET pages_indexed_at = now()
+WHERE pages_indexed_at IS NULL
+AND EXISTS (SELECT 1 FROM public.slide_pages p WHERE p.slide_id = s.id);
+
+CREATE INDEX IF NOT EXISTS slides_unindexed_idx ON public.slides(created_at) WHERE pages_indexed_at IS NULL;
+
+-- The text with LIKE's wildcards and escape character escaped, for use with ESCAPE '\'
+CREATE OR REPLACE FUNCTION public.like_escape(p_text TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT replace(replace(replace(p_text, '\', '\\'), '%', '\%'), '_', '\_');
+$$;
+
+CREATE OR REPLACE FUNCTION public.search_slides(p_query TEXT)
+RETURNS TABLE (
+  slide_id UUID,
+  rank REAL,
+  page_number INTEGER,
+  snippet TEXT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH query AS (
+    SELECT websearch_to_tsquery('english', p_query) AS q
+  ),
+  best_pages AS (
+    SELECT DISTINCT ON (p.slide_id)
+      p.slide_id,
+      p.page_number,
+      p.content,
+      ts_rank(p.search, query.q) AS rank
+    FROM slide_pages p, query
+    WHERE p.search @@ query.q
+    ORDER BY p.slide_id, ts_rank(p.search, query.q) DESC, p.page_number
+  )
+  SELECT
+    s.id,
+    (ts_rank(s.search, query.q) * 2 + coalesce(bp.rank, 0))::REAL AS rank,
+    bp.page_number,
+    ts_headline(
+      'english',
+      coalesce(bp.content, concat_ws(' — ', s.title, s.description)),
+      query.q,
+      'StartSel=<mark>, StopSel=</mark>, MinWords=10, MaxWords=30, MaxFragments=2, FragmentDelimiter=" ... "'
+    )
+  FROM slides s
+  CROSS JOIN query
+  LEFT JOIN best_pages bp ON bp.slide_id = s.id
+  WHERE s.search @@ query.q
+  OR bp.slide_id IS NOT NULL
+  OR s.title ILIKE '%' || like_escape(trim(p_query)) || '%' ESCAPE '\'
+  ORDER BY rank DESC, s.created_at DESC
+  LIMIT 100;
+$$;
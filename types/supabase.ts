@@ -1,180 +1,1147 @@
-export type Json = string | number | boolean | null | { [key: string]: Json | undefined } | Json[]
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
 
-export interface Database {
+export type Database = {
   public: {
     Tables: {
-      profiles: {
+      chat_conversations: {
         Row: {
+          created_at: string | null
           id: string
+          slide_id: string
+          updated_at: string | null
           user_id: string
-          name: string
-          email: string
-          created_at: string
-          updated_at: string
         }
         Insert: {
+          created_at?: string | null
           id?: string
+          slide_id: string
+          updated_at?: string | null
           user_id: string
-          name: string
-          email: string
-          created_at?: string
-          updated_at?: string
         }
         Update: {
+          created_at?: string | null
           id?: string
+          slide_id?: string
+          updated_at?: string | null
           user_id?: string
-          name?: string
-          email?: string
-          created_at?: string
-          updated_at?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "chat_conversations_slide_id_fkey"
+            columns: ["slide_id"]
+            isOneToOne: false
+            referencedRelation: "slides"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      chat_messages: {
+        Row: {
+          citations: Json
+          content: string
+          conversation_id: string
+          created_at: string | null
+          id: string
+          role: string
+        }
+        Insert: {
+          citations?: Json
+          content: string
+          conversation_id: string
+          created_at?: string | null
+          id?: string
+          role: string
+        }
+        Update: {
+          citations?: Json
+          content?: string
+          conversation_id?: string
+          created_at?: string | null
+          id?: string
+          role?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chat_messages_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "chat_conversations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      classification_history: {
+        Row: {
+          average_score: number
+          average_time_ratio: number
+          classification: string
+          created_at: string | null
+          id: string
+          previous_classification: string | null
+          score_trend: number
+          submission_ids: string[]
+          user_id: string
+        }
+        Insert: {
+          average_score: number
+          average_time_ratio: number
+          classification: string
+          created_at?: string | null
+          id?: string
+          previous_classification?: string | null
+          score_trend: number
+          submission_ids: string[]
+          user_id: string
+        }
+        Update: {
+          average_score?: number
+          average_time_ratio?: number
+          classification?: string
+          created_at?: string | null
+          id?: string
+          previous_classification?: string | null
+          score_trend?: number
+          submission_ids?: string[]
+          user_id?: string
+        }
+        Relationships: []
       }
       classifications: {
         Row: {
+          classification: string
+          created_at: string | null
           id: string
+          updated_at: string | null
           user_id: string
-          classification: "Slow" | "Moderate" | "Fast"
-          created_at: string
-          updated_at: string
         }
         Insert: {
+          classification: string
+          created_at?: string | null
           id?: string
+          updated_at?: string | null
           user_id: string
-          classification: "Slow" | "Moderate" | "Fast"
-          created_at?: string
-          updated_at?: string
         }
         Update: {
+          classification?: string
+          created_at?: string | null
           id?: string
+          updated_at?: string | null
           user_id?: string
-          classification?: "Slow" | "Moderate" | "Fast"
-          created_at?: string
-          updated_at?: string
         }
+        Relationships: []
       }
-      quizzes: {
+      content_progress: {
         Row: {
+          completed: boolean | null
+          created_at: string | null
           id: string
-          title: string
-          description: string
-          time_limit: number
-          question_count: number
+          last_position: number | null
+          slide_id: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          completed?: boolean | null
+          created_at?: string | null
+          id?: string
+          last_position?: number | null
+          slide_id: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          completed?: boolean | null
+          created_at?: string | null
+          id?: string
+          last_position?: number | null
+          slide_id?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "content_progress_slide_id_fkey"
+            columns: ["slide_id"]
+            isOneToOne: false
+            referencedRelation: "slides"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      courses: {
+        Row: {
+          code: string
+          created_at: string | null
+          description: string | null
+          id: string
+          name: string
+          owner_id: string | null
+          term: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          code: string
+          created_at?: string | null
+          description?: string | null
+          id?: string
+          name: string
+          owner_id?: string | null
+          term?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          code?: string
+          created_at?: string | null
+          description?: string | null
+          id?: string
+          name?: string
+          owner_id?: string | null
+          term?: string | null
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      enrollments: {
+        Row: {
+          course_id: string
+          created_at: string | null
+          id: string
+          user_id: string
+        }
+        Insert: {
+          course_id: string
+          created_at?: string | null
+          id?: string
+          user_id?: string
+        }
+        Update: {
+          course_id?: string
+          created_at?: string | null
+          id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "enrollments_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
           created_at: string
+          email: string | null
+          id: string
+          name: string
+          role: string
           updated_at: string
+          user_id: string
         }
         Insert: {
-          id?: string
-          title: string
-          description: string
-          time_limit: number
-          question_count: number
           created_at?: string
+          email?: string | null
+          id?: string
+          name: string
+          role?: string
           updated_at?: string
+          user_id: string
         }
         Update: {
-          id?: string
-          title?: string
-          description?: string
-          time_limit?: number
-          question_count?: number
           created_at?: string
+          email?: string | null
+          id?: string
+          name?: string
+          role?: string
           updated_at?: string
+          user_id?: string
         }
+        Relationships: []
       }
-      quiz_questions: {
+      questions: {
         Row: {
+          answer_key: Json
+          content: Json
+          course_id: string | null
+          created_at: string | null
+          created_by: string | null
+          difficulty: string | null
+          explanation: string | null
           id: string
-          quiz_id: string
           question_text: string
-          option_a: string
-          option_b: string
-          option_c: string
-          option_d: string
-          correct_answer: string
-          order: number
-          created_at: string
+          slide_id: string | null
+          slide_page: number | null
+          tags: string[]
+          type: string
+          updated_at: string | null
         }
         Insert: {
+          answer_key: Json
+          content?: Json
+          course_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          difficulty?: string | null
+          explanation?: string | null
           id?: string
-          quiz_id: string
           question_text: string
-          option_a: string
-          option_b: string
-          option_c: string
-          option_d: string
-          correct_answer: string
-          order: number
-          created_at?: string
+          slide_id?: string | null
+          slide_page?: number | null
+          tags?: string[]
+          type?: string
+          updated_at?: string | null
         }
         Update: {
+          answer_key?: Json
+          content?: Json
+          course_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          difficulty?: string | null
+          explanation?: string | null
           id?: string
-          quiz_id?: string
           question_text?: string
-          option_a?: string
-          option_b?: string
-          option_c?: string
-          option_d?: string
-          correct_answer?: string
+          slide_id?: string | null
+          slide_page?: number | null
+          tags?: string[]
+          type?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "questions_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "questions_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "questions_slide_id_fkey"
+            columns: ["slide_id"]
+            isOneToOne: false
+            referencedRelation: "slides"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      quiz_attempts: {
+        Row: {
+          answers: Json
+          current_question: number
+          deadline: string
+          id: string
+          question_ids: string[] | null
+          quiz_id: string
+          retry_of: string | null
+          seed: number
+          shuffle_options: boolean
+          shuffle_questions: boolean
+          started_at: string
+          submission_id: string | null
+          submitted_at: string | null
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          answers?: Json
+          current_question?: number
+          deadline: string
+          id?: string
+          question_ids?: string[] | null
+          quiz_id: string
+          retry_of?: string | null
+          seed?: number
+          shuffle_options?: boolean
+          shuffle_questions?: boolean
+          started_at?: string
+          submission_id?: string | null
+          submitted_at?: string | null
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          answers?: Json
+          current_question?: number
+          deadline?: string
+          id?: string
+          question_ids?: string[] | null
+          quiz_id?: string
+          retry_of?: string | null
+          seed?: number
+          shuffle_options?: boolean
+          shuffle_questions?: boolean
+          started_at?: string
+          submission_id?: string | null
+          submitted_at?: string | null
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quiz_attempts_quiz_id_fkey"
+            columns: ["quiz_id"]
+            isOneToOne: false
+            referencedRelation: "quizzes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quiz_attempts_retry_of_fkey"
+            columns: ["retry_of"]
+            isOneToOne: false
+            referencedRelation: "quiz_submissions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quiz_attempts_submission_id_fkey"
+            columns: ["submission_id"]
+            isOneToOne: false
+            referencedRelation: "quiz_submissions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      quiz_questions: {
+        Row: {
+          created_at: string | null
+          order: number
+          question_id: string
+          quiz_id: string
+        }
+        Insert: {
+          created_at?: string | null
           order?: number
-          created_at?: string
+          question_id: string
+          quiz_id: string
+        }
+        Update: {
+          created_at?: string | null
+          order?: number
+          question_id?: string
+          quiz_id?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "quiz_questions_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quiz_questions_quiz_id_fkey"
+            columns: ["quiz_id"]
+            isOneToOne: false
+            referencedRelation: "quizzes"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       quiz_submissions: {
         Row: {
+          answers: Json
+          correct_count: number | null
+          created_at: string | null
           id: string
-          user_id: string
+          question_ids: string[] | null
           quiz_id: string
+          results: Json
+          retry_of: string | null
           score: number
           time_taken: number
-          answers: Json
-          created_at: string
+          total_questions: number | null
+          user_id: string
         }
         Insert: {
+          answers?: Json
+          correct_count?: number | null
+          created_at?: string | null
           id?: string
-          user_id: string
+          question_ids?: string[] | null
           quiz_id: string
+          results: Json
+          retry_of?: string | null
           score: number
-          time_taken: number
-          answers: Json
-          created_at?: string
+          time_taken?: number
+          total_questions?: number | null
+          user_id: string
         }
         Update: {
+          answers?: Json
+          correct_count?: number | null
+          created_at?: string | null
           id?: string
-          user_id?: string
+          question_ids?: string[] | null
           quiz_id?: string
+          results?: Json
+          retry_of?: string | null
           score?: number
           time_taken?: number
-          answers?: Json
-          created_at?: string
+          total_questions?: number | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quiz_submissions_quiz_id_fkey"
+            columns: ["quiz_id"]
+            isOneToOne: false
+            referencedRelation: "quizzes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quiz_submissions_retry_of_fkey"
+            columns: ["retry_of"]
+            isOneToOne: false
+            referencedRelation: "quiz_submissions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      quizzes: {
+        Row: {
+          course_id: string | null
+          created_at: string | null
+          description: string | null
+          id: string
+          question_count: number
+          questions_per_attempt: number | null
+          shuffle_options: boolean
+          shuffle_questions: boolean
+          slide_id: string | null
+          status: string
+          time_limit: number
+          title: string
+          updated_at: string | null
+        }
+        Insert: {
+          course_id?: string | null
+          created_at?: string | null
+          description?: string | null
+          id?: string
+          question_count?: number
+          questions_per_attempt?: number | null
+          shuffle_options?: boolean
+          shuffle_questions?: boolean
+          slide_id?: string | null
+          status?: string
+          time_limit?: number
+          title: string
+          updated_at?: string | null
+        }
+        Update: {
+          course_id?: string | null
+          created_at?: string | null
+          description?: string | null
+          id?: string
+          question_count?: number
+          questions_per_attempt?: number | null
+          shuffle_options?: boolean
+          shuffle_questions?: boolean
+          slide_id?: string | null
+          status?: string
+          time_limit?: number
+          title?: string
+          updated_at?: string | null
         }
+        Relationships: [
+          {
+            foreignKeyName: "quizzes_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quizzes_slide_id_fkey"
+            columns: ["slide_id"]
+            isOneToOne: false
+            referencedRelation: "slides"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       recommendations: {
         Row: {
+          classification: string | null
+          content_id: string | null
+          created_at: string | null
+          description: string | null
           id: string
+          reason: string | null
+          score: number
           title: string
-          description: string
-          classification: "Slow" | "Moderate" | "Fast"
-          content_id: string
-          created_at: string
+          user_id: string | null
         }
         Insert: {
+          classification?: string | null
+          content_id?: string | null
+          created_at?: string | null
+          description?: string | null
           id?: string
+          reason?: string | null
+          score?: number
           title: string
-          description: string
-          classification: "Slow" | "Moderate" | "Fast"
-          content_id: string
-          created_at?: string
+          user_id?: string | null
         }
         Update: {
+          classification?: string | null
+          content_id?: string | null
+          created_at?: string | null
+          description?: string | null
           id?: string
+          reason?: string | null
+          score?: number
           title?: string
-          description?: string
-          classification?: "Slow" | "Moderate" | "Fast"
-          content_id?: string
-          created_at?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recommendations_content_id_fkey"
+            columns: ["content_id"]
+            isOneToOne: false
+            referencedRelation: "slides"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      schema_migrations: {
+        Row: {
+          applied_at: string
+          checksum: string
+          name: string
+          version: string
+        }
+        Insert: {
+          applied_at?: string
+          checksum: string
+          name: string
+          version: string
+        }
+        Update: {
+          applied_at?: string
+          checksum?: string
+          name?: string
+          version?: string
+        }
+        Relationships: []
+      }
+      slide_pages: {
+        Row: {
+          content: string
+          page_number: number
+          search: unknown | null
+          slide_id: string
+        }
+        Insert: {
+          content?: string
+          page_number: number
+          search?: never
+          slide_id: string
+        }
+        Update: {
+          content?: string
+          page_number?: number
+          search?: never
+          slide_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "slide_pages_slide_id_fkey"
+            columns: ["slide_id"]
+            isOneToOne: false
+            referencedRelation: "slides"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      slides: {
+        Row: {
+          conversion_error: string | null
+          conversion_status: string | null
+          course_id: string
+          created_at: string | null
+          description: string | null
+          file_path: string
+          file_size: number | null
+          file_type: string | null
+          file_url: string
+          id: string
+          page_count: number | null
+          page_thumbnails: string[]
+          pages_indexed_at: string | null
+          preview_path: string | null
+          preview_url: string | null
+          search: unknown | null
+          thumbnail_path: string | null
+          title: string
+          updated_at: string | null
+          uploaded_by: string | null
+        }
+        Insert: {
+          conversion_error?: string | null
+          conversion_status?: string | null
+          course_id: string
+          created_at?: string | null
+          description?: string | null
+          file_path: string
+          file_size?: number | null
+          file_type?: string | null
+          file_url: string
+          id?: string
+          page_count?: number | null
+          page_thumbnails?: string[]
+          pages_indexed_at?: string | null
+          preview_path?: string | null
+          preview_url?: string | null
+          search?: never
+          thumbnail_path?: string | null
+          title: string
+          updated_at?: string | null
+          uploaded_by?: string | null
+        }
+        Update: {
+          conversion_error?: string | null
+          conversion_status?: string | null
+          course_id?: string
+          created_at?: string | null
+          description?: string | null
+          file_path?: string
+          file_size?: number | null
+          file_type?: string | null
+          file_url?: string
+          id?: string
+          page_count?: number | null
+          page_thumbnails?: string[]
+          pages_indexed_at?: string | null
+          preview_path?: string | null
+          preview_url?: string | null
+          search?: never
+          thumbnail_path?: string | null
+          title?: string
+          updated_at?: string | null
+          uploaded_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "slides_course_ref_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "slides_uploaded_by_fkey"
+            columns: ["uploaded_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      attempt_state: {
+        Args: {
+          p_attempt_id: string
+        }
+        Returns: Json
+      }
+      classify_after_submission: {
+        Args: Record<PropertyKey, never>
+        Returns: unknown
+      }
+      classify_user: {
+        Args: {
+          p_user_id: string
+        }
+        Returns: string
+      }
+      current_user_role: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      delete_slide: {
+        Args: {
+          slide_id: string
+        }
+        Returns: boolean
+      }
+      generate_recommendations: {
+        Args: {
+          p_user_id: string
+        }
+        Returns: number
+      }
+      get_course_progress: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          attempted_quizzes: number
+          average_score: number
+          code: string
+          completed_slides: number
+          course_id: string
+          name: string
+          total_quizzes: number
+          total_slides: number
+        }[]
+      }
+      get_quiz_for_editing: {
+        Args: {
+          p_quiz_id: string
         }
+        Returns: Json
       }
+      get_submission_review: {
+        Args: {
+          p_submission_id: string
+        }
+        Returns: {
+          answer_key: Json
+          content: Json
+          explanation: string
+          is_correct: boolean
+          order: number
+          question_id: string
+          question_text: string
+          selected_answer: Json
+          type: string
+        }[]
+      }
+      grade_answer: {
+        Args: {
+          p_answer: Json
+          p_answer_key: Json
+          p_type: string
+        }
+        Returns: boolean
+      }
+      grade_multi_select: {
+        Args: {
+          p_answer: Json
+          p_answer_key: Json
+        }
+        Returns: boolean
+      }
+      grade_multiple_choice: {
+        Args: {
+          p_answer: Json
+          p_answer_key: Json
+        }
+        Returns: boolean
+      }
+      grade_numeric: {
+        Args: {
+          p_answer: Json
+          p_answer_key: Json
+        }
+        Returns: boolean
+      }
+      grade_ordering: {
+        Args: {
+          p_answer: Json
+          p_answer_key: Json
+        }
+        Returns: boolean
+      }
+      grade_short_answer: {
+        Args: {
+          p_answer: Json
+          p_answer_key: Json
+        }
+        Returns: boolean
+      }
+      grade_true_false: {
+        Args: {
+          p_answer: Json
+          p_answer_key: Json
+        }
+        Returns: boolean
+      }
+      graded_questions: {
+        Args: {
+          p_answers: Json
+          p_question_ids: string[]
+          p_quiz_id: string
+        }
+        Returns: Json
+      }
+      is_admin: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      is_instructor: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      like_escape: {
+        Args: {
+          p_text: string
+        }
+        Returns: string
+      }
+      ordering_sequence: {
+        Args: {
+          p_answer_key: Json
+          p_content: Json
+        }
+        Returns: Json
+      }
+      protect_profile_role: {
+        Args: Record<PropertyKey, never>
+        Returns: unknown
+      }
+      question_error: {
+        Args: {
+          p_answer_key: Json
+          p_content: Json
+          p_type: string
+        }
+        Returns: string
+      }
+      question_tags: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          question_count: number
+          tag: string
+        }[]
+      }
+      recommend_after_enrollment: {
+        Args: Record<PropertyKey, never>
+        Returns: unknown
+      }
+      recommend_after_progress: {
+        Args: Record<PropertyKey, never>
+        Returns: unknown
+      }
+      refresh_recommendations: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      retry_question_ids: {
+        Args: {
+          p_quiz_id: string
+          p_submission_id: string
+        }
+        Returns: string[]
+      }
+      save_quiz: {
+        Args: {
+          p_questions: Json
+          p_quiz: Json
+          p_quiz_id?: string
+        }
+        Returns: string
+      }
+      save_quiz_attempt: {
+        Args: {
+          p_answers: Json
+          p_attempt_id: string
+          p_current_question: number
+        }
+        Returns: boolean
+      }
+      search_question_bank: {
+        Args: {
+          p_course_id?: string
+          p_difficulty?: string
+          p_query?: string
+          p_tags?: string[]
+          p_type?: string
+        }
+        Returns: {
+          answer_key: Json
+          can_edit: boolean
+          content: Json
+          course_id: string
+          difficulty: string
+          explanation: string
+          id: string
+          question_text: string
+          quiz_count: number
+          slide_id: string
+          slide_page: number
+          tags: string[]
+          type: string
+          updated_at: string
+        }[]
+      }
+      search_slides: {
+        Args: {
+          p_query: string
+        }
+        Returns: {
+          page_number: number
+          rank: number
+          slide_id: string
+          snippet: string
+        }[]
+      }
+      set_user_role: {
+        Args: {
+          p_email: string
+          p_role: string
+        }
+        Returns: boolean
+      }
+      shuffle_rank: {
+        Args: {
+          p_seed: number
+          p_value: string
+        }
+        Returns: string
+      }
+      start_quiz_attempt: {
+        Args: {
+          p_quiz_id: string
+          p_retry_submission_id?: string
+        }
+        Returns: Json
+      }
+      submit_quiz_attempt: {
+        Args: {
+          p_answers?: Json
+          p_attempt_id: string
+        }
+        Returns: Json
+      }
+      update_question_count: {
+        Args: Record<PropertyKey, never>
+        Returns: unknown
+      }
+    }
+    Enums: {
+      [_ in never]: never
+    }
+    CompositeTypes: {
+      [_ in never]: never
     }
   }
 }
 
+type DefaultSchema = Database[Extract<keyof Database, "public">]
+
+export type Tables<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof (DefaultSchema["Tables"] & DefaultSchema["Views"])
+    | { schema: keyof Database },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof Database
+  }
+    ? keyof (Database[DefaultSchemaTableNameOrOptions["schema"]]["Tables"] &
+        Database[DefaultSchemaTableNameOrOptions["schema"]]["Views"])
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends { schema: keyof Database }
+  ? (Database[DefaultSchemaTableNameOrOptions["schema"]]["Tables"] &
+      Database[DefaultSchemaTableNameOrOptions["schema"]]["Views"])[TableName] extends {
+      Row: infer R
+    }
+    ? R
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof (DefaultSchema["Tables"] &
+        DefaultSchema["Views"])
+    ? (DefaultSchema["Tables"] &
+        DefaultSchema["Views"])[DefaultSchemaTableNameOrOptions] extends {
+        Row: infer R
+      }
+      ? R
+      : never
+    : never
+
+export type TablesInsert<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof DefaultSchema["Tables"]
+    | { schema: keyof Database },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof Database
+  }
+    ? keyof Database[DefaultSchemaTableNameOrOptions["schema"]]["Tables"]
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends { schema: keyof Database }
+  ? Database[DefaultSchemaTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+      Insert: infer I
+    }
+    ? I
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema["Tables"]
+    ? DefaultSchema["Tables"][DefaultSchemaTableNameOrOptions] extends {
+        Insert: infer I
+      }
+      ? I
+      : never
+    : never
+
+export type TablesUpdate<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof DefaultSchema["Tables"]
+    | { schema: keyof Database },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof Database
+  }
+    ? keyof Database[DefaultSchemaTableNameOrOptions["schema"]]["Tables"]
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends { schema: keyof Database }
+  ? Database[DefaultSchemaTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+      Update: infer U
+    }
+    ? U
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema["Tables"]
+    ? DefaultSchema["Tables"][DefaultSchemaTableNameOrOptions] extends {
+        Update: infer U
+      }
+      ? U
+      : never
+    : never
+
+export type Enums<
+  DefaultSchemaEnumNameOrOptions extends
+    | keyof DefaultSchema["Enums"]
+    | { schema: keyof Database },
+  EnumName extends DefaultSchemaEnumNameOrOptions extends {
+    schema: keyof Database
+  }
+    ? keyof Database[DefaultSchemaEnumNameOrOptions["schema"]]["Enums"]
+    : never = never,
+> = DefaultSchemaEnumNameOrOptions extends { schema: keyof Database }
+  ? Database[DefaultSchemaEnumNameOrOptions["schema"]]["Enums"][EnumName]
+  : DefaultSchemaEnumNameOrOptions extends keyof DefaultSchema["Enums"]
+    ? DefaultSchema["Enums"][DefaultSchemaEnumNameOrOptions]
+    : never
+
+export type CompositeTypes<
+  PublicCompositeTypeNameOrOptions extends
+    | keyof DefaultSchema["CompositeTypes"]
+    | { schema: keyof Database },
+  CompositeTypeName extends PublicCompositeTypeNameOrOptions extends {
+    schema: keyof Database
+  }
+    ? keyof Database[PublicCompositeTypeNameOrOptions["schema"]]["CompositeTypes"]
+    : never = never,
+> = PublicCompositeTypeNameOrOptions extends { schema: keyof Database }
+  ? Database[PublicCompositeTypeNameOrOptions["schema"]]["CompositeTypes"][CompositeTypeName]
+  : PublicCompositeTypeNameOrOptions extends keyof DefaultSchema["CompositeTypes"]
+    ? DefaultSchema["CompositeTypes"][PublicCompositeTypeNameOrOptions]
+    : never
+
+export const Constants = {
+  public: {
+    Enums: {},
+  },
+} as const